@@ -0,0 +1,13 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { diagnostics: false }]
+  },
+  // Runs before each test file: test environment variables, RSA key pair, isolated working directory
+  setupFiles: ['<rootDir>/src/__tests__/helpers/env.ts'],
+  // Processing real clips with ffmpeg is slow on small CI machines
+  testTimeout: 120000
+};
@@ -0,0 +1,32 @@
+import { parseSegmentFile } from "../utils/analytics";
+import { Rendition } from "../utils/transcodingLadder";
+
+const VIDEO_ID = "507f1f77bcf86cd799439011";
+
+const rendition = (name: string, height: number): Rendition =>
+  ({ name, width: (height * 16) / 9, height, videoBitrate: 1000, maxrate: 1070, bufsize: 2000 });
+
+const renditions = [rendition("720p", 720), rendition("360p", 360)];
+
+describe("analytics", () => {
+  describe("parseSegmentFile", () => {
+    it("maps HLS segments to their rendition", () => {
+      expect(parseSegmentFile(VIDEO_ID, `${VIDEO_ID}_v1_007.ts`, renditions)).toEqual({ rendition: "360p", index: 7 });
+    });
+
+    it("numbers CMAF segments from 0 and skips the audio representation", () => {
+      expect(parseSegmentFile(VIDEO_ID, `${VIDEO_ID}_chunk_0_00001.m4s`, renditions)).toEqual({ rendition: "720p", index: 0 });
+      expect(parseSegmentFile(VIDEO_ID, `${VIDEO_ID}_chunk_2_00001.m4s`, renditions)).toBeNull();
+    });
+
+    it("falls back to the variant number for videos without renditions", () => {
+      expect(parseSegmentFile(VIDEO_ID, `${VIDEO_ID}_v0_000.ts`)).toEqual({ rendition: "v0", index: 0 });
+    });
+
+    it("ignores playlists, init segments and other videos", () => {
+      expect(parseSegmentFile(VIDEO_ID, `${VIDEO_ID}_master.m3u8`, renditions)).toBeNull();
+      expect(parseSegmentFile(VIDEO_ID, `${VIDEO_ID}_init_0.m4s`, renditions)).toBeNull();
+      expect(parseSegmentFile(VIDEO_ID, `507f1f77bcf86cd799439012_v0_000.ts`, renditions)).toBeNull();
+    });
+  });
+});
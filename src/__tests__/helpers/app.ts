@@ -0,0 +1,20 @@
+import { createVideoServer, VideoServerOptions } from "../../videoServer";
+
+/**
+ * Creates the video server with the test key pair and secret (see env.ts),
+ * without connecting to MongoDB, starting background timers or listening on a port.
+ * @param {Partial<VideoServerOptions>} options - Options overriding the test defaults.
+ * @returns {VideoServer} The video server.
+ */
+export const createTestServer = (options: Partial<VideoServerOptions> = {}) =>
+  createVideoServer({
+    publicKey: Buffer.from(process.env.PUBLIC_KEY_BASE64!, "base64").toString("utf-8"),
+    streamSecret: process.env.STREAM_SECRET!,
+    ...options,
+  });
+
+/**
+ * Builds the Express app of the video server, to use with supertest.
+ * @returns {express.Express} The app.
+ */
+export const createTestApp = () => createTestServer().app;
@@ -0,0 +1,23 @@
+import jwt from "jsonwebtoken";
+import mongoose from "mongoose";
+
+/**
+ * Signs a JWT accepted by verifyToken, with the test private key generated in env.ts.
+ * @param {string} userId - The user id put in the token.
+ * @param {jwt.SignOptions} options - Extra sign options (e.g. expiresIn).
+ * @param {object} claims - Extra claims (e.g. roles, scope).
+ * @returns {string} The signed token.
+ */
+export const signTestToken = (userId: string, options: jwt.SignOptions = {}, claims: object = {}): string => {
+  return jwt.sign({ ...claims, userId }, process.env.TEST_PRIVATE_KEY!, { algorithm: "RS256", expiresIn: "1h", ...options });
+};
+
+/**
+ * Creates a random user id with its Authorization header.
+ * @param {object} claims - Extra claims of the token (e.g. `{ roles: ["admin"] }`).
+ * @returns {{ userId: string, auth: string }} The user id and the "Bearer ..." header value.
+ */
+export const createTestUser = (claims: object = {}) => {
+  const userId = new mongoose.Types.ObjectId().toString();
+  return { userId, auth: `Bearer ${signTestToken(userId, {}, claims)}` };
+};
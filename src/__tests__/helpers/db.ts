@@ -0,0 +1,32 @@
+import mongoose from "mongoose";
+import { MongoMemoryServer } from "mongodb-memory-server";
+
+let mongoServer: MongoMemoryServer | undefined;
+
+/**
+ * Starts an in-memory MongoDB server and connects mongoose to it.
+ * The first run downloads a mongod binary (cached afterwards, see MONGOMS_* environment variables).
+ */
+export const startTestDatabase = async () => {
+  mongoServer = await MongoMemoryServer.create();
+  await mongoose.connect(mongoServer.getUri());
+  // Text search (GET /videos?q=) needs the text index
+  await Promise.all(Object.values(mongoose.models).map((model) => model.syncIndexes()));
+};
+
+/**
+ * Removes every document, keeping the indexes.
+ */
+export const clearTestDatabase = async () => {
+  const collections = Object.values(mongoose.connection.collections);
+  await Promise.all(collections.map((collection) => collection.deleteMany({})));
+};
+
+/**
+ * Disconnects mongoose and stops the in-memory server.
+ */
+export const stopTestDatabase = async () => {
+  await mongoose.disconnect();
+  await mongoServer?.stop();
+  mongoServer = undefined;
+};
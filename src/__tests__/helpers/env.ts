@@ -0,0 +1,28 @@
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+// Test RSA key pair: the public key is given to createVideoServer (see app.ts), the private key signs test JWTs
+const { publicKey, privateKey } = crypto.generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: "spki", format: "pem" },
+  privateKeyEncoding: { type: "pkcs8", format: "pem" },
+});
+
+process.env.NODE_ENV = "test";
+process.env.STREAM_SECRET = "test-stream-secret";
+process.env.MONGO_URI = "mongodb://127.0.0.1:27017/unused"; // Replaced by the in-memory server (see db.ts)
+process.env.PUBLIC_KEY_BASE64 = Buffer.from(publicKey).toString("base64");
+process.env.TEST_PRIVATE_KEY = privateKey;
+process.env.STORAGE_DRIVER = "local";
+process.env.ENABLE_LOGS = "false";
+process.env.DOTENV_CONFIG_QUIET = "true";
+
+// config/test.json overrides the defaults (faster queue polling, no retries);
+// the folder is set explicitly because the working directory changes below
+process.env.NODE_CONFIG_DIR = path.resolve(__dirname, "../../../config");
+
+// Uploads and processed videos go to a temporary folder instead of the project's uploads/
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "video-server-test-"));
+process.chdir(workDir);
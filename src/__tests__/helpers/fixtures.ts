@@ -0,0 +1,53 @@
+import { execFile, execFileSync } from "child_process";
+import fs from "fs";
+import path from "path";
+
+export interface TestClipOptions {
+  audio: boolean;
+  duration?: number;  // seconds
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Checks whether ffmpeg and ffprobe are installed, so that tests processing real videos can be skipped otherwise.
+ * @returns {boolean} Whether both binaries can be run.
+ */
+export const hasFfmpeg = (): boolean => {
+  try {
+    execFileSync("ffmpeg", ["-version"], { stdio: "ignore" });
+    execFileSync("ffprobe", ["-version"], { stdio: "ignore" });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Generates a tiny MP4 clip with ffmpeg's test sources: a color test pattern and, optionally, a sine tone.
+ * @param {TestClipOptions} options - Audio track, duration and size of the clip.
+ * @returns {Promise<string>} The path of the clip (in the test working directory).
+ */
+export const createTestClip = async ({ audio, duration = 2, width = 320, height = 240 }: TestClipOptions): Promise<string> => {
+  const dir = path.resolve("fixtures");
+  await fs.promises.mkdir(dir, { recursive: true });
+
+  const output = path.join(dir, `clip_${width}x${height}_${duration}s${audio ? "_audio" : ""}.mp4`);
+  if (fs.existsSync(output)) return output;
+
+  const args = ["-y", "-f", "lavfi", "-i", `testsrc=size=${width}x${height}:rate=25:duration=${duration}`];
+  if (audio) {
+    args.push("-f", "lavfi", "-i", `sine=frequency=440:duration=${duration}`);
+  }
+  args.push("-c:v", "libx264", "-preset", "ultrafast", "-pix_fmt", "yuv420p");
+  if (audio) {
+    args.push("-c:a", "aac", "-shortest");
+  }
+  args.push(output);
+
+  await new Promise<void>((resolve, reject) => {
+    execFile("ffmpeg", args, (err) => (err ? reject(err) : resolve()));
+  });
+
+  return output;
+};
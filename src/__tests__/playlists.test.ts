@@ -0,0 +1,19 @@
+import { isSamePlaylistContent, playlistCoverKey } from "../utils/playlists";
+
+describe("playlists", () => {
+  describe("isSamePlaylistContent", () => {
+    it("accepts any order of the same videos", () => {
+      expect(isSamePlaylistContent(["a", "b", "c"], ["c", "a", "b"])).toBe(true);
+    });
+
+    it("rejects missing, extra or repeated videos", () => {
+      expect(isSamePlaylistContent(["a", "b", "c"], ["a", "b"])).toBe(false);
+      expect(isSamePlaylistContent(["a", "b"], ["a", "b", "d"])).toBe(false);
+      expect(isSamePlaylistContent(["a", "b", "c"], ["a", "a", "b"])).toBe(false);
+    });
+  });
+
+  it("stores covers outside of the video folders", () => {
+    expect(playlistCoverKey("6650f1c2a1b2c3d4e5f60718")).toBe("playlists/6650f1c2a1b2c3d4e5f60718_cover.webp");
+  });
+});
@@ -0,0 +1,26 @@
+import { clearProgress, emitProgress, getLastProgress, subscribeProgress } from "../utils/processingEvents";
+
+describe("processing events", () => {
+  it("keeps the last event of a video while it is processed", () => {
+    emitProgress("v1", "hls", 50);
+
+    expect(getLastProgress("v1")).toMatchObject({ stage: "hls", percent: 50 });
+    clearProgress("v1");
+    expect(getLastProgress("v1")).toBeUndefined();
+  });
+
+  it("forgets a video once it reaches a terminal stage", () => {
+    const events: string[] = [];
+    const unsubscribe = subscribeProgress("v2", (event) => events.push(`${event.stage}:${event.percent}`));
+
+    emitProgress("v2", "hls", 50);
+    emitProgress("v2", "error", 0, "ffmpeg failed");
+    emitProgress("v3", "hls", 10);
+    emitProgress("v3", "done");
+    unsubscribe();
+
+    expect(events).toEqual(["hls:50", "error:50"]);
+    expect(getLastProgress("v2")).toBeUndefined();
+    expect(getLastProgress("v3")).toBeUndefined();
+  });
+});
@@ -0,0 +1,67 @@
+import { restrictMasterPlaylist, signPlaylistUris } from "../utils/signedUrl";
+
+const PARAMS = "?expires=1700000000000&signature=abc&uid=u1&kid=default";
+
+describe("signPlaylistUris", () => {
+  it("signs the variant playlists and the subtitles of a master playlist", () => {
+    const master = [
+      "#EXTM3U",
+      '#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="EN",LANGUAGE="en",URI="v_sub_en.m3u8"',
+      '#EXT-X-STREAM-INF:BANDWIDTH=2800000,RESOLUTION=1280x720,SUBTITLES="subs"',
+      "v_stream_0.m3u8",
+      "",
+    ].join("\n");
+
+    expect(signPlaylistUris(master, PARAMS)).toBe([
+      "#EXTM3U",
+      `#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="EN",LANGUAGE="en",URI="v_sub_en.m3u8${PARAMS}"`,
+      '#EXT-X-STREAM-INF:BANDWIDTH=2800000,RESOLUTION=1280x720,SUBTITLES="subs"',
+      `v_stream_0.m3u8${PARAMS}`,
+      "",
+    ].join("\n"));
+  });
+
+  it("signs the segments and the init segment of a media playlist", () => {
+    const media = ['#EXT-X-MAP:URI="v_init_0.m4s"', "#EXTINF:4.000000,", "v_chunk_0_00001.m4s\r", "#EXT-X-ENDLIST"].join("\n");
+
+    expect(signPlaylistUris(media, PARAMS).split("\n")).toEqual([
+      `#EXT-X-MAP:URI="v_init_0.m4s${PARAMS}"`,
+      "#EXTINF:4.000000,",
+      `v_chunk_0_00001.m4s${PARAMS}\r`,
+      "#EXT-X-ENDLIST",
+    ]);
+  });
+
+  it("keeps absolute URIs and extends existing queries", () => {
+    const playlist = ["https://cdn.example.com/v_v0_000.ts", "/other/v_v0_001.ts", "v_v0_002.ts?part=1"].join("\n");
+
+    expect(signPlaylistUris(playlist, PARAMS).split("\n")).toEqual([
+      "https://cdn.example.com/v_v0_000.ts",
+      "/other/v_v0_001.ts",
+      `v_v0_002.ts?part=1&${PARAMS.substring(1)}`,
+    ]);
+  });
+});
+
+describe("restrictMasterPlaylist", () => {
+  it("keeps the variant streams and the renditions of the scope", () => {
+    const master = [
+      "#EXTM3U",
+      '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="group_A1",NAME="audio_0",DEFAULT=YES,URI="media_2.m3u8"',
+      '#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="EN",LANGUAGE="en",URI="v_sub_en.m3u8"',
+      '#EXT-X-STREAM-INF:BANDWIDTH=2800000,RESOLUTION=1280x720,AUDIO="group_A1",SUBTITLES="subs"',
+      "media_0.m3u8",
+      '#EXT-X-STREAM-INF:BANDWIDTH=1400000,RESOLUTION=854x480,AUDIO="group_A1",SUBTITLES="subs"',
+      "media_1.m3u8",
+      "",
+    ].join("\n");
+
+    expect(restrictMasterPlaylist(master, "v", [1, 2])).toBe([
+      "#EXTM3U",
+      '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="group_A1",NAME="audio_0",DEFAULT=YES,URI="media_2.m3u8"',
+      '#EXT-X-STREAM-INF:BANDWIDTH=1400000,RESOLUTION=854x480,AUDIO="group_A1"',
+      "media_1.m3u8",
+      "",
+    ].join("\n"));
+  });
+});
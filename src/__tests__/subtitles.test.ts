@@ -0,0 +1,61 @@
+import { applySubtitlesToMaster, buildSubtitlePlaylist, SubtitleTrack, toWebVtt } from "../utils/subtitles";
+
+const track = (language: string, isDefault = false): SubtitleTrack => ({
+  language,
+  label: language.toUpperCase(),
+  isDefault,
+  file: `v_sub_${language}.vtt`,
+  playlist: `v_sub_${language}.m3u8`,
+  createdAt: new Date(),
+});
+
+const MASTER = [
+  "#EXTM3U",
+  "#EXT-X-VERSION:3",
+  "#EXT-X-STREAM-INF:BANDWIDTH=2800000,RESOLUTION=1280x720",
+  "v_stream_0.m3u8",
+  "#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=640x360",
+  "v_stream_1.m3u8",
+  "",
+].join("\n");
+
+describe("subtitles", () => {
+  describe("toWebVtt", () => {
+    it("converts SRT to WebVTT", () => {
+      const srt = "﻿1\r\n00:00:01,000 --> 00:00:02,500\r\nHello\r\n";
+      expect(toWebVtt(Buffer.from(srt), "movie.SRT")).toBe("WEBVTT\n\n1\n00:00:01.000 --> 00:00:02.500\nHello\n");
+    });
+
+    it("keeps WebVTT files", () => {
+      const vtt = "WEBVTT\n\n00:01.000 --> 00:02.000\nHi\n";
+      expect(toWebVtt(Buffer.from(vtt), "a.vtt")).toBe(vtt);
+    });
+
+    it("rejects malformed files", () => {
+      expect(() => toWebVtt(Buffer.from("hello"), "a.vtt")).toThrow("WEBVTT header");
+      expect(() => toWebVtt(Buffer.from("hello"), "a.srt")).toThrow("Invalid SRT");
+    });
+  });
+
+  describe("applySubtitlesToMaster", () => {
+    it("declares the tracks before the variants and links every variant to them", () => {
+      const lines = applySubtitlesToMaster(MASTER, [track("en", true), track("it")]).split("\n");
+
+      expect(lines[2]).toContain('TYPE=SUBTITLES,GROUP-ID="subs",NAME="EN",LANGUAGE="en",DEFAULT=YES');
+      expect(lines[3]).toContain('LANGUAGE="it",DEFAULT=NO');
+      expect(lines.filter((l) => l.endsWith(',SUBTITLES="subs"'))).toHaveLength(2);
+    });
+
+    it("can be applied repeatedly and undone", () => {
+      const once = applySubtitlesToMaster(MASTER, [track("en")]);
+      expect(applySubtitlesToMaster(once, [track("en")])).toBe(once);
+      expect(applySubtitlesToMaster(once, [])).toBe(MASTER);
+    });
+  });
+
+  it("wraps the WebVTT file in a single-segment playlist", () => {
+    const playlist = buildSubtitlePlaylist("v_sub_en.vtt", 12.4);
+    expect(playlist).toContain("#EXT-X-TARGETDURATION:13");
+    expect(playlist).toContain("#EXTINF:12.400,\nv_sub_en.vtt\n#EXT-X-ENDLIST");
+  });
+});
@@ -0,0 +1,120 @@
+import sharp from "sharp";
+import {
+  buildSpriteVtt,
+  getAnimatedPreviewClips,
+  getDefaultThumbnailTimes,
+  getSpriteLayout,
+  getThumbnailCandidateTimes,
+  isBlankFrame
+} from "../utils/thumbnails";
+
+const solidFrame = (value: number) =>
+  sharp({ create: { width: 64, height: 36, channels: 3, background: { r: value, g: value, b: value } } })
+    .jpeg()
+    .toBuffer();
+
+const checkerFrame = () => {
+  const pixels = Buffer.alloc(64 * 36 * 3);
+  for (let i = 0; i < 64 * 36; i++) {
+    pixels.fill(((i % 64) + Math.floor(i / 64)) % 2 ? 230 : 40, i * 3, i * 3 + 3);
+  }
+  return sharp(pixels, { raw: { width: 64, height: 36, channels: 3 } }).png().toBuffer();
+};
+
+describe("thumbnails", () => {
+  describe("getDefaultThumbnailTimes", () => {
+    it("tries 4s first, then the quarters of the video", () => {
+      expect(getDefaultThumbnailTimes(60)).toEqual([4, 15, 30, 45]);
+    });
+
+    it("stays within clips shorter than 4 seconds", () => {
+      const times = getDefaultThumbnailTimes(2);
+      expect(times[0]).toBeCloseTo(0.667, 3);
+      expect(Math.max(...times)).toBeLessThan(2);
+    });
+
+    it("falls back to the first frame when the duration is unknown", () => {
+      expect(getDefaultThumbnailTimes(0)).toEqual([0]);
+    });
+  });
+
+  describe("getThumbnailCandidateTimes", () => {
+    it("spreads the candidates without the start and the end", () => {
+      expect(getThumbnailCandidateTimes(50, 4)).toEqual([10, 20, 30, 40]);
+    });
+
+    it("drops duplicates of very short videos", () => {
+      expect(getThumbnailCandidateTimes(0.1, 6)).toEqual([0]);
+    });
+  });
+
+  describe("isBlankFrame", () => {
+    it("detects black and plain frames", async () => {
+      expect(await isBlankFrame(await solidFrame(5))).toBe(true);
+      expect(await isBlankFrame(await solidFrame(180))).toBe(true);
+    });
+
+    it("accepts frames with content", async () => {
+      expect(await isBlankFrame(await checkerFrame())).toBe(false);
+    });
+  });
+
+  describe("sprite sheets", () => {
+    const settings = { intervalSeconds: 5, width: 160, columns: 2, rows: 2 };
+
+    it("sizes the tiles with the aspect ratio of the video", () => {
+      const layout = getSpriteLayout(22, { width: 1920, height: 1080 }, settings);
+      expect(layout).toMatchObject({ tileWidth: 160, tileHeight: 90, tiles: 5, sheets: 2 });
+
+      const portrait = getSpriteLayout(22, { width: 720, height: 1280 }, settings);
+      expect(portrait.tileHeight).toBe(284);
+    });
+
+    it("maps each interval to its tile, across sheets", () => {
+      const layout = getSpriteLayout(22, { width: 1920, height: 1080 }, settings);
+      const vtt = buildSpriteVtt(22, layout, (sheet) => `s${sheet}.jpg`);
+      const cues = vtt.split("\n\n").slice(1);
+
+      expect(vtt.startsWith("WEBVTT\n\n")).toBe(true);
+      expect(cues).toHaveLength(5);
+      expect(cues[0]).toBe("00:00:00.000 --> 00:00:05.000\ns0.jpg#xywh=0,0,160,90");
+      expect(cues[3]).toBe("00:00:15.000 --> 00:00:20.000\ns0.jpg#xywh=160,90,160,90");
+      expect(cues[4].trim()).toBe("00:00:20.000 --> 00:00:22.000\ns1.jpg#xywh=0,0,160,90");
+    });
+  });
+
+  describe("getAnimatedPreviewClips", () => {
+    const settings = {
+      format: "webp" as const,
+      width: 320,
+      fps: 10,
+      startSeconds: 1,
+      durationSeconds: 3,
+      highlightMinDuration: 60,
+      snippets: 4,
+      snippetSeconds: 2,
+    };
+
+    it("takes a single clip of short videos", () => {
+      expect(getAnimatedPreviewClips(30, settings)).toEqual([{ start: 1, length: 3 }]);
+      expect(getAnimatedPreviewClips(2, settings)).toEqual([{ start: 0, length: 2 }]);
+    });
+
+    it("stitches snippets spread across long videos", () => {
+      expect(getAnimatedPreviewClips(120, settings)).toEqual([
+        { start: 14, length: 2 },
+        { start: 44, length: 2 },
+        { start: 74, length: 2 },
+        { start: 104, length: 2 },
+      ]);
+    });
+
+    it("uses the chosen start times, kept within the video", () => {
+      expect(getAnimatedPreviewClips(100, settings, [50])).toEqual([{ start: 50, length: 3 }]);
+      expect(getAnimatedPreviewClips(100, settings, [10, 99.5])).toEqual([
+        { start: 10, length: 2 },
+        { start: 98, length: 2 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { buildRenditions, getDefaultLadder, getDisplaySize, parseLadder } from "../utils/transcodingLadder";
+
+describe("transcodingLadder", () => {
+  describe("buildRenditions", () => {
+    const ladder = getDefaultLadder();
+
+    it("produces every rung for a 1080p source", () => {
+      const renditions = buildRenditions(ladder, { width: 1920, height: 1080 });
+      expect(renditions.map((r) => `${r.width}x${r.height}`)).toEqual(["1920x1080", "1280x720", "852x480", "640x360"]);
+    });
+
+    it("never upscales", () => {
+      const renditions = buildRenditions(ladder, { width: 854, height: 480 });
+      expect(renditions.map((r) => r.name)).toEqual(["480p", "360p"]);
+    });
+
+    it("keeps the orientation of portrait videos", () => {
+      const [first] = buildRenditions(ladder, { width: 720, height: 1280 });
+      expect(first).toMatchObject({ name: "720p", width: 720, height: 1280 });
+    });
+
+    it("encodes a source smaller than every rung at its own size", () => {
+      const renditions = buildRenditions(ladder, { width: 320, height: 240 });
+      expect(renditions).toHaveLength(1);
+      expect(renditions[0]).toMatchObject({ width: 320, height: 240, videoBitrate: 800 });
+    });
+
+    it("drops rungs with the same resolution", () => {
+      const renditions = buildRenditions(
+        [{ name: "a", height: 360, videoBitrate: 800 }, { name: "b", height: 360, videoBitrate: 600 }],
+        { width: 1280, height: 720 }
+      );
+      expect(renditions).toHaveLength(1);
+    });
+
+    it("derives maxrate and bufsize from the bitrate when missing", () => {
+      const [rendition] = buildRenditions([{ name: "x", height: 360, videoBitrate: 1000 }], { width: 640, height: 360 });
+      expect(rendition).toMatchObject({ maxrate: 1070, bufsize: 2000 });
+    });
+  });
+
+  describe("parseLadder", () => {
+    it("accepts configured profile names", () => {
+      expect(parseLadder("720p,360p").map((p) => p.height)).toEqual([720, 360]);
+      expect(parseLadder(["480p"])[0]).toMatchObject({ name: "480p", videoBitrate: 1400 });
+    });
+
+    it("accepts custom profiles as JSON", () => {
+      const [profile] = parseLadder('[{ "height": 540, "videoBitrate": 1200 }]');
+      expect(profile).toEqual({ name: "540p", height: 540, videoBitrate: 1200 });
+    });
+
+    it("keeps valid maxrate and bufsize", () => {
+      const [profile] = parseLadder([{ height: 720, videoBitrate: 2000, maxrate: "2000", bufsize: 4000 }]);
+      expect(profile).toMatchObject({ maxrate: 2000, bufsize: 4000 });
+    });
+
+    it.each([
+      [[], "non-empty"],
+      [["4k"], "Unknown rendition profile"],
+      [[{ height: 100, videoBitrate: 1000 }], "height"],
+      [[{ height: 720, videoBitrate: 10 }], "videoBitrate"],
+      [[{ height: 720, videoBitrate: 2000, maxrate: "abc" }], "maxrate"],
+      [[{ height: 720, videoBitrate: 2000, maxrate: 1500 }], "maxrate"],
+      [[{ height: 720, videoBitrate: 2000, bufsize: -1 }], "bufsize"],
+      [[{ height: 720, videoBitrate: 2000, bufsize: 1e9 }], "bufsize"],
+      [Array(9).fill("360p"), "At most"],
+    ])("rejects %j", (value, message) => {
+      expect(() => parseLadder(value)).toThrow(message);
+    });
+  });
+
+  describe("getDisplaySize", () => {
+    const stream = { codec_type: "video", width: 1920, height: 1080 };
+
+    it("returns the coded size of unrotated videos", () => {
+      expect(getDisplaySize({ streams: [stream] })).toEqual({ width: 1920, height: 1080 });
+    });
+
+    it("swaps the size of videos rotated by 90 degrees", () => {
+      expect(getDisplaySize({ streams: [{ ...stream, tags: { rotate: "90" } }] })).toEqual({ width: 1080, height: 1920 });
+      expect(getDisplaySize({ streams: [{ ...stream, side_data_list: [{ rotation: -90 }] }] })).toEqual({ width: 1080, height: 1920 });
+    });
+
+    it("throws without a video stream", () => {
+      expect(() => getDisplaySize({ streams: [{ codec_type: "audio" }] })).toThrow("No video stream");
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import express from "express";
+import request from "supertest";
+import { validateRequest } from "../middleware/validateRequest.middleware";
+import {
+  animatedPreviewValidator,
+  bulkVideosValidator,
+  listVideosValidator,
+  reprocessVideoValidator,
+  updateVideoValidator,
+  uploadVideoValidator
+} from "../validators/video.validators";
+import { uploadSubtitleValidator } from "../validators/subtitle.validators";
+import { heartbeatValidator, userAnalyticsValidator } from "../validators/analytics.validators";
+import { createPlaylistValidator, reorderPlaylistValidator } from "../validators/playlist.validators";
+
+// Echoes the sanitized request, so tests can check both validation and sanitization
+const app = express();
+app.use(express.json());
+app.post("/upload", uploadVideoValidator, validateRequest, (req, res) => res.json(req.body));
+app.patch("/videos/:id", updateVideoValidator, validateRequest, (req, res) => res.json(req.body));
+app.patch("/videos/thumb/animated/:id", animatedPreviewValidator, validateRequest, (req, res) => res.json(req.body));
+app.post("/videos/:id/reprocess", reprocessVideoValidator, validateRequest, (req, res) => res.json(req.body));
+app.post("/videos/bulk", bulkVideosValidator, validateRequest, (req, res) => res.json(req.body));
+app.get("/videos", listVideosValidator, validateRequest, (req, res) => res.json(req.query));
+app.put("/videos/:id/subtitles/:lang", uploadSubtitleValidator, validateRequest, (req, res) => res.json(req.body));
+app.post("/videos/:id/analytics/heartbeat", heartbeatValidator, validateRequest, (req, res) => res.json(req.body));
+app.get("/me/analytics", userAnalyticsValidator, validateRequest, (req, res) => res.json(req.query));
+app.post("/playlists", createPlaylistValidator, validateRequest, (req, res) => res.json(req.body));
+app.put("/playlists/:id/order", reorderPlaylistValidator, validateRequest, (req, res) => res.json(req.body));
+
+const VIDEO_ID = "507f1f77bcf86cd799439011";
+
+const invalidFields = (res: request.Response) => res.body.details.map((d: any) => d.field);
+
+describe("validators", () => {
+  describe("uploadVideoValidator", () => {
+    it("parses tags from a comma-separated string", async () => {
+      const res = await request(app).post("/upload").send({ tags: "angular, typescript,," });
+      expect(res.status).toBe(200);
+      expect(res.body.tags).toEqual(["angular", "typescript"]);
+    });
+
+    it("parses the ladder into profiles", async () => {
+      const res = await request(app).post("/upload").send({ ladder: "720p,360p" });
+      expect(res.status).toBe(200);
+      expect(res.body.ladder.map((p: any) => p.height)).toEqual([720, 360]);
+    });
+
+    it("rejects an unknown ladder profile and packaging", async () => {
+      const res = await request(app).post("/upload").send({ ladder: "4k", packaging: "webm" });
+      expect(res.status).toBe(400);
+      expect(invalidFields(res)).toEqual(["ladder", "packaging"]);
+    });
+
+    it("rejects a title too long", async () => {
+      const res = await request(app).post("/upload").send({ title: "x".repeat(151) });
+      expect(res.status).toBe(400);
+      expect(invalidFields(res)).toEqual(["title"]);
+    });
+  });
+
+  describe("updateVideoValidator", () => {
+    it("rejects an invalid id", async () => {
+      const res = await request(app).patch("/videos/123").send({ title: "ok" });
+      expect(res.status).toBe(400);
+      expect(invalidFields(res)).toEqual(["id"]);
+    });
+
+    it("requires tags to be an array of strings", async () => {
+      const res = await request(app).patch(`/videos/${VIDEO_ID}`).send({ tags: "a,b" });
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("reprocessVideoValidator", () => {
+    it("accepts a selection of artifacts with a new ladder", async () => {
+      const res = await request(app)
+        .post(`/videos/${VIDEO_ID}/reprocess`)
+        .send({ artifacts: ["hls", "animated_thumbnail"], ladder: "480p" });
+      expect(res.status).toBe(200);
+      expect(res.body.ladder.map((p: any) => p.height)).toEqual([480]);
+    });
+
+    it("rejects unknown or empty artifacts", async () => {
+      const unknown = await request(app).post(`/videos/${VIDEO_ID}/reprocess`).send({ artifacts: ["hls", "poster"] });
+      expect(unknown.status).toBe(400);
+      expect(invalidFields(unknown)).toEqual(["artifacts"]);
+
+      const empty = await request(app).post(`/videos/${VIDEO_ID}/reprocess`).send({ artifacts: [] });
+      expect(empty.status).toBe(400);
+    });
+  });
+
+  describe("animatedPreviewValidator", () => {
+    it("accepts start times and a format", async () => {
+      const res = await request(app).patch(`/videos/thumb/animated/${VIDEO_ID}`).send({ starts: [0, 12.5], format: "mp4" });
+      expect(res.status).toBe(200);
+    });
+
+    it("rejects negative or non-numeric start times and unknown formats", async () => {
+      const res = await request(app).patch(`/videos/thumb/animated/${VIDEO_ID}`).send({ starts: [-1, "5"], format: "gif" });
+      expect(res.status).toBe(400);
+      expect(invalidFields(res)).toEqual(["starts", "format"]);
+    });
+  });
+
+  describe("listVideosValidator", () => {
+    it("sanitizes the query", async () => {
+      const res = await request(app).get("/videos").query({ tags: "a,b", limit: "5", minDuration: "1.5", watched: "false" });
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ tags: ["a", "b"], limit: 5, minDuration: 1.5, watched: false });
+    });
+
+    it("rejects unknown sort fields and out-of-range limits", async () => {
+      const res = await request(app).get("/videos").query({ sort: "views", limit: "1000" });
+      expect(res.status).toBe(400);
+      expect(invalidFields(res)).toEqual(["sort", "limit"]);
+    });
+  });
+
+  describe("bulkVideosValidator", () => {
+    it("sanitizes the filter like the listing", async () => {
+      const res = await request(app)
+        .post("/videos/bulk")
+        .send({ action: "addTags", tags: ["done"], filter: { tags: "a,b", maxDuration: "60", watched: "true" } });
+      expect(res.status).toBe(200);
+      expect(res.body.filter).toEqual({ tags: ["a", "b"], maxDuration: 60, watched: true });
+    });
+
+    it("requires either ids or a filter", async () => {
+      const none = await request(app).post("/videos/bulk").send({ action: "delete" });
+      expect(none.status).toBe(400);
+      expect(invalidFields(none)).toEqual([""]);
+
+      const both = await request(app).post("/videos/bulk").send({ action: "delete", ids: [VIDEO_ID], filter: {} });
+      expect(both.status).toBe(400);
+      expect(invalidFields(both)).toEqual([""]);
+    });
+
+    it("requires the parameters of the action", async () => {
+      const res = await request(app).post("/videos/bulk").send({ action: "setCategory", ids: [VIDEO_ID, "123"] });
+      expect(res.status).toBe(400);
+      expect(invalidFields(res)).toEqual(["ids[1]", "category"]);
+
+      const tags = await request(app).post("/videos/bulk").send({ action: "removeTags", ids: [VIDEO_ID], tags: [] });
+      expect(invalidFields(tags)).toEqual(["tags"]);
+
+      const action = await request(app).post("/videos/bulk").send({ action: "archive", ids: [VIDEO_ID] });
+      expect(invalidFields(action)).toEqual(["action"]);
+    });
+  });
+
+  describe("heartbeatValidator", () => {
+    it("parses the position and the played seconds", async () => {
+      const res = await request(app)
+        .post(`/videos/${VIDEO_ID}/analytics/heartbeat`)
+        .send({ sessionId: "abc", position: "12.5", playedSeconds: 10 });
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({ sessionId: "abc", position: 12.5, playedSeconds: 10 });
+    });
+
+    it("requires a session id and a positive position", async () => {
+      const res = await request(app).post(`/videos/${VIDEO_ID}/analytics/heartbeat`).send({ position: -1 });
+      expect(res.status).toBe(400);
+      expect(invalidFields(res)).toEqual(["sessionId", "position"]);
+    });
+  });
+
+  describe("userAnalyticsValidator", () => {
+    it("rejects dates that are not ISO 8601", async () => {
+      const res = await request(app).get("/me/analytics").query({ from: "2024-05-01", to: "yesterday" });
+      expect(res.status).toBe(400);
+      expect(invalidFields(res)).toEqual(["to"]);
+    });
+  });
+
+  describe("playlist validators", () => {
+    it("requires a title and video ids", async () => {
+      const res = await request(app).post("/playlists").send({ title: "  ", videos: [VIDEO_ID, "123"] });
+      expect(res.status).toBe(400);
+      expect(invalidFields(res)).toEqual(["title", "videos"]);
+    });
+
+    it("requires the list of videos to reorder", async () => {
+      const res = await request(app).put(`/playlists/${VIDEO_ID}/order`).send({});
+      expect(res.status).toBe(400);
+      expect(invalidFields(res)).toEqual(["videos"]);
+    });
+  });
+
+  describe("uploadSubtitleValidator", () => {
+    it.each(["en", "pt-BR", "zh-Hant"])("accepts the language %s", async (lang) => {
+      const res = await request(app).put(`/videos/${VIDEO_ID}/subtitles/${lang}`).send({ isDefault: "true" });
+      expect(res.status).toBe(200);
+      expect(res.body.isDefault).toBe(true);
+    });
+
+    it.each(["english", "EN", "e"])("rejects the language %s", async (lang) => {
+      const res = await request(app).put(`/videos/${VIDEO_ID}/subtitles/${lang}`);
+      expect(res.status).toBe(400);
+    });
+  });
+});
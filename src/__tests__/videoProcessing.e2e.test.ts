@@ -0,0 +1,120 @@
+import request from "supertest";
+import { getStorage, videoKey } from "../storage";
+import { createTestApp } from "./helpers/app";
+import { createTestUser } from "./helpers/auth";
+import { startTestDatabase, stopTestDatabase } from "./helpers/db";
+import { createTestClip, hasFfmpeg } from "./helpers/fixtures";
+
+const app = createTestApp();
+const user = createTestUser();
+
+// Processing needs the ffmpeg binaries: skip instead of failing on machines without them
+const describeWithFfmpeg = hasFfmpeg() ? describe : describe.skip;
+
+/**
+ * Polls the status of a video until processing ends.
+ * @returns {Promise<string>} The final status ("uploaded" or "error").
+ */
+const waitForProcessing = async (videoId: string, timeoutMs = 90000): Promise<string> => {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const res = await request(app).get(`/videos/status/${videoId}`).set("Authorization", user.auth);
+    if (res.body.videoStatus !== "inProgress") return res.body.videoStatus;
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+
+  throw new Error(`Video ${videoId} still processing after ${timeoutMs}ms`);
+};
+
+// Signed URLs are absolute: keep path and query for supertest
+const toPath = (url: string) => {
+  const parsed = new URL(url);
+  return parsed.pathname + parsed.search;
+};
+
+// Playlists reference other files by relative URI, signed by the server with the parameters of the request
+const firstMediaLine = (playlist: string) => playlist.split("\n").find((line) => line && !line.startsWith("#"))!;
+
+describeWithFfmpeg("upload → processing → signed stream → delete", () => {
+  beforeAll(startTestDatabase);
+  afterAll(stopTestDatabase);
+
+  it.each([
+    ["with audio", true],
+    ["without audio", false],
+  ])("processes a clip %s", async (_label, audio) => {
+    const clip = await createTestClip({ audio });
+
+    // === UPLOAD ===
+    const upload = await request(app)
+      .post("/videos")
+      .set("Authorization", user.auth)
+      .field("title", `Clip ${audio ? "with" : "without"} audio`)
+      .field("tags", "test,fixture")
+      .attach("videos", clip);
+
+    expect(upload.status).toBe(200);
+    const videoId: string = upload.body.op._id;
+
+    // === PROCESSING ===
+    expect(await waitForProcessing(videoId)).toBe("uploaded");
+
+    const details = await request(app).get(`/videos/${videoId}`).set("Authorization", user.auth);
+    expect(details.body.duration).toBeCloseTo(2, 0);
+    expect(details.body.renditions).toEqual([expect.objectContaining({ width: 320, height: 240 })]);
+    expect(details.body.storageBytes).toBeGreaterThan(0);
+
+    // === SIGNED STREAM ===
+    const signed = await request(app).post(`/videos/${videoId}/signed-url`).set("Authorization", user.auth);
+    expect(signed.status).toBe(200);
+    const query = new URL(signed.body.streamUrl).search;
+
+    const master = await request(app).get(toPath(signed.body.streamUrl));
+    expect(master.status).toBe(200);
+    expect(master.text).toContain("#EXT-X-STREAM-INF");
+
+    expect(firstMediaLine(master.text).endsWith(`.m3u8${query}`)).toBe(true);
+    const variant = await request(app).get(`/videos/stream/${videoId}/${firstMediaLine(master.text)}`);
+    expect(variant.status).toBe(200);
+    expect(variant.text).toContain("#EXTINF");
+
+    const segment = await request(app)
+      .get(`/videos/stream/${videoId}/${firstMediaLine(variant.text)}`)
+      .buffer(true)
+      .parse((res, done) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk) => chunks.push(chunk));
+        res.on("end", () => done(null, Buffer.concat(chunks)));
+      });
+    expect(segment.status).toBe(200);
+    expect(segment.headers["content-type"]).toBe("video/MP2T");
+    expect((segment.body as Buffer).length).toBeGreaterThan(0);
+
+    const thumbnail = await request(app).get(toPath(signed.body.thumbnailUrl));
+    expect(thumbnail.status).toBe(200);
+    expect(thumbnail.headers["content-type"]).toBe("image/webp");
+
+    // A 2s clip fits in a single tile of the scrubbing previews
+    const thumbnails = await request(app).get(toPath(signed.body.thumbnailsVttUrl));
+    expect(thumbnails.status).toBe(200);
+    expect(thumbnails.text).toContain(`${videoId}_sprite_0.jpg${query}#xywh=0,0,`);
+
+    // Without the signature the stream is refused
+    const unsigned = await request(app).get(`/videos/stream/${videoId}`);
+    expect(unsigned.status).toBe(401);
+
+    // === DELETE ===
+    const deleted = await request(app).delete(`/videos/${videoId}`).set("Authorization", user.auth);
+    expect(deleted.status).toBe(200);
+
+    const gone = await request(app).get(`/videos/${videoId}`).set("Authorization", user.auth);
+    expect(gone.status).toBe(404);
+
+    // Files are removed in the background
+    for (let i = 0; i < 20 && (await getStorage().exists(videoKey(videoId, `${videoId}_master.m3u8`))); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 250));
+    }
+    expect(await getStorage().exists(videoKey(videoId, `${videoId}_master.m3u8`))).toBe(false);
+  });
+});
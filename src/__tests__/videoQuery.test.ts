@@ -0,0 +1,46 @@
+import mongoose from "mongoose";
+import { buildVideoListPipeline, decodeCursor, encodeCursor } from "../utils/videoQuery";
+
+describe("videoQuery", () => {
+  const userId = new mongoose.Types.ObjectId().toString();
+  const id = new mongoose.Types.ObjectId();
+
+  it("round-trips cursors", () => {
+    const date = new Date("2025-01-01T00:00:00Z");
+    expect(decodeCursor(encodeCursor({ _id: id, _sortValue: date }), "createdAt")).toEqual({ value: date, id });
+    expect(decodeCursor(encodeCursor({ _id: id, _sortValue: "abc" }), "title")).toEqual({ value: "abc", id });
+  });
+
+  it("rejects malformed cursors and cursors of another sort", () => {
+    expect(() => decodeCursor("not-a-cursor", "createdAt")).toThrow("Invalid cursor");
+    expect(() => decodeCursor(encodeCursor({ _id: id, _sortValue: "abc" }), "size")).toThrow("Invalid cursor");
+  });
+
+  it("puts the text search in the first stage", () => {
+    const [first] = buildVideoListPipeline({ userId, q: "angular" });
+    expect(first.$match.$text).toEqual({ $search: "angular" });
+  });
+
+  it("fetches one item more than the page size", () => {
+    const pipeline = buildVideoListPipeline({ userId, limit: 10 });
+    expect(pipeline[pipeline.length - 1]).toEqual({ $limit: 11 });
+  });
+
+  it("continues after the cursor in the sort direction", () => {
+    const cursor = encodeCursor({ _id: id, _sortValue: 42 });
+    const pipeline = buildVideoListPipeline({ userId, sort: "duration", order: "asc", cursor });
+    expect(pipeline[2].$match.$or).toEqual([
+      { _sortValue: { $gt: 42 } },
+      { _sortValue: 42, _id: { $gt: id } },
+    ]);
+    expect(pipeline[3]).toEqual({ $sort: { _sortValue: 1, _id: 1 } });
+  });
+
+  it("filters on the watch progress of the viewer only when asked", () => {
+    expect(buildVideoListPipeline({ userId, viewerId: userId })).toHaveLength(4);
+
+    const pipeline = buildVideoListPipeline({ userId, viewerId: userId, watched: true, finished: false });
+    expect(pipeline[1].$lookup.as).toBe("_progress");
+    expect(pipeline[2]).toEqual({ $match: { "_progress.0": { $exists: true }, "_progress.finished": { $ne: true } } });
+  });
+});
@@ -0,0 +1,95 @@
+import express from "express";
+import request from "supertest";
+import { getServerSettings } from "../server.settings";
+import { File } from "../models/data.model";
+import { Job } from "../models/job.model";
+import { UploadSession } from "../models/upload.model";
+import { WebhookDelivery } from "../models/webhook.model";
+import { createTestServer } from "./helpers/app";
+
+describe("createVideoServer", () => {
+  it("requires the public key and the stream secret", () => {
+    expect(() => createTestServer({ publicKey: "" })).toThrow("publicKey is required");
+    expect(() => createTestServer({ streamSecret: "" })).toThrow("streamSecret or streamKeys is required");
+  });
+
+  it("signs with the first stream key and keeps the stream secret as the default key", () => {
+    createTestServer({ streamKeys: [{ kid: "2024-06", secret: "new-secret" }] });
+    expect(getServerSettings().streamKeys.map((key) => key.kid)).toEqual(["2024-06", "default"]);
+
+    expect(() => createTestServer({ streamKeys: [{ kid: "default", secret: "other" }] })).toThrow("stream key ids must be unique");
+    expect(() => createTestServer({ streamSecret: "", streamKeys: [{ kid: "", secret: "x" }] })).toThrow("needs a kid and a secret");
+  });
+
+  it("merges the given limits and job queue settings with the defaults", () => {
+    createTestServer({ storagePath: "media/videos", limits: { maxVideoSize: 1024 }, jobQueue: { concurrency: 4 } });
+
+    const settings = getServerSettings();
+    expect(settings.videoPath).toBe("media/videos");
+    expect(settings.limits.maxVideoSize).toBe(1024);
+    expect(settings.limits.maxThumbnailSize).toBe(5 * 1024 * 1024);
+    expect(settings.jobQueue.concurrency).toBe(4);
+    expect(settings.jobQueue.maxAttempts).toBe(1);
+  });
+
+  it("serves its routes under the path where the host application mounts it", async () => {
+    const host = express();
+    host.use("/media", createTestServer().app);
+
+    const health = await request(host).get("/media/health");
+    expect(health.status).toBe(200);
+    expect(health.body.status).toBe("Video Server is running");
+
+    const videos = await request(host).get("/media/videos");
+    expect(videos.status).toBe(401);
+  });
+
+  it("starts and stops without owning a MongoDB connection", async () => {
+    // Without mongoUri the queries wait for a connection of the host application: answer them directly
+    jest.spyOn(Job, "updateMany").mockResolvedValue({ modifiedCount: 0 } as any);
+    jest.spyOn(Job, "distinct").mockResolvedValue([] as any);
+    jest.spyOn(File, "find").mockResolvedValue([]);
+    const claim = jest.spyOn(Job, "findOneAndUpdate").mockResolvedValue(null);
+    jest.spyOn(UploadSession, "find").mockResolvedValue([]);
+    jest.spyOn(WebhookDelivery, "updateMany").mockResolvedValue({ modifiedCount: 0 } as any);
+    jest.spyOn(WebhookDelivery, "findOneAndUpdate").mockResolvedValue(null);
+
+    const server = createTestServer();
+    await server.start();
+    expect(claim).toHaveBeenCalled();
+
+    await server.stop();
+    jest.restoreAllMocks();
+  });
+
+  describe("stop()", () => {
+    it("refuses writes but serves reads while draining", async () => {
+      const server = createTestServer({ shutdownTimeoutMs: 1000 });
+      await server.stop();
+
+      const upload = await request(server.app).post("/videos");
+      expect(upload.status).toBe(503);
+      expect(upload.headers["retry-after"]).toBe("30");
+
+      const health = await request(server.app).get("/health");
+      expect(health.status).toBe(200);
+      expect(health.headers["connection"]).toBe("close");
+    });
+
+    it("waits for the requests in flight", async () => {
+      const server = createTestServer({ shutdownTimeoutMs: 5000 });
+      server.app.get("/slow", (req, res) => {
+        setTimeout(() => res.json({ ok: true }), 300);
+      });
+
+      const slow = request(server.app).get("/slow").then((res) => res.status);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const startedAt = Date.now();
+      await server.stop();
+
+      expect(await slow).toBe(200);
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(200);
+    });
+  });
+});
@@ -0,0 +1,848 @@
+import request from "supertest";
+import { File } from "../models/data.model";
+import { Job } from "../models/job.model";
+import { PlaybackSession } from "../models/analytics.model";
+import { WatchProgress } from "../models/watchProgress.model";
+import { Playlist } from "../models/playlist.model";
+import { getStorage, videoKey } from "../storage";
+import * as videoUtils from "../utils/videoUtils";
+import { startJobQueue, stopJobQueue } from "../utils/jobQueue";
+import { recordSegmentFetch } from "../utils/analytics";
+import { createTestApp } from "./helpers/app";
+import { createTestUser } from "./helpers/auth";
+import { clearTestDatabase, startTestDatabase, stopTestDatabase } from "./helpers/db";
+
+const app = createTestApp();
+
+/**
+ * Inserts a video document as if it had been uploaded (and optionally processed).
+ */
+const seedVideo = (userId: string, fields: Record<string, any> = {}) =>
+  File.create({
+    originalname: "clip.mp4",
+    filename: "clip.mp4",
+    mimetype: "video/mp4",
+    size: "1000",
+    userId,
+    videoStatus: "uploaded",
+    duration: 10,
+    ...fields,
+  });
+
+/**
+ * Stores a master playlist for a seeded video, so that the streaming routes have something to serve.
+ */
+const seedPlaylist = async (videoId: string) => {
+  await getStorage().writeFile(videoKey(videoId, `${videoId}_master.m3u8`), "#EXTM3U\n");
+  await File.findByIdAndUpdate(videoId, { hls: `${videoId}_master.m3u8` });
+};
+
+describe("video routes", () => {
+  beforeAll(startTestDatabase);
+  afterEach(clearTestDatabase);
+  afterAll(stopTestDatabase);
+
+  const alice = createTestUser();
+  const bob = createTestUser();
+
+  describe("GET /videos", () => {
+    it("requires a token", async () => {
+      const res = await request(app).get("/videos");
+      expect(res.status).toBe(401);
+    });
+
+    it("lists only the videos of the user", async () => {
+      await seedVideo(alice.userId, { title: "Mine" });
+      await seedVideo(bob.userId, { title: "Not mine" });
+
+      const res = await request(app).get("/videos").set("Authorization", alice.auth);
+
+      expect(res.status).toBe(200);
+      expect(res.body.videos.map((v: any) => v.title)).toEqual(["Mine"]);
+      expect(res.body).toMatchObject({ hasMore: false, nextCursor: null });
+    });
+
+    it("paginates with a cursor without skipping or repeating videos", async () => {
+      for (let i = 0; i < 5; i++) {
+        await seedVideo(alice.userId, { title: `Video ${i}`, duration: i % 2 });
+      }
+
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const res = await request(app)
+          .get("/videos")
+          .query({ sort: "duration", limit: 2, ...(cursor ? { cursor } : {}) })
+          .set("Authorization", alice.auth);
+        expect(res.status).toBe(200);
+        seen.push(...res.body.videos.map((v: any) => v.title));
+        cursor = res.body.nextCursor || undefined;
+      } while (cursor);
+
+      expect(seen).toHaveLength(5);
+      expect(new Set(seen).size).toBe(5);
+    });
+
+    it("filters by tags and searches text", async () => {
+      await seedVideo(alice.userId, { title: "Angular tutorial", tags: ["angular", "web"] });
+      await seedVideo(alice.userId, { title: "Cooking pasta", tags: ["food"] });
+
+      const byTag = await request(app).get("/videos").query({ tags: "web" }).set("Authorization", alice.auth);
+      expect(byTag.body.videos.map((v: any) => v.title)).toEqual(["Angular tutorial"]);
+
+      const byText = await request(app).get("/videos").query({ q: "pasta" }).set("Authorization", alice.auth);
+      expect(byText.body.videos.map((v: any) => v.title)).toEqual(["Cooking pasta"]);
+    });
+
+    it("rejects a malformed cursor", async () => {
+      const res = await request(app).get("/videos").query({ cursor: "garbage" }).set("Authorization", alice.auth);
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("ownership", () => {
+    it("returns 404 for unknown videos and 403 for videos of other users", async () => {
+      const video = await seedVideo(bob.userId);
+
+      const missing = await request(app).get("/videos/507f1f77bcf86cd799439011").set("Authorization", alice.auth);
+      expect(missing.status).toBe(404);
+
+      const forbidden = await request(app).get(`/videos/${video._id}`).set("Authorization", alice.auth);
+      expect(forbidden.status).toBe(403);
+
+      const update = await request(app).patch(`/videos/${video._id}`).send({ title: "Hacked" }).set("Authorization", alice.auth);
+      expect(update.status).toBe(403);
+    });
+
+    it("lets the owner update the metadata", async () => {
+      const video = await seedVideo(alice.userId);
+
+      const res = await request(app)
+        .patch(`/videos/${video._id}`)
+        .send({ title: "New title", tags: ["a"] })
+        .set("Authorization", alice.auth);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ title: "New title", tags: ["a"] });
+    });
+  });
+
+  describe("signed URLs", () => {
+    it("refuses to sign videos still being processed", async () => {
+      const video = await seedVideo(alice.userId, { videoStatus: "inProgress" });
+      const res = await request(app).post(`/videos/${video._id}/signed-url`).set("Authorization", alice.auth);
+      expect(res.status).toBe(423);
+    });
+
+    it("serves the master playlist through the signed URL", async () => {
+      const video = await seedVideo(alice.userId);
+      await seedPlaylist(video._id.toString());
+
+      const signed = await request(app).post(`/videos/${video._id}/signed-url`).set("Authorization", alice.auth);
+      expect(signed.status).toBe(200);
+
+      const stream = await request(app).get(new URL(signed.body.streamUrl).pathname + new URL(signed.body.streamUrl).search);
+      expect(stream.status).toBe(200);
+      expect(stream.headers["content-type"]).toContain("application/vnd.apple.mpegurl");
+      expect(stream.text).toBe("#EXTM3U\n");
+    });
+
+    it("refuses file names leaving the folder of the signed video", async () => {
+      const mine = (await seedVideo(alice.userId)).id;
+      await seedPlaylist(mine);
+      const theirs = (await seedVideo(bob.userId)).id;
+      await getStorage().writeFile(videoKey(theirs, `${theirs}.mp4`), "original");
+
+      const signed = await request(app).post(`/videos/${mine}/signed-url`).set("Authorization", alice.auth);
+      const query = new URL(signed.body.streamUrl).search;
+
+      const res = await request(app).get(`/videos/stream/${mine}/..%2F${theirs}%2F${theirs}.mp4${query}`);
+      expect(res.status).toBe(400);
+      expect(res.text).not.toContain("original");
+
+      await expect(getStorage().readFile(`${mine}/../${theirs}/${theirs}.mp4`)).rejects.toThrow("Invalid storage key");
+    });
+
+    it("signs the URIs of the playlists so players only need the master URL", async () => {
+      const id = (await seedVideo(alice.userId)).id;
+      await seedPlaylist(id);
+      await getStorage().writeFile(videoKey(id, `${id}_master.m3u8`), `#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=800000\n${id}_stream_0.m3u8\n`);
+      await getStorage().writeFile(videoKey(id, `${id}_stream_0.m3u8`), `#EXTM3U\n#EXTINF:4.0,\n${id}_v0_000.ts\n#EXT-X-ENDLIST\n`);
+      await getStorage().writeFile(videoKey(id, `${id}_v0_000.ts`), "segment");
+
+      const signed = await request(app).post(`/videos/${id}/signed-url`).set("Authorization", alice.auth);
+      const streamUrl = new URL(signed.body.streamUrl);
+
+      const master = await request(app).get(streamUrl.pathname + streamUrl.search);
+      expect(master.headers["cache-control"]).toBe("private, no-store");
+      const variantUri = master.text.split("\n")[2];
+      expect(variantUri).toBe(`${id}_stream_0.m3u8${streamUrl.search}`);
+
+      const variant = await request(app).get(`/videos/stream/${id}/${variantUri}`);
+      expect(variant.status).toBe(200);
+
+      const segment = await request(app).get(`/videos/stream/${id}/${variant.text.split("\n")[2]}`);
+      expect(segment.status).toBe(200);
+    });
+
+    it("redirects the stream without file name to the master playlist", async () => {
+      const id = (await seedVideo(alice.userId)).id;
+      await seedPlaylist(id);
+
+      const signed = await request(app).post(`/videos/${id}/signed-url`).set("Authorization", alice.auth);
+      const { search } = new URL(signed.body.streamUrl);
+
+      const res = await request(app).get(`/videos/stream/${id}${search}`);
+      expect(res.status).toBe(302);
+      expect(res.headers.location).toBe(`/videos/stream/${id}/${id}_master.m3u8${search}`);
+
+      const master = await request(app).get(res.headers.location);
+      expect(master.status).toBe(200);
+    });
+
+    it("signs the sprite sheets referenced by the thumbnails track", async () => {
+      const id = (await seedVideo(alice.userId)).id;
+      await seedPlaylist(id);
+      await getStorage().writeFile(videoKey(id, `${id}_thumbnails.vtt`), `WEBVTT\n\n00:00:00.000 --> 00:00:05.000\n${id}_sprite_0.jpg#xywh=0,0,160,90\n`);
+      await getStorage().writeFile(videoKey(id, `${id}_sprite_0.jpg`), "jpeg");
+      await File.findByIdAndUpdate(id, { sprite_thumbnails: `${id}_thumbnails.vtt` });
+
+      const signed = await request(app).post(`/videos/${id}/signed-url`).set("Authorization", alice.auth);
+      const vttUrl = new URL(signed.body.thumbnailsVttUrl);
+
+      const vtt = await request(app).get(vttUrl.pathname + vttUrl.search);
+      expect(vtt.status).toBe(200);
+      expect(vtt.headers["content-type"]).toContain("text/vtt");
+      expect(vtt.text).toContain(`${id}_sprite_0.jpg${vttUrl.search}#xywh=0,0,160,90`);
+
+      // Resolve the sheet like a player would, relative to the track
+      const cueUri = vtt.text.split("\n")[3].split("#")[0];
+      const sheetUrl = new URL(cueUri, vttUrl);
+      const sheet = await request(app).get(sheetUrl.pathname + sheetUrl.search);
+      expect(sheet.status).toBe(200);
+
+      // The legacy track URL without file name references the sheets through the video folder
+      const folderUrl = new URL(`/videos/thumb/sprite/${id}${vttUrl.search}`, vttUrl);
+      const legacy = await request(app).get(folderUrl.pathname + folderUrl.search);
+      expect(legacy.status).toBe(200);
+      const legacySheetUrl = new URL(legacy.text.split("\n")[3].split("#")[0], folderUrl);
+      expect(legacySheetUrl.pathname).toBe(sheetUrl.pathname);
+
+      const other = await request(app).get(`/videos/thumb/sprite/${id}/${id}_original.mp4${vttUrl.search}`);
+      expect(other.status).toBe(404);
+    });
+
+    it("limits the stream to a rendition", async () => {
+      const id = (await seedVideo(alice.userId, { renditions: [{ name: "720p" }, { name: "480p" }] })).id;
+      await seedPlaylist(id);
+      await getStorage().writeFile(videoKey(id, `${id}_stream_1.m3u8`), "#EXTM3U\n");
+
+      const unknown = await request(app).post(`/videos/${id}/signed-url`).send({ rendition: "1080p" }).set("Authorization", alice.auth);
+      expect(unknown.status).toBe(400);
+
+      const signed = await request(app).post(`/videos/${id}/signed-url`).send({ rendition: "480p" }).set("Authorization", alice.auth);
+      const streamUrl = new URL(signed.body.streamUrl);
+      expect(streamUrl.pathname).toBe(`/videos/stream/${id}/${id}_stream_1.m3u8`);
+
+      const variant = await request(app).get(streamUrl.pathname + streamUrl.search);
+      expect(variant.status).toBe(200);
+
+      const other = await request(app).get(`/videos/stream/${id}/${id}_stream_0.m3u8${streamUrl.search}`);
+      expect(other.status).toBe(401);
+
+      // The master playlist only lists the rendition
+      await getStorage().writeFile(
+        videoKey(id, `${id}_master.m3u8`),
+        `#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=2800000\n${id}_stream_0.m3u8\n#EXT-X-STREAM-INF:BANDWIDTH=1400000\n${id}_stream_1.m3u8\n`
+      );
+      const master = await request(app).get(`/videos/stream/${id}/${id}_master.m3u8${streamUrl.search}`);
+      expect(master.status).toBe(200);
+      expect(master.text).not.toContain(`${id}_stream_0.m3u8`);
+      expect(master.text).toContain(`${id}_stream_1.m3u8${streamUrl.search}`);
+    });
+
+    it("keeps the scope of a refreshed URL", async () => {
+      const id = (await seedVideo(alice.userId, { renditions: [{ name: "720p" }, { name: "480p" }] })).id;
+      await seedPlaylist(id);
+      await getStorage().writeFile(videoKey(id, `${id}_stream_1.m3u8`), "#EXTM3U\n");
+
+      const signed = await request(app).post(`/videos/${id}/signed-url`).send({ rendition: "480p", bindIp: true }).set("Authorization", alice.auth);
+      const scope = new URL(signed.body.streamUrl).searchParams;
+
+      const refreshed = await request(app)
+        .post(`/videos/${id}/refresh-token`)
+        .send({ rendition: scope.get("rendition"), ip: scope.get("ip") })
+        .set("Authorization", alice.auth);
+      expect(refreshed.status).toBe(200);
+      expect(refreshed.body).toMatchObject({ rendition: "1", ip: scope.get("ip") });
+
+      const query = `?${new URLSearchParams({
+        expires: refreshed.body.expires,
+        signature: refreshed.body.signature,
+        uid: refreshed.body.uid,
+        kid: refreshed.body.kid,
+        rendition: refreshed.body.rendition,
+        ip: refreshed.body.ip,
+      })}`;
+      expect((await request(app).get(`/videos/stream/${id}/${id}_stream_1.m3u8${query}`)).status).toBe(200);
+      expect((await request(app).get(`/videos/stream/${id}/${id}_stream_0.m3u8${query}`)).status).toBe(401);
+
+      const invalid = await request(app).post(`/videos/${id}/refresh-token`).send({ rendition: "all" }).set("Authorization", alice.auth);
+      expect(invalid.status).toBe(400);
+    });
+
+    it("limits a CMAF stream to a rendition and the shared audio", async () => {
+      const id = (await seedVideo(alice.userId, { packaging: "cmaf", renditions: [{ name: "720p" }, { name: "480p" }] })).id;
+      await seedPlaylist(id);
+      await getStorage().writeFile(videoKey(id, `${id}_master.m3u8`), [
+        "#EXTM3U",
+        '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="group_A1",NAME="audio_0",DEFAULT=YES,URI="media_2.m3u8"',
+        '#EXT-X-STREAM-INF:BANDWIDTH=2800000,AUDIO="group_A1"',
+        "media_0.m3u8",
+        '#EXT-X-STREAM-INF:BANDWIDTH=1400000,AUDIO="group_A1"',
+        "media_1.m3u8",
+        "",
+      ].join("\n"));
+      for (const representation of [0, 1, 2]) {
+        await getStorage().writeFile(
+          videoKey(id, `media_${representation}.m3u8`),
+          `#EXTM3U\n#EXT-X-MAP:URI="${id}_init_${representation}.m4s"\n#EXTINF:4.0,\n${id}_chunk_${representation}_00001.m4s\n#EXT-X-ENDLIST\n`
+        );
+        await getStorage().writeFile(videoKey(id, `${id}_init_${representation}.m4s`), "init");
+        await getStorage().writeFile(videoKey(id, `${id}_chunk_${representation}_00001.m4s`), "chunk");
+      }
+
+      const signed = await request(app).post(`/videos/${id}/signed-url`).send({ rendition: "480p" }).set("Authorization", alice.auth);
+      const streamUrl = new URL(signed.body.streamUrl);
+      expect(streamUrl.pathname).toBe(`/videos/stream/${id}/${id}_master.m3u8`);
+
+      // Fetch every URI of the playlists like a player would
+      const fetched: string[] = [];
+      const fetchAll = async (url: URL) => {
+        const res = await request(app).get(url.pathname + url.search);
+        expect(res.status).toBe(200);
+        fetched.push(url.pathname.split("/").pop()!);
+        if (!url.pathname.endsWith(".m3u8")) return;
+
+        const uris = res.text.split("\n").flatMap((line) =>
+          line.startsWith("#") ? [...line.matchAll(/URI="([^"]*)"/g)].map((match) => match[1]) : line.trim() ? [line.trim()] : []
+        );
+        for (const uri of uris) await fetchAll(new URL(uri, url));
+      };
+      await fetchAll(streamUrl);
+
+      expect(fetched.sort()).toEqual([
+        `${id}_chunk_1_00001.m4s`, `${id}_chunk_2_00001.m4s`, `${id}_init_1.m4s`, `${id}_init_2.m4s`,
+        `${id}_master.m3u8`, "media_1.m3u8", "media_2.m3u8",
+      ].sort());
+
+      const other = await request(app).get(`/videos/stream/${id}/media_0.m3u8${streamUrl.search}`);
+      expect(other.status).toBe(401);
+    });
+  });
+
+  describe("share links", () => {
+    it("lets anonymous viewers stream until the views run out or the link is revoked", async () => {
+      const video = await seedVideo(alice.userId, { title: "Shared" });
+      await seedPlaylist(video._id.toString());
+
+      const created = await request(app)
+        .post(`/videos/${video._id}/shares`)
+        .send({ password: "secret", maxViews: 1 })
+        .set("Authorization", alice.auth);
+      expect(created.status).toBe(201);
+      const { token, _id: shareId } = created.body;
+
+      const info = await request(app).get(`/share/${token}`);
+      expect(info.body).toMatchObject({ title: "Shared", requiresPassword: true });
+
+      const wrong = await request(app).post(`/share/${token}/access`).send({ password: "nope" });
+      expect(wrong.status).toBe(401);
+
+      const access = await request(app).post(`/share/${token}/access`).send({ password: "secret" });
+      expect(access.status).toBe(200);
+
+      const streamUrl = new URL(access.body.streamUrl);
+      const stream = await request(app).get(streamUrl.pathname + streamUrl.search);
+      expect(stream.status).toBe(200);
+
+      const exhausted = await request(app).post(`/share/${token}/access`).send({ password: "secret" });
+      expect(exhausted.status).toBe(410);
+
+      const revoked = await request(app).delete(`/videos/${video._id}/shares/${shareId}`).set("Authorization", alice.auth);
+      expect(revoked.body.status).toBe("revoked");
+
+      const afterRevoke = await request(app).get(streamUrl.pathname + streamUrl.search);
+      expect(afterRevoke.status).toBe(403);
+    });
+  });
+
+  describe("GET /me/usage", () => {
+    it("sums the stored bytes of the videos of the user", async () => {
+      await seedVideo(alice.userId, { size: "1000" });
+      await seedVideo(alice.userId, { size: "1000", storageBytes: 4000 });
+      await seedVideo(bob.userId, { size: "99999" });
+
+      const res = await request(app).get("/me/usage").set("Authorization", alice.auth);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ usedBytes: 5000, reservedBytes: 0, videoCount: 2 });
+      expect(res.body.remainingBytes).toBe(res.body.quotaBytes - 5000);
+    });
+  });
+
+  describe("thumbnail frames", () => {
+    it("waits for the video to be processed", async () => {
+      const video = await seedVideo(alice.userId, { videoStatus: "inProgress" });
+
+      const res = await request(app).patch(`/videos/thumb/frame/${video._id}`).send({ time: 1 }).set("Authorization", alice.auth);
+      expect(res.status).toBe(409);
+    });
+
+    it("rejects a timestamp beyond the end of the video", async () => {
+      const video = await seedVideo(alice.userId, { duration: 10 });
+
+      const res = await request(app).patch(`/videos/thumb/frame/${video._id}`).send({ time: 12 }).set("Authorization", alice.auth);
+      expect(res.status).toBe(400);
+    });
+
+    it("answers an error when the storage fails", async () => {
+      const video = await seedVideo(alice.userId, { static_thumbnail: "thumb.webp", animated_thumbnail: "animated.webp" });
+      const exists = jest.spyOn(getStorage(), "exists").mockRejectedValue(new Error("storage unavailable"));
+
+      try {
+        for (const kind of ["static", "animated"]) {
+          const res = await request(app).get(`/videos/thumb/${kind}/${video._id}`).set("Authorization", alice.auth);
+          expect(res.status).toBe(500);
+        }
+      } finally {
+        exists.mockRestore();
+      }
+    });
+
+    it("refuses animated preview starts after the end of the video", async () => {
+      const video = await seedVideo(alice.userId, { duration: 10 });
+
+      const res = await request(app)
+        .patch(`/videos/thumb/animated/${video._id}`)
+        .send({ starts: [2, 10] })
+        .set("Authorization", alice.auth);
+      expect(res.status).toBe(400);
+    });
+
+    it("validates the animated preview parameters before generating anything", async () => {
+      const video = await seedVideo(alice.userId, { duration: 10 });
+      const patch = (id: string, body: object) =>
+        request(app).patch(`/videos/thumb/animated/${id}`).send(body).set("Authorization", alice.auth);
+
+      const invalidId = await patch("not-an-id", { starts: [1] });
+      expect(invalidId.status).toBe(400);
+
+      const badStarts = await patch(video.id, { starts: [-1, "abc"] });
+      expect(badStarts.status).toBe(400);
+      expect(badStarts.body.details.map((d: any) => d.field)).toEqual(["starts"]);
+
+      const notArray = await patch(video.id, { starts: 5 });
+      expect(notArray.status).toBe(400);
+
+      const badFormat = await patch(video.id, { starts: [1], format: "gif; rm -rf /" });
+      expect(badFormat.status).toBe(400);
+      expect(badFormat.body.details.map((d: any) => d.field)).toEqual(["format"]);
+    });
+
+    it("only lets the owner list candidates", async () => {
+      const video = await seedVideo(bob.userId);
+
+      const res = await request(app).get(`/videos/thumb/candidates/${video._id}`).set("Authorization", alice.auth);
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe("POST /videos/:id/reprocess", () => {
+    it("only lets the owner reprocess a video", async () => {
+      const video = await seedVideo(bob.userId);
+
+      const res = await request(app).post(`/videos/${video._id}/reprocess`).set("Authorization", alice.auth);
+      expect(res.status).toBe(403);
+    });
+
+    it("refuses videos already being processed", async () => {
+      const video = await seedVideo(alice.userId);
+      await Job.create({ videoId: video._id, userId: alice.userId, status: "running" });
+
+      const res = await request(app).post(`/videos/${video._id}/reprocess`).set("Authorization", alice.auth);
+      expect(res.status).toBe(409);
+    });
+
+    it("rebuilds the renditions with a new packaging and keeps the thumbnails", async () => {
+      const video = await seedVideo(alice.userId, {
+        hls: "master.m3u8",
+        static_thumbnail: "thumb.webp",
+        animated_thumbnail: "animated.webp",
+        sprite_thumbnails: "thumbnails.vtt",
+      });
+
+      const res = await request(app)
+        .post(`/videos/${video._id}/reprocess`)
+        .send({ artifacts: ["static_thumbnail"], packaging: "cmaf" })
+        .set("Authorization", alice.auth);
+
+      expect(res.status).toBe(202);
+      expect(res.body.artifacts).toEqual(["hls", "static_thumbnail"]);
+
+      const job = await Job.findById(res.body.jobId).lean();
+      expect(job?.payload).toEqual({ artifacts: ["hls", "static_thumbnail"], packaging: "cmaf" });
+
+      // The current renditions are served until the new ones are published
+      const current = await File.findById(video._id).lean();
+      expect(current).toMatchObject({ hls: "master.m3u8", videoStatus: "uploaded", sprite_thumbnails: "thumbnails.vtt" });
+      expect(current?.packaging).toBeUndefined();
+    });
+
+    it("queues a single job when reprocessed concurrently", async () => {
+      const video = await seedVideo(alice.userId, { hls: "master.m3u8" });
+      // Keep the job running until the requests are answered
+      let finish!: () => void;
+      const processing = jest.spyOn(videoUtils, "createVideo").mockReturnValue(new Promise<void>((resolve) => { finish = resolve; }));
+
+      try {
+        const responses = await Promise.all([0, 1, 2].map(() =>
+          request(app).post(`/videos/${video._id}/reprocess`).set("Authorization", alice.auth)
+        ));
+
+        expect(responses.map((res) => res.status).sort()).toEqual([202, 409, 409]);
+        expect(await Job.countDocuments({ videoId: video._id })).toBe(1);
+      } finally {
+        finish();
+        processing.mockRestore();
+      }
+    });
+  });
+
+  describe("POST /videos/bulk", () => {
+    it("reports the videos that are missing or owned by other users", async () => {
+      const mine = await seedVideo(alice.userId, { tags: ["a"] });
+      const theirs = await seedVideo(bob.userId, { tags: ["a"] });
+      const missing = "507f1f77bcf86cd799439011";
+
+      const res = await request(app)
+        .post("/videos/bulk")
+        .send({ action: "addTags", tags: ["b"], ids: [mine.id, theirs.id, missing] })
+        .set("Authorization", alice.auth);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ matched: 3, succeeded: 1, failed: 2 });
+      expect(res.body.results.map((r: any) => r.status)).toEqual(["done", "forbidden", "not_found"]);
+      expect((await File.findById(mine.id))?.tags).toEqual(["a", "b"]);
+      expect((await File.findById(theirs.id))?.tags).toEqual(["a"]);
+    });
+
+    it("deletes the videos of the user matching a filter", async () => {
+      const draft = await seedVideo(alice.userId, { category: "drafts" });
+      const kept = await seedVideo(alice.userId, { category: "published" });
+      const theirs = await seedVideo(bob.userId, { category: "drafts" });
+
+      const res = await request(app)
+        .post("/videos/bulk")
+        .send({ action: "delete", filter: { category: "drafts" } })
+        .set("Authorization", alice.auth);
+
+      expect(res.status).toBe(200);
+      expect(res.body.results).toEqual([{ id: draft.id, status: "done" }]);
+      expect(await File.exists({ _id: draft.id })).toBeNull();
+      expect(await File.exists({ _id: kept.id })).not.toBeNull();
+      expect(await File.exists({ _id: theirs.id })).not.toBeNull();
+    });
+
+    it("reports the videos already being processed", async () => {
+      const idle = await seedVideo(alice.userId);
+      const busy = await seedVideo(alice.userId);
+      await Job.create({ videoId: busy._id, userId: alice.userId, status: "running" });
+
+      const res = await request(app)
+        .post("/videos/bulk")
+        .send({ action: "reprocess", ids: [idle.id, busy.id] })
+        .set("Authorization", alice.auth);
+
+      expect(res.body.results.map((r: any) => r.status)).toEqual(["queued", "conflict"]);
+      expect(res.body.results[0].jobId).toBeDefined();
+    });
+  });
+
+  describe("watch progress", () => {
+    it("saves the position and marks the video finished near the end", async () => {
+      const video = await seedVideo(alice.userId, { duration: 100 });
+
+      const initial = await request(app).get(`/videos/${video._id}/progress`).set("Authorization", alice.auth);
+      expect(initial.body).toMatchObject({ position: 0, finished: false, updatedAt: null });
+
+      const saved = await request(app)
+        .put(`/videos/${video._id}/progress`)
+        .send({ position: 96 })
+        .set("Authorization", alice.auth);
+      expect(saved.status).toBe(200);
+      expect(saved.body).toMatchObject({ position: 96, duration: 100, finished: true });
+
+      const rewound = await request(app)
+        .put(`/videos/${video._id}/progress`)
+        .send({ position: 30 })
+        .set("Authorization", alice.auth);
+      expect(rewound.body.finished).toBe(false);
+    });
+
+    it("lists the videos to resume and filters the listing", async () => {
+      const started = await seedVideo(alice.userId, { title: "Started", duration: 100 });
+      const finished = await seedVideo(alice.userId, { title: "Finished", duration: 100 });
+      await seedVideo(alice.userId, { title: "Never played" });
+      await WatchProgress.create([
+        { userId: alice.userId, videoId: started._id, position: 40, duration: 100 },
+        { userId: alice.userId, videoId: finished._id, position: 100, duration: 100, finished: true },
+      ]);
+
+      const resume = await request(app).get("/me/continue-watching").set("Authorization", alice.auth);
+      expect(resume.status).toBe(200);
+      expect(resume.body).toEqual([expect.objectContaining({ title: "Started", position: 40, percentWatched: 40 })]);
+
+      const titles = async (query: Record<string, string>) =>
+        (await request(app).get("/videos").query(query).set("Authorization", alice.auth)).body.videos.map((v: any) => v.title).sort();
+
+      expect(await titles({ watched: "false" })).toEqual(["Never played"]);
+      expect(await titles({ watched: "true", finished: "false" })).toEqual(["Started"]);
+      expect(await titles({ finished: "true" })).toEqual(["Finished"]);
+    });
+
+    it("only lets the owner save a position", async () => {
+      const video = await seedVideo(bob.userId);
+
+      const res = await request(app).put(`/videos/${video._id}/progress`).send({ position: 1 }).set("Authorization", alice.auth);
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe("playlists", () => {
+    const createPlaylist = (videos: string[]) =>
+      request(app).post("/playlists").send({ title: "Course", videos }).set("Authorization", alice.auth);
+
+    it("adds, reorders and removes videos", async () => {
+      const [a, b, c] = await Promise.all(["A", "B", "C"].map((title) => seedVideo(alice.userId, { title })));
+
+      const created = await createPlaylist([a.id, b.id]);
+      expect(created.status).toBe(201);
+      const playlistId = created.body._id;
+
+      const added = await request(app)
+        .post(`/playlists/${playlistId}/videos`)
+        .send({ videoId: c.id, position: 0 })
+        .set("Authorization", alice.auth);
+      expect(added.body.videos.map((v: any) => v.title)).toEqual(["C", "A", "B"]);
+
+      const duplicate = await request(app).post(`/playlists/${playlistId}/videos`).send({ videoId: c.id }).set("Authorization", alice.auth);
+      expect(duplicate.status).toBe(409);
+
+      const reordered = await request(app)
+        .put(`/playlists/${playlistId}/order`)
+        .send({ videos: [b.id, c.id, a.id] })
+        .set("Authorization", alice.auth);
+      expect(reordered.body.videos.map((v: any) => v.title)).toEqual(["B", "C", "A"]);
+
+      const incomplete = await request(app).put(`/playlists/${playlistId}/order`).send({ videos: [b.id] }).set("Authorization", alice.auth);
+      expect(incomplete.status).toBe(400);
+
+      const removed = await request(app).delete(`/playlists/${playlistId}/videos/${c.id}`).set("Authorization", alice.auth);
+      expect(removed.body.videos.map((v: any) => v.title)).toEqual(["B", "A"]);
+    });
+
+    it("adds a video once when added concurrently", async () => {
+      const [a, b] = await Promise.all(["A", "B"].map((title) => seedVideo(alice.userId, { title })));
+      const playlistId = (await createPlaylist([a.id])).body._id;
+
+      const responses = await Promise.all([0, 1, 2].map(() =>
+        request(app).post(`/playlists/${playlistId}/videos`).send({ videoId: b.id }).set("Authorization", alice.auth)
+      ));
+
+      expect(responses.map((res) => res.status).sort()).toEqual([200, 409, 409]);
+      expect((await Playlist.findById(playlistId))!.videos.map(String)).toEqual([a.id, b.id]);
+    });
+
+    it("refuses the videos of other users and the playlists of other users", async () => {
+      const theirs = await seedVideo(bob.userId);
+
+      const res = await createPlaylist([theirs.id]);
+      expect(res.status).toBe(400);
+
+      const playlist = await Playlist.create({ userId: bob.userId, title: "Bob's" });
+      const other = await request(app).get(`/playlists/${playlist._id}`).set("Authorization", alice.auth);
+      expect(other.status).toBe(403);
+    });
+
+    it("removes deleted videos from the playlists", async () => {
+      const video = await seedVideo(alice.userId);
+      const created = await createPlaylist([video.id]);
+
+      await request(app).delete(`/videos/${video.id}`).set("Authorization", alice.auth);
+
+      const playlist = await Playlist.findById(created.body._id);
+      expect(playlist?.videos).toHaveLength(0);
+    });
+
+    it("signs the URLs of the processed videos", async () => {
+      const ready = await seedVideo(alice.userId, { title: "Ready" });
+      await seedPlaylist(ready.id);
+      const processing = await seedVideo(alice.userId, { title: "Processing", videoStatus: "inProgress" });
+      const created = await createPlaylist([ready.id, processing.id]);
+
+      const res = await request(app).post(`/playlists/${created.body._id}/signed-urls`).set("Authorization", alice.auth);
+
+      expect(res.status).toBe(200);
+      expect(res.body.items).toHaveLength(2);
+      expect(res.body.items[1]).not.toHaveProperty("streamUrl");
+
+      const streamUrl = new URL(res.body.items[0].streamUrl);
+      const stream = await request(app).get(streamUrl.pathname + streamUrl.search);
+      expect(stream.status).toBe(200);
+    });
+  });
+
+  describe("analytics", () => {
+    const rendition = (name: string, height: number) =>
+      ({ name, width: (height * 16) / 9, height, videoBitrate: 1000, maxrate: 1070, bufsize: 2000 });
+
+    // Segment fetches are recorded without delaying the response
+    const waitForSegments = async (videoId: string, count: number) => {
+      for (let i = 0; i < 50; i++) {
+        const session = await PlaybackSession.findOne({ videoId });
+        if (session && session.renditionSegments.length >= count) return;
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+    };
+
+    it("records views from the segments fetched and the heartbeats", async () => {
+      const id = (await seedVideo(alice.userId, { duration: 20, renditions: [rendition("720p", 720), rendition("360p", 360)] })).id;
+      await seedPlaylist(id);
+      for (const segment of [`${id}_v0_000.ts`, `${id}_v0_001.ts`, `${id}_v1_001.ts`]) {
+        await getStorage().writeFile(videoKey(id, segment), "ts");
+      }
+
+      const signed = await request(app).post(`/videos/${id}/signed-url`).set("Authorization", alice.auth);
+      const streamUrl = new URL(signed.body.streamUrl);
+
+      await request(app).get(streamUrl.pathname + streamUrl.search);
+      for (const segment of [`${id}_v0_000.ts`, `${id}_v0_001.ts`, `${id}_v1_001.ts`]) {
+        const res = await request(app).get(`${streamUrl.pathname}/${segment}${streamUrl.search}`);
+        expect(res.status).toBe(200);
+      }
+      await waitForSegments(id, 3);
+
+      const heartbeat = await request(app)
+        .post(`/videos/${id}/analytics/heartbeat${streamUrl.search}`)
+        .send({ sessionId: "player-1", position: 19, playedSeconds: 19 });
+      expect(heartbeat.status).toBe(204);
+
+      const res = await request(app).get(`/videos/${id}/analytics`).set("Authorization", alice.auth);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({
+        views: 1,
+        uniqueViewers: 1,
+        watchTimeSeconds: 19,
+        averagePercentWatched: 95,
+        completionRate: 1,
+      });
+      expect(res.body.renditions).toEqual([
+        { rendition: "720p", segments: 2, seconds: 8, share: 0.667 },
+        { rendition: "360p", segments: 1, seconds: 4, share: 0.333 },
+      ]);
+
+      const mine = await request(app).get("/me/analytics").set("Authorization", alice.auth);
+      expect(mine.body).toMatchObject({ views: 1, videos: [{ videoId: id, title: "clip.mp4", views: 1 }] });
+    });
+
+    it("counts concurrent first fetches of a viewer as a single view", async () => {
+      const video = await seedVideo(alice.userId, { duration: 20 });
+      const id = video.id;
+      const viewer = { uid: alice.userId, ip: "203.0.113.7" };
+
+      await Promise.all([0, 1, 2, 3].map((i) => recordSegmentFetch(video, viewer, `${id}_v0_00${i}.ts`)));
+
+      const sessions = await PlaybackSession.find({ videoId: id });
+      expect(sessions).toHaveLength(1);
+      expect([...sessions[0].segments].sort()).toEqual([0, 1, 2, 3]);
+
+      // Once idle, the viewer starts a new session
+      await PlaybackSession.updateMany({ videoId: id }, { lastSeenAt: new Date(Date.now() - 24 * 60 * 60 * 1000) });
+      await recordSegmentFetch(video, viewer, `${id}_v0_000.ts`);
+      expect(await PlaybackSession.countDocuments({ videoId: id })).toBe(2);
+    });
+
+    it("only lets the owner see the analytics of a video", async () => {
+      const video = await seedVideo(bob.userId);
+
+      const res = await request(app).get(`/videos/${video._id}/analytics`).set("Authorization", alice.auth);
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe("admin", () => {
+    const admin = createTestUser({ roles: ["admin"] });
+    const moderator = createTestUser({ scope: "videos:moderate" });
+
+    it("lists the videos of every user to admins and moderators only", async () => {
+      await seedVideo(alice.userId, { title: "Alice's" });
+      await seedVideo(bob.userId, { title: "Bob's" });
+
+      const forbidden = await request(app).get("/admin/videos").set("Authorization", alice.auth);
+      expect(forbidden.status).toBe(403);
+
+      const res = await request(app).get("/admin/videos").query({ sort: "title" }).set("Authorization", moderator.auth);
+      expect(res.status).toBe(200);
+      expect(res.body.videos.map((v: any) => v.title)).toEqual(["Alice's", "Bob's"]);
+
+      const filtered = await request(app).get("/admin/videos").query({ userId: bob.userId }).set("Authorization", admin.auth);
+      expect(filtered.body.videos.map((v: any) => v.title)).toEqual(["Bob's"]);
+    });
+
+    it("lets admins, not moderators, delete any video", async () => {
+      const video = await seedVideo(alice.userId);
+
+      const denied = await request(app).delete(`/admin/videos/${video._id}`).set("Authorization", moderator.auth);
+      expect(denied.status).toBe(403);
+
+      const res = await request(app).delete(`/admin/videos/${video._id}`).set("Authorization", admin.auth);
+      expect(res.status).toBe(200);
+      expect(await File.exists({ _id: video._id })).toBeNull();
+    });
+
+    it("reports the storage of each user", async () => {
+      await seedVideo(alice.userId, { storageBytes: 4000 });
+      await seedVideo(bob.userId, { storageBytes: 9000 });
+
+      const res = await request(app).get("/admin/storage").set("Authorization", moderator.auth);
+
+      expect(res.status).toBe(200);
+      expect(res.body.map((u: any) => [u.userId, u.usedBytes])).toEqual([[bob.userId, 9000], [alice.userId, 4000]]);
+    });
+  });
+
+  describe("job queue startup", () => {
+    it("enqueues the videos left without a job", async () => {
+      const orphan = await seedVideo(alice.userId, { videoStatus: "inProgress" });
+      const queued = await seedVideo(alice.userId, { videoStatus: "inProgress" });
+      const processed = await seedVideo(alice.userId);
+      await Job.create({ videoId: queued._id, userId: alice.userId, runAt: new Date(Date.now() + 60000) });
+      let finish!: () => void;
+      const processing = jest.spyOn(videoUtils, "createVideo").mockReturnValue(new Promise<void>((resolve) => { finish = resolve; }));
+
+      try {
+        await startJobQueue();
+
+        expect(await Job.countDocuments({ videoId: orphan._id })).toBe(1);
+        expect(await Job.countDocuments({ videoId: queued._id })).toBe(1);
+        expect(await Job.countDocuments({ videoId: processed._id })).toBe(0);
+      } finally {
+        finish();
+        await stopJobQueue(1000);
+        processing.mockRestore();
+      }
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import crypto from "crypto";
+import { checkWebhookHost, generateWebhookSecret, signWebhookPayload, verifyWebhookSignature } from "../utils/webhooks";
+
+const SECRET = "whsec_test";
+const BODY = JSON.stringify({ id: "1", event: "video.processed", data: { videoId: "507f1f77bcf86cd799439011" } });
+
+describe("webhook signatures", () => {
+  it("generates distinct prefixed secrets", () => {
+    const secret = generateWebhookSecret();
+    expect(secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+    expect(generateWebhookSecret()).not.toBe(secret);
+  });
+
+  it("signs the timestamp and the raw body with HMAC-SHA256", () => {
+    const timestamp = 1700000000000;
+    const expected = crypto.createHmac("sha256", SECRET).update(`${timestamp}.${BODY}`).digest("hex");
+    expect(signWebhookPayload(SECRET, timestamp, BODY)).toBe(expected);
+  });
+
+  it("accepts a fresh signature", () => {
+    const timestamp = Date.now();
+    const signature = signWebhookPayload(SECRET, timestamp, BODY);
+    expect(verifyWebhookSignature(SECRET, String(timestamp), BODY, signature)).toEqual({ valid: true });
+  });
+
+  it("rejects a modified body or another secret", () => {
+    const timestamp = Date.now();
+    const signature = signWebhookPayload(SECRET, timestamp, BODY);
+    expect(verifyWebhookSignature(SECRET, String(timestamp), BODY + " ", signature).reason).toBe("Invalid signature");
+    expect(verifyWebhookSignature("whsec_other", String(timestamp), BODY, signature).reason).toBe("Invalid signature");
+    expect(verifyWebhookSignature(SECRET, String(timestamp), BODY, signature.slice(1)).reason).toBe("Invalid signature");
+  });
+
+  it("rejects replayed deliveries", () => {
+    const timestamp = Date.now() - 10 * 60 * 1000;
+    const signature = signWebhookPayload(SECRET, timestamp, BODY);
+    expect(verifyWebhookSignature(SECRET, String(timestamp), BODY, signature).reason).toBe("Timestamp outside of the tolerance");
+    expect(verifyWebhookSignature(SECRET, "soon", BODY, signature).reason).toBe("Invalid timestamp format");
+  });
+});
+
+describe("webhook hosts", () => {
+  it.each([
+    "http://127.0.0.1:3000/hook",
+    "http://10.1.2.3/hook",
+    "http://172.20.0.5/hook",
+    "http://192.168.1.10/hook",
+    "http://169.254.169.254/latest/meta-data",
+    "http://0.0.0.0/hook",
+    "http://[::1]/hook",
+    "http://[::ffff:127.0.0.1]/hook",
+    "http://[fd00::1]/hook",
+    "http://[fe80::1]/hook",
+  ])("refuses %s", async (url) => {
+    expect(await checkWebhookHost(url)).toMatch("private address");
+  });
+
+  it("accepts public addresses", async () => {
+    expect(await checkWebhookHost("https://93.184.216.34/hook")).toBeNull();
+    expect(await checkWebhookHost("https://[2606:2800:220:1::1]/hook")).toBeNull();
+  });
+});
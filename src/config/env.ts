@@ -1,16 +1,56 @@
 import dotenv from 'dotenv';
 dotenv.config();
 
-if (!process.env.STREAM_SECRET) {
-  throw new Error('Missing: process.env.STREAM_SECRET');
-}
-
-if (!process.env.MONGO_URI) {
-  throw new Error('Missing: process.env.MONGO_URI');
-}
-
-export const STREAM_SECRET = process.env.STREAM_SECRET;
-export const MONGO_URI = process.env.MONGO_URI;
+export const STREAM_SECRET = process.env.STREAM_SECRET || '';
+// Keys for rotation, "kid:secret" pairs separated by commas, the first one signing: "2024-06:new-secret,2024-01:old-secret"
+export const STREAM_KEYS = process.env.STREAM_KEYS || '';
+export const MONGO_URI = process.env.MONGO_URI || '';
 export const NODE_ENV = process.env.NODE_ENV || 'development';
 export const ENABLE_LOGS = process.env.ENABLE_LOGS === 'true';
 export const PORT = process.env.PORT;
+
+// === STORAGE ===
+export const STORAGE_DRIVER = process.env.STORAGE_DRIVER || 'local';
+
+export const S3_BUCKET = process.env.S3_BUCKET || '';
+export const S3_REGION = process.env.S3_REGION || 'us-east-1';
+export const S3_ENDPOINT = process.env.S3_ENDPOINT;
+export const S3_ACCESS_KEY_ID = process.env.S3_ACCESS_KEY_ID;
+export const S3_SECRET_ACCESS_KEY = process.env.S3_SECRET_ACCESS_KEY;
+export const S3_FORCE_PATH_STYLE = process.env.S3_FORCE_PATH_STYLE === 'true';
+
+/**
+ * Parses the keys of STREAM_KEYS.
+ * @returns {{ kid: string, secret: string }[]} The keys, in order.
+ * @throws {Error} If a key is not a "kid:secret" pair.
+ */
+export const getStreamKeys = () =>
+  STREAM_KEYS.split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      if (separator <= 0 || separator === entry.length - 1) {
+        throw new Error('Invalid process.env.STREAM_KEYS: expected "kid:secret" pairs separated by commas');
+      }
+      return { kid: entry.slice(0, separator), secret: entry.slice(separator + 1) };
+    });
+
+/**
+ * Checks the variables required to run the standalone server (src/index.ts).
+ * An embedding application passes these values to createVideoServer instead.
+ * @throws {Error} If a required variable is missing.
+ */
+export const assertRequiredEnv = () => {
+  if (!STREAM_SECRET && getStreamKeys().length === 0) {
+    throw new Error('Missing: process.env.STREAM_SECRET or process.env.STREAM_KEYS');
+  }
+
+  if (!MONGO_URI) {
+    throw new Error('Missing: process.env.MONGO_URI');
+  }
+
+  if (STORAGE_DRIVER === 's3' && !S3_BUCKET) {
+    throw new Error('Missing: process.env.S3_BUCKET');
+  }
+};
@@ -4,15 +4,15 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
-function getPublicKey(): string {
+/**
+ * Loads the public key verifying the JWTs of the Auth Server.
+ * @returns {string} The PEM public key.
+ * @throws {Error} If the key is neither in PUBLIC_KEY_BASE64 nor in public.pem.
+ */
+export function loadPublicKey(): string {
   // 1. PRIORITY: Environment Variable (Docker / Production)
   if (process.env.PUBLIC_KEY_BASE64) {
-    try {
-      return Buffer.from(process.env.PUBLIC_KEY_BASE64, 'base64').toString('utf-8');
-    } catch (err) {
-      console.error('❌ FATAL ERROR: Failed to decode PUBLIC_KEY_BASE64');
-      process.exit(1);
-    }
+    return Buffer.from(process.env.PUBLIC_KEY_BASE64, 'base64').toString('utf-8');
   }
 
   // 2. FALLBACK: File System (Local Development)
@@ -20,11 +20,10 @@ function getPublicKey(): string {
   try {
     return fs.readFileSync(publicKeyPath, 'utf8');
   } catch (error) {
-    console.error(`❌ FATAL ERROR: Public Key missing.`);
-    console.error(`   - Docker/Prod: Set PUBLIC_KEY_BASE64 in .env`);
-    console.error(`   - Local Dev: Place public.pem in root`);
-    process.exit(1);
+    throw new Error(
+      'Public Key missing.\n' +
+      '   - Docker/Prod: Set PUBLIC_KEY_BASE64 in .env\n' +
+      '   - Local Dev: Place public.pem in root'
+    );
   }
 }
-
-export const PUB_KEY = getPublicKey();
@@ -1,15 +1,31 @@
 import './config/env';
-import { PORT, NODE_ENV } from './config/env';
+import { PORT, STREAM_SECRET, MONGO_URI, assertRequiredEnv, getStreamKeys } from './config/env';
+import { loadPublicKey } from './config/keys';
 import express from 'express';
-import cors from 'cors';
 import path from 'path';
 import config from 'config';
-import mongoConnection from './mongo-connection';
-import videoRoutes from './routes/video.routes';
+import { createVideoServer } from './videoServer';
 import swaggerUi from 'swagger-ui-express';
 import swaggerJsDoc from 'swagger-jsdoc';
 import { version } from '../package.json';
 
+let publicKey: string;
+
+try {
+  assertRequiredEnv();
+  publicKey = loadPublicKey();
+} catch (err: any) {
+  console.error(`❌ FATAL ERROR: ${err.message}`);
+  process.exit(1);
+}
+
+const videoServer = createVideoServer({
+  publicKey,
+  streamSecret: STREAM_SECRET,
+  streamKeys: getStreamKeys(),
+  mongoUri: MONGO_URI,
+});
+
 const app = express();
 
 const port = PORT || config.get("port")
@@ -31,6 +47,42 @@ const swaggerOptions = {
       {
         name: 'Videos',
         description: 'Endpoints for video management'
+      },
+      {
+        name: 'Uploads',
+        description: 'Resumable (chunked) upload of large videos'
+      },
+      {
+        name: 'Subtitles',
+        description: 'Subtitle tracks (WebVTT) of a video'
+      },
+      {
+        name: 'Shares',
+        description: 'Public share links with expiry, password and view limits'
+      },
+      {
+        name: 'Account',
+        description: 'Information about the logged-in user'
+      },
+      {
+        name: 'Webhooks',
+        description: 'Signed notifications of video lifecycle events'
+      },
+      {
+        name: 'Analytics',
+        description: 'Views, watch time and completion rates of the videos'
+      },
+      {
+        name: 'Watch Progress',
+        description: 'Resume playback where you left off'
+      },
+      {
+        name: 'Playlists',
+        description: 'Ordered collections of videos'
+      },
+      {
+        name: 'Admin',
+        description: 'Access to every video (admin and moderator roles of the JWT)'
       }
     ],
     components: {
@@ -74,9 +126,6 @@ process.on('uncaughtException', (error) => {
 });
 
 // === MIDDLEWARE ===
-app.use(cors());
-app.use(express.json());
-
 app.use('/uploads', express.static(path.join(__dirname, 'uploads')));
 
 // === SWAGGER UI ===
@@ -85,42 +134,47 @@ app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerDocs, {
   customSiteTitle: "Video Library API Docs"
 }));
 
-// === DB CONNECTION ===
-mongoConnection.then(() => {
-  console.log('Connected to MongoDB (Video Metadata)');
-}).catch((err) => {
-  console.error('MongoDB connection error:', err);
-});
+// === VIDEO SERVER (routes, health check, error handler) ===
+app.use(videoServer.app);
 
-// === ROUTES ===
-app.use(videoRoutes);
-
-// === HEALTH CHECK ===
-app.get('/health', (req, res) => {
-  res.json({ 
-    status: 'Video Server is running', 
-    version: version,
-    timestamp: new Date().toISOString()
-  });
-});
-
-// === GLOBAL ERROR HANDLER ===
-app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  console.error('=== GLOBAL ERROR HANDLER ===');
-  console.error('URL:', req.method, req.url);
-  console.error('Error:', err);
-  console.error('Message:', err.message);
-  console.error('Stack:', err.stack);
-  console.error('============================');
-  
-  res.status(err.status || 500).json({
-    error: err.message || 'Internal Server Error',
-    details: NODE_ENV === 'development' ? err.stack : undefined
-  });
+videoServer.start().catch((err) => {
+  console.error('MongoDB connection error:', err);
 });
 
 // === START SERVER ===
-app.listen(port, () => {
+const httpServer = app.listen(port, () => {
   console.log(`🎬 Video Server running on port ${port} (v${version})`);
   console.log(`📄 Swagger Docs available at http://localhost:${port}/api-docs`);
 });
+
+// === GRACEFUL SHUTDOWN ===
+let shuttingDown = false;
+
+const shutdown = async (signal: string) => {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log(`${signal} received: draining requests and jobs before exiting`);
+
+  // Last resort if draining hangs (e.g. a storage upload that never ends)
+  setTimeout(() => {
+    console.error('Graceful shutdown timed out, exiting');
+    process.exit(1);
+  }, config.get<number>('shutdown.timeoutMs') + 10000).unref();
+
+  // No new connections; idle keep-alive connections are closed now, busy ones after their response
+  httpServer.close();
+  httpServer.closeIdleConnections();
+
+  try {
+    await videoServer.stop();
+  } catch (err) {
+    console.error('Error during shutdown:', err);
+  }
+
+  httpServer.closeAllConnections();
+  console.log('Video Server stopped');
+  process.exit(0);
+};
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
@@ -1,18 +1,21 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { verifySignature } from '../utils/signedUrl';
-import { PUB_KEY } from '../config/keys';
+import { SignedUrlQuery, verifySignature } from '../utils/signedUrl';
+import { getServerSettings } from '../server.settings';
+import { getRolesFromClaims, Role } from '../utils/roles';
 
 
 export interface AuthRequest extends Request {
   userId?: string;
+  roles?: Role[];
+  signedUrl?: SignedUrlQuery;  // Parameters of the signed URL, set by verifySignedUrl
 }
 
 /**
  * Middleware function that verifies JWT tokens in the Authorization header.
  * 
  * Extracts the Bearer token from the request's Authorization header, verifies it using RS256 algorithm,
- * and attaches the decoded userId to the request object if valid.
+ * and attaches the decoded userId and the roles of its `roles`/`scope` claims to the request object if valid.
  * 
  * @param {AuthRequest} req - The Express request object with userId property
  * @param {Response} res - The Express response object
@@ -36,9 +39,10 @@ export const verifyToken = (req: AuthRequest, res: Response, next: NextFunction)
   const token = authHeader.substring(7);
 
   try {
-    const decoded = jwt.verify(token, PUB_KEY, { algorithms: ['RS256'] }) as { userId: string };
+    const decoded = jwt.verify(token, getServerSettings().publicKey, { algorithms: ['RS256'] }) as { userId: string };
     
     req.userId = decoded.userId;
+    req.roles = getRolesFromClaims(decoded);
     next();
   } catch (error) {
     if (error instanceof Error && error.name === 'TokenExpiredError') {
@@ -54,34 +58,59 @@ export const verifyToken = (req: AuthRequest, res: Response, next: NextFunction)
 
 /**
  * Verify the signed URL parameters in the request query.
- * If any of the parameters are missing, the signature is invalid, or the
- * signature has expired, return a 401 response.
- * If the signature is valid, set the userId property of the request object
- * and call the next middleware function.
+ * If any of the parameters are missing, the signature is invalid, the
+ * signature has expired, or the request is out of the scope of the URL
+ * (path, rendition or client address), return a 401 response.
+ * If the signature is valid, set the userId and signedUrl properties of the
+ * request object and call the next middleware function.
  * @param {AuthRequest} req - The request object
  * @param {Response} res - The response object
  * @param {NextFunction} next - The next middleware function
  */
 export const verifySignedUrl = (req: AuthRequest, res: Response, next: NextFunction) => {
-  const { expires, signature, uid } = req.query;
+  const { expires, signature, uid, kid, path, rendition, ip } = req.query;
   const videoId = req.params.id;
 
-  if (!expires || !signature || !uid) {
+  if (!expires || !signature || !uid || !kid) {
     return res.status(401).json({ error: 'Missing signature parameters' });
   }
 
-  const result = verifySignature(
-    videoId,
-    uid as string,
-    expires as string,
-    signature as string
-  );
+  const query: SignedUrlQuery = {
+    expires: String(expires),
+    signature: String(signature),
+    uid: String(uid),
+    kid: String(kid),
+    path: path ? String(path) : undefined,
+    rendition: rendition ? String(rendition) : undefined,
+    ip: ip ? String(ip) : undefined,
+  };
+
+  const result = verifySignature(videoId, query, { path: req.path, file: req.params.file, ip: req.ip });
 
   if (!result.valid) {
     return res.status(401).json({ error: result.reason || 'Invalid signature' });
   }
 
   // Set userId for downstream handlers
-  req.userId = uid as string;
+  req.userId = query.uid;
+  req.signedUrl = query;
   next();
-};
\ No newline at end of file
+};
+
+
+/**
+ * Middleware factory restricting a route to users having one of the given roles.
+ * Must run after verifyToken.
+ * @param {Role[]} allowed - The roles allowed to use the route.
+ * @returns {Function} The middleware, answering 403 to other users.
+ *
+ * @example
+ * router.get("/admin/videos", verifyToken, requireRole("admin", "moderator"), handler);
+ */
+export const requireRole = (...allowed: Role[]) => (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.roles || !req.roles.some((role) => allowed.includes(role))) {
+    return res.status(403).json({ error: 'Insufficient role' });
+  }
+
+  next();
+};
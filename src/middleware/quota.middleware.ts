@@ -0,0 +1,29 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth.middleware';
+import { checkStorageQuota } from '../utils/storageQuota';
+
+/**
+ * Rejects an upload before its body is read when its Content-Length alone exceeds the remaining quota of the user,
+ * so that a user over quota doesn't transfer gigabytes for nothing.
+ * The exact size is checked again once the files are received.
+ * Must run after verifyToken.
+ * @param {AuthRequest} req - The Express request object with userId property
+ * @param {Response} res - The Express response object
+ * @param {NextFunction} next - The Express next middleware function
+ */
+export const enforceStorageQuota = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const contentLength = Number(req.headers['content-length'] || 0);
+
+  try {
+    const { allowed, usage } = await checkStorageQuota(req.userId!, contentLength);
+
+    if (!allowed) {
+      return res.status(413).json({ error: 'Storage quota exceeded', usage });
+    }
+
+    next();
+  } catch (err) {
+    console.error('Error checking storage quota:', err);
+    res.status(500).json({ error: 'Error checking storage quota' });
+  }
+};
@@ -0,0 +1,99 @@
+import mongoose, { Schema, Model, Document } from "mongoose";
+import config from "config";
+
+export interface IPlaybackSession extends Document {
+  videoId: mongoose.Types.ObjectId;
+  ownerId: mongoose.Types.ObjectId;
+  viewerId: string;
+  viewerKey: string;
+  clientSessionId?: string;
+  duration: number;
+  segments: number[];
+  renditionSegments: string[];
+  heartbeatSeconds: number;
+  lastHeartbeatAt?: Date;
+  maxPosition: number;
+  startedAt: Date;
+  lastSeenAt: Date;
+  active?: boolean;
+}
+
+export var playbackSessionSchema: any = new Schema({
+  videoId: {
+    type: Schema.Types.ObjectId,
+    ref: 'File',
+    required: true
+  },
+  // Owner of the video, for the analytics of a user
+  ownerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // uid of the signed URL: the owner, or `share-<shareId>` for share link viewers
+  viewerId: {
+    type: String,
+    required: true
+  },
+  // Hash of the viewer id, IP address and user agent, telling apart the viewers of a share link
+  viewerKey: {
+    type: String,
+    required: true
+  },
+  // Session id sent by the player with its heartbeats
+  clientSessionId: {
+    type: String,
+  },
+  // Duration of the video when the session started
+  duration: {
+    type: Number,
+    default: 0
+  },
+  // Distinct segment numbers fetched, whatever the rendition
+  segments: {
+    type: [Number],
+    default: []
+  },
+  // Distinct `<rendition>:<segment number>` fetched
+  renditionSegments: {
+    type: [String],
+    default: []
+  },
+  // Playing time reported by the heartbeats
+  heartbeatSeconds: {
+    type: Number,
+    default: 0
+  },
+  lastHeartbeatAt: {
+    type: Date,
+  },
+  maxPosition: {
+    type: Number,
+    default: 0
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  lastSeenAt: {
+    type: Date,
+    default: Date.now,
+  },
+  // Set on the session a viewer is still watching, unset once it went idle
+  active: {
+    type: Boolean,
+  },
+});
+
+playbackSessionSchema.index({ videoId: 1, viewerKey: 1, lastSeenAt: -1 });
+// A viewer has a single active session per video, even when its first segments are fetched concurrently
+playbackSessionSchema.index(
+  { videoId: 1, viewerKey: 1 },
+  { unique: true, partialFilterExpression: { active: true } }
+);
+playbackSessionSchema.index({ videoId: 1, startedAt: -1 });
+playbackSessionSchema.index({ ownerId: 1, startedAt: -1 });
+// Sessions are kept for `analytics.retentionDays`
+playbackSessionSchema.index({ startedAt: 1 }, { expireAfterSeconds: config.get<number>("analytics.retentionDays") * 24 * 60 * 60 });
+
+export const PlaybackSession: Model<IPlaybackSession> = mongoose.model<IPlaybackSession>("PlaybackSession", playbackSessionSchema);
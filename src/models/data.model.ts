@@ -1,4 +1,7 @@
 import mongoose, { Schema, Model, Document } from "mongoose";
+import { RenditionProfile, Rendition, Packaging, PACKAGING_TYPES } from "../utils/transcodingLadder";
+import { AnimatedPreviewFormat, ANIMATED_PREVIEW_FORMATS } from "../utils/thumbnails";
+import { SubtitleTrack } from "../utils/subtitles";
 
 export interface IFile extends Document {
   fieldname: string;
@@ -19,9 +22,20 @@ export interface IFile extends Document {
   videoStatus?: string; 
   static_thumbnail?: string; 
   custom_thumbnail?: string;
+  thumbnailTime?: number;
   animated_thumbnail?: string; 
+  animatedPreviewStarts?: number[];
+  animatedPreviewFormat?: AnimatedPreviewFormat;
+  sprite_thumbnails?: string;
   hls?: string; 
+  dash?: string;
+  packaging?: Packaging;
   original_video?: string; 
+  ladder?: RenditionProfile[];
+  renditions?: Rendition[];
+  subtitles?: SubtitleTrack[];
+  storageBytes?: number;
+  interruptedAt?: Date;
 }
 
 export var fileSchema: any = new Schema({
@@ -86,15 +100,73 @@ export var fileSchema: any = new Schema({
   custom_thumbnail: {
     type: String,
   },
+  // Timestamp (seconds) of the frame picked by the owner as static thumbnail
+  thumbnailTime: {
+    type: Number,
+  },
   animated_thumbnail: {
     type: String,
   },
+  // Start times (seconds) of the animated preview chosen by the owner
+  animatedPreviewStarts: {
+    type: [Number],
+    default: undefined,
+  },
+  animatedPreviewFormat: {
+    type: String,
+    enum: ANIMATED_PREVIEW_FORMATS,
+  },
+  // WebVTT thumbnails track of the sprite sheets
+  sprite_thumbnails: {
+    type: String,
+  },
   hls: {
     type: String,
   },
+  dash: {
+    type: String,
+  },
+  packaging: {
+    type: String,
+    enum: PACKAGING_TYPES,
+  },
   original_video: {
     type: String,
   },
+  ladder: {
+    type: [Schema.Types.Mixed],
+    default: undefined,
+  },
+  renditions: {
+    type: [Schema.Types.Mixed],
+    default: undefined,
+  },
+  subtitles: {
+    type: [{
+      _id: false,
+      language: { type: String, required: true },
+      label: { type: String },
+      isDefault: { type: Boolean, default: false },
+      file: { type: String, required: true },
+      playlist: { type: String, required: true },
+      createdAt: { type: Date, default: Date.now },
+    }],
+    default: [],
+  },
+  storageBytes: {
+    type: Number,
+  },
+  // Set when a shutdown interrupted the processing: the job is queued again and resumes at next start
+  interruptedAt: {
+    type: Date,
+  },
 });
 
+// Full-text search over the listing (GET /videos?q=)
+fileSchema.index(
+  { title: "text", description: "text", tags: "text" },
+  { weights: { title: 10, tags: 5, description: 1 }, name: "video_text_search" }
+);
+fileSchema.index({ userId: 1, createdAt: -1 });
+
 export const File: Model<IFile> = mongoose.model<IFile>("File", fileSchema);
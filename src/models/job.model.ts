@@ -0,0 +1,78 @@
+import mongoose, { Schema, Model, Document } from "mongoose";
+
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+export interface IJob extends Document {
+  videoId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  type: string;
+  status: JobStatus;
+  payload?: any;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lastError?: string;
+  startedAt?: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+}
+
+export var jobSchema: any = new Schema({
+  videoId: {
+    type: Schema.Types.ObjectId,
+    ref: 'File',
+    required: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    default: "process",
+  },
+  status: {
+    type: String,
+    enum: ["queued", "running", "completed", "failed"],
+    default: "queued",
+  },
+  payload: {
+    type: Schema.Types.Mixed,
+    default: {},
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+  },
+  maxAttempts: {
+    type: Number,
+    default: 3,
+  },
+  runAt: {
+    type: Date,
+    default: Date.now,
+  },
+  lastError: {
+    type: String,
+  },
+  startedAt: {
+    type: Date,
+  },
+  finishedAt: {
+    type: Date,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+jobSchema.index({ status: 1, runAt: 1 });
+// A video has at most one pending job: concurrent (re)processing requests can't both enqueue one
+jobSchema.index(
+  { videoId: 1 },
+  { unique: true, partialFilterExpression: { status: { $in: ["queued", "running"] } } }
+);
+
+export const Job: Model<IJob> = mongoose.model<IJob>("Job", jobSchema);
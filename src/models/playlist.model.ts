@@ -0,0 +1,55 @@
+import mongoose, { Schema, Model, Document } from "mongoose";
+
+export interface IPlaylist extends Document {
+  userId: mongoose.Types.ObjectId;
+  title: string;
+  description: string;
+  videos: mongoose.Types.ObjectId[];
+  coverVideoId?: mongoose.Types.ObjectId;
+  cover?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export var playlistSchema: any = new Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  title: {
+    type: String,
+    required: true
+  },
+  description: {
+    type: String,
+    default: ""
+  },
+  // Videos in playback order
+  videos: {
+    type: [{ type: Schema.Types.ObjectId, ref: 'File' }],
+    default: []
+  },
+  // Video whose thumbnail is the cover, when no cover image was uploaded (defaults to the first video)
+  coverVideoId: {
+    type: Schema.Types.ObjectId,
+    ref: 'File'
+  },
+  // Uploaded cover image (storage key)
+  cover: {
+    type: String,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+playlistSchema.index({ userId: 1, updatedAt: -1 });
+playlistSchema.index({ videos: 1 });
+
+export const Playlist: Model<IPlaylist> = mongoose.model<IPlaylist>("Playlist", playlistSchema);
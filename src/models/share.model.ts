@@ -0,0 +1,64 @@
+import mongoose, { Schema, Model, Document } from "mongoose";
+
+export interface IShareLink extends Document {
+  videoId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  token: string;
+  label?: string;
+  passwordHash?: string;
+  expiresAt?: Date;
+  maxViews?: number;
+  views: number;
+  revokedAt?: Date;
+  lastViewedAt?: Date;
+  createdAt: Date;
+}
+
+export var shareLinkSchema: any = new Schema({
+  videoId: {
+    type: Schema.Types.ObjectId,
+    ref: 'File',
+    required: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  token: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  label: {
+    type: String,
+    default: ""
+  },
+  passwordHash: {
+    type: String,
+  },
+  expiresAt: {
+    type: Date,
+  },
+  maxViews: {
+    type: Number,
+  },
+  views: {
+    type: Number,
+    default: 0
+  },
+  revokedAt: {
+    type: Date,
+  },
+  lastViewedAt: {
+    type: Date,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+shareLinkSchema.index({ videoId: 1, createdAt: -1 });
+
+export const ShareLink: Model<IShareLink> = mongoose.model<IShareLink>("ShareLink", shareLinkSchema);
@@ -0,0 +1,88 @@
+import mongoose, { Schema, Model, Document } from "mongoose";
+import { RenditionProfile, Packaging, PACKAGING_TYPES } from "../utils/transcodingLadder";
+
+export interface IUploadSession extends Document {
+  userId: mongoose.Types.ObjectId;
+  originalname: string;
+  filename: string;
+  mimetype: string;
+  size: number;
+  offset: number;
+  title?: string;
+  description?: string;
+  category?: string;
+  tags?: string[];
+  ladder?: RenditionProfile[];
+  packaging?: Packaging;
+  finalizing?: boolean;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export var uploadSessionSchema: any = new Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  originalname: {
+    type: String,
+    required: true
+  },
+  filename: {
+    type: String,
+    required: true
+  },
+  mimetype: {
+    type: String,
+  },
+  size: {
+    type: Number,
+    required: true
+  },
+  offset: {
+    type: Number,
+    default: 0
+  },
+  title: {
+    type: String,
+    default: ""
+  },
+  description: {
+    type: String,
+    default: ""
+  },
+  category: {
+    type: String,
+    default: ""
+  },
+  tags: {
+    type: [String],
+    default: []
+  },
+  ladder: {
+    type: [Schema.Types.Mixed],
+    default: undefined
+  },
+  packaging: {
+    type: String,
+    enum: PACKAGING_TYPES
+  },
+  // Set while the upload is turned into a video, so that it's finalized only once
+  finalizing: {
+    type: Boolean,
+    default: false
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+uploadSessionSchema.index({ expiresAt: 1 });
+
+export const UploadSession: Model<IUploadSession> = mongoose.model<IUploadSession>("UploadSession", uploadSessionSchema);
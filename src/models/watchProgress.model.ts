@@ -0,0 +1,46 @@
+import mongoose, { Schema, Model, Document } from "mongoose";
+
+export interface IWatchProgress extends Document {
+  userId: mongoose.Types.ObjectId;
+  videoId: mongoose.Types.ObjectId;
+  position: number;
+  duration: number;
+  finished: boolean;
+  updatedAt: Date;
+}
+
+export var watchProgressSchema: any = new Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  videoId: {
+    type: Schema.Types.ObjectId,
+    ref: 'File',
+    required: true
+  },
+  // Last playback position, in seconds
+  position: {
+    type: Number,
+    default: 0
+  },
+  // Duration of the video when the position was saved
+  duration: {
+    type: Number,
+    default: 0
+  },
+  finished: {
+    type: Boolean,
+    default: false
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+watchProgressSchema.index({ userId: 1, videoId: 1 }, { unique: true });
+watchProgressSchema.index({ userId: 1, finished: 1, updatedAt: -1 });
+
+export const WatchProgress: Model<IWatchProgress> = mongoose.model<IWatchProgress>("WatchProgress", watchProgressSchema);
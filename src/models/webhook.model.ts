@@ -0,0 +1,139 @@
+import mongoose, { Schema, Model, Document } from "mongoose";
+
+export type WebhookDeliveryStatus = "pending" | "sending" | "delivered" | "failed";
+
+export interface IWebhook extends Document {
+  userId: mongoose.Types.ObjectId;
+  url: string;
+  secret: string;
+  events: string[];
+  description?: string;
+  active: boolean;
+  createdAt: Date;
+}
+
+export interface IWebhookAttempt {
+  at: Date;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface IWebhookDelivery extends Document {
+  webhookId?: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  url: string;
+  event: string;
+  payload: any;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  history: IWebhookAttempt[];
+  deliveredAt?: Date;
+  createdAt: Date;
+}
+
+export var webhookSchema: any = new Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  url: {
+    type: String,
+    required: true
+  },
+  // Signs the payloads (HMAC-SHA256), shown once when the webhook is created
+  secret: {
+    type: String,
+    required: true
+  },
+  // Subscribed events, empty for all of them
+  events: {
+    type: [String],
+    default: []
+  },
+  description: {
+    type: String,
+    default: ""
+  },
+  active: {
+    type: Boolean,
+    default: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+webhookSchema.index({ userId: 1, createdAt: -1 });
+
+export var webhookDeliverySchema: any = new Schema({
+  // Missing for the global webhooks of config/default.json
+  webhookId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Webhook'
+  },
+  // Owner of the video the event is about
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  url: {
+    type: String,
+    required: true
+  },
+  event: {
+    type: String,
+    required: true
+  },
+  payload: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ["pending", "sending", "delivered", "failed"],
+    default: "pending",
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+  },
+  maxAttempts: {
+    type: Number,
+    default: 5,
+  },
+  nextAttemptAt: {
+    type: Date,
+    default: Date.now,
+  },
+  history: {
+    type: [{
+      _id: false,
+      at: { type: Date, required: true },
+      statusCode: { type: Number },
+      error: { type: String },
+      durationMs: { type: Number, required: true },
+    }],
+    default: [],
+  },
+  deliveredAt: {
+    type: Date,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+webhookDeliverySchema.index({ webhookId: 1, createdAt: -1 });
+// The delivery log is kept for 30 days
+webhookDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export const Webhook: Model<IWebhook> = mongoose.model<IWebhook>("Webhook", webhookSchema);
+export const WebhookDelivery: Model<IWebhookDelivery> = mongoose.model<IWebhookDelivery>("WebhookDelivery", webhookDeliverySchema);
@@ -0,0 +1,63 @@
+import { Router } from 'express';
+import { verifyToken, AuthRequest } from "../middleware/auth.middleware";
+import { getStorageUsage } from '../utils/storageQuota';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /me/usage:
+ *   get:
+ *     summary: Get the storage usage of the logged-in user
+ *     description: Reports the storage used by the videos of the user (originals and derived renditions, thumbnails and subtitles once processed), the space reserved by resumable uploads in progress, the quota and the remaining space.
+ *     tags: [Account]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Storage usage
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 usedBytes:
+ *                   type: integer
+ *                   description: Bytes stored for the videos of the user
+ *                   example: 1288490188
+ *                 reservedBytes:
+ *                   type: integer
+ *                   description: Declared size of the resumable uploads in progress
+ *                   example: 0
+ *                 quotaBytes:
+ *                   type: integer
+ *                   nullable: true
+ *                   description: Storage quota (null if unlimited)
+ *                   example: 53687091200
+ *                 remainingBytes:
+ *                   type: integer
+ *                   nullable: true
+ *                   description: Bytes left before reaching the quota (null if unlimited)
+ *                   example: 52398601012
+ *                 videoCount:
+ *                   type: integer
+ *                   example: 12
+ *       401:
+ *         description: Missing or invalid token
+ *       500:
+ *         description: Error computing storage usage
+ */
+router.get(
+  "/me/usage",
+  verifyToken,
+  async (req: AuthRequest, res) => {
+    try {
+      res.json(await getStorageUsage(req.userId!));
+    } catch (err) {
+      console.error("Error computing storage usage:", err);
+      res.status(500).json({ error: "Error computing storage usage" });
+    }
+  }
+);
+
+export default router;
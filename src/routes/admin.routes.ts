@@ -0,0 +1,485 @@
+import { Router } from 'express';
+import { matchedData } from 'express-validator';
+import { File } from "../models/data.model";
+import { Job } from "../models/job.model";
+import { verifyToken, requireRole, AuthRequest } from "../middleware/auth.middleware";
+import { validateRequest } from '../middleware/validateRequest.middleware';
+import { videoIdParamValidator } from '../validators/video.validators';
+import {
+  adminListFailuresValidator,
+  adminListVideosValidator,
+  adminStorageValidator,
+  userIdParamValidator
+} from '../validators/admin.validators';
+import * as videoUtils from '../utils/videoUtils';
+import { reprocessVideo } from '../utils/jobQueue';
+import { getStorageUsage, getStorageUsageByUser } from '../utils/storageQuota';
+import { buildVideoListPipeline, encodeCursor, VideoListQuery, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '../utils/videoQuery';
+
+const router = Router();
+
+// Moderators have read-only access, writes are reserved to admins
+const canRead = requireRole("admin", "moderator");
+const canWrite = requireRole("admin");
+
+/**
+ * @swagger
+ * /admin/videos:
+ *   get:
+ *     summary: List the videos of every user
+ *     description: Same filters, sorting and cursor pagination as `GET /videos`, across all users (or the one given by `userId`). Requires the admin or moderator role.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *         description: Only the videos of this user
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: videoStatus
+ *         schema:
+ *           type: string
+ *           enum: [inProgress, uploaded, error]
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [createdAt, title, duration, size]
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: A page of videos, with the owner and the stored size of each
+ *       400:
+ *         description: Invalid parameters or cursor
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Insufficient role
+ *       500:
+ *         description: Error fetching videos
+ */
+router.get(
+  "/admin/videos",
+  verifyToken,
+  canRead,
+  adminListVideosValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const query: VideoListQuery = matchedData(req, { locations: ['query'] });
+    const limit = Math.min(query.limit || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+    let pipeline: any[];
+    try {
+      pipeline = buildVideoListPipeline({ ...query, viewerId: req.userId });
+    } catch (err) {
+      return res.status(400).json({ error: (err as Error).message });
+    }
+
+    try {
+      const videos = await File.aggregate(pipeline);
+
+      const hasMore = videos.length > limit;
+      const page = hasMore ? videos.slice(0, limit) : videos;
+
+      res.json({
+        videos: page.map((file) => ({
+          _id: file._id,
+          userId: file.userId,
+          title: file.title || file.originalname,
+          duration: file.duration,
+          uploadDate: file.createdAt,
+          size: file.size || '0',
+          storageBytes: file.storageBytes ?? null,
+          videoStatus: file.videoStatus,
+        })),
+        nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+        hasMore,
+      });
+    } catch (err) {
+      console.error("Error fetching videos (admin):", err);
+      res.status(500).json({ error: "Error fetching videos" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /admin/videos/{id}:
+ *   get:
+ *     summary: Get any video with its processing jobs
+ *     description: Requires the admin or moderator role.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The video document and its jobs, newest first
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Insufficient role
+ *       404:
+ *         description: Video not found
+ *       500:
+ *         description: Error fetching video
+ *   delete:
+ *     summary: Delete any video
+ *     description: Deletes the video and its files like its owner would. Requires the admin role.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Video deleted
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Insufficient role
+ *       404:
+ *         description: Video not found
+ *       500:
+ *         description: Error deleting video
+ */
+router.get(
+  "/admin/videos/:id",
+  verifyToken,
+  canRead,
+  videoIdParamValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { id } = req.params;
+
+    try {
+      const video = await File.findById(id).lean();
+
+      if (!video) {
+        return res.status(404).json({ error: "Video not found" });
+      }
+
+      const jobs = await Job.find({ videoId: id }).sort({ createdAt: -1 }).lean();
+
+      res.json({ video, jobs });
+    } catch (err) {
+      console.error("Error fetching video (admin):", err);
+      res.status(500).json({ error: "Error fetching video" });
+    }
+  }
+);
+
+router.delete(
+  "/admin/videos/:id",
+  verifyToken,
+  canWrite,
+  videoIdParamValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { id } = req.params;
+
+    try {
+      const video = await File.findById(id);
+
+      if (!video) {
+        return res.status(404).json({ error: "Video not found" });
+      }
+
+      await videoUtils.deleteVideo(video);
+      console.log(`[admin] Video ${id} of user ${video.userId} deleted by ${req.userId}`);
+
+      res.json({ message: "Video and related files deleted successfully" });
+    } catch (err) {
+      console.error("Error deleting video (admin):", err);
+      res.status(500).json({ error: "Error deleting video" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /admin/videos/{id}/reprocess:
+ *   post:
+ *     summary: Process any video again
+ *     description: Generates the renditions and thumbnails again from the stored original, e.g. after a processing failure. Requires the admin role.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       202:
+ *         description: Processing queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 jobId:
+ *                   type: string
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Insufficient role
+ *       404:
+ *         description: Video not found
+ *       409:
+ *         description: The video is already being processed
+ *       500:
+ *         description: Error queuing processing
+ */
+router.post(
+  "/admin/videos/:id/reprocess",
+  verifyToken,
+  canWrite,
+  videoIdParamValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { id } = req.params;
+
+    try {
+      const video = await File.findById(id);
+
+      if (!video) {
+        return res.status(404).json({ error: "Video not found" });
+      }
+
+      const result = await reprocessVideo(video);
+
+      if (!result) {
+        return res.status(409).json({ error: "Video is already being processed" });
+      }
+
+      console.log(`[admin] Video ${id} of user ${video.userId} queued for reprocessing by ${req.userId}`);
+      res.status(202).json({ message: "Processing queued", jobId: result.job._id });
+    } catch (err) {
+      console.error("Error queuing reprocessing (admin):", err);
+      res.status(500).json({ error: "Error queuing processing" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /admin/failures:
+ *   get:
+ *     summary: List the processing failures
+ *     description: Returns the jobs that failed permanently (after every retry), newest first, with their error and video. Requires the admin or moderator role.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Failed jobs
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   jobId:
+ *                     type: string
+ *                   videoId:
+ *                     type: string
+ *                   userId:
+ *                     type: string
+ *                   title:
+ *                     type: string
+ *                     nullable: true
+ *                     description: Title of the video (null if it was deleted)
+ *                   attempts:
+ *                     type: integer
+ *                   error:
+ *                     type: string
+ *                   finishedAt:
+ *                     type: string
+ *                     format: date-time
+ *       400:
+ *         description: Invalid parameters
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Insufficient role
+ *       500:
+ *         description: Error fetching failures
+ */
+router.get(
+  "/admin/failures",
+  verifyToken,
+  canRead,
+  adminListFailuresValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const limit = Number(req.query.limit) || DEFAULT_PAGE_SIZE;
+
+    try {
+      const jobs = await Job.find({ status: "failed" })
+        .sort({ finishedAt: -1 })
+        .limit(limit)
+        .populate("videoId", "title originalname")
+        .lean();
+
+      res.json(jobs.map((job: any) => ({
+        jobId: job._id,
+        videoId: job.videoId?._id || null,
+        userId: job.userId,
+        title: job.videoId ? job.videoId.title || job.videoId.originalname : null,
+        attempts: job.attempts,
+        error: job.lastError,
+        finishedAt: job.finishedAt,
+      })));
+    } catch (err) {
+      console.error("Error fetching processing failures:", err);
+      res.status(500).json({ error: "Error fetching failures" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /admin/storage:
+ *   get:
+ *     summary: Storage used by each user
+ *     description: Returns the users using the most storage first. Requires the admin or moderator role.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Storage per user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   userId:
+ *                     type: string
+ *                   usedBytes:
+ *                     type: integer
+ *                   videoCount:
+ *                     type: integer
+ *                   quotaBytes:
+ *                     type: integer
+ *                     nullable: true
+ *       400:
+ *         description: Invalid parameters
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Insufficient role
+ *       500:
+ *         description: Error computing storage usage
+ */
+router.get(
+  "/admin/storage",
+  verifyToken,
+  canRead,
+  adminStorageValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    try {
+      res.json(await getStorageUsageByUser(Number(req.query.limit) || DEFAULT_PAGE_SIZE));
+    } catch (err) {
+      console.error("Error computing storage usage (admin):", err);
+      res.status(500).json({ error: "Error computing storage usage" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /admin/users/{userId}/storage:
+ *   get:
+ *     summary: Storage usage of a user
+ *     description: Same report as `GET /me/usage`, for any user. Requires the admin or moderator role.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Storage usage of the user
+ *       400:
+ *         description: Invalid user id
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Insufficient role
+ *       500:
+ *         description: Error computing storage usage
+ */
+router.get(
+  "/admin/users/:userId/storage",
+  verifyToken,
+  canRead,
+  userIdParamValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    try {
+      res.json(await getStorageUsage(req.params.userId));
+    } catch (err) {
+      console.error("Error computing storage usage (admin):", err);
+      res.status(500).json({ error: "Error computing storage usage" });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,311 @@
+import { Router } from 'express';
+import { matchedData } from 'express-validator';
+import { File } from "../models/data.model";
+import { verifyToken, verifySignedUrl, AuthRequest } from "../middleware/auth.middleware";
+import { validateRequest } from '../middleware/validateRequest.middleware';
+import { heartbeatValidator, userAnalyticsValidator, videoAnalyticsValidator } from '../validators/analytics.validators';
+import { canViewVideo } from '../utils/shareLinks';
+import { getUserAnalytics, getVideoAnalytics, recordHeartbeat, AnalyticsRange } from '../utils/analytics';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AnalyticsSummary:
+ *       type: object
+ *       properties:
+ *         views:
+ *           type: integer
+ *           description: Playback sessions (a viewer idle for `analytics.sessionIdleMinutes` starts a new one)
+ *         uniqueViewers:
+ *           type: integer
+ *           description: Distinct viewers (user, or IP address and user agent for share links)
+ *         watchTimeSeconds:
+ *           type: integer
+ *         averagePercentWatched:
+ *           type: number
+ *           nullable: true
+ *           description: Average share of the video watched per session, in percent
+ *         completionRate:
+ *           type: number
+ *           nullable: true
+ *           description: Share of the sessions that watched at least `analytics.completionThreshold` of the video
+ */
+
+/**
+ * @swagger
+ * /videos/{id}/analytics/heartbeat:
+ *   post:
+ *     summary: Report playback progress
+ *     description: |
+ *       Optional heartbeat sent by the player, e.g. every 10 seconds while playing. Uses the signed URL of the video, like the stream.
+ *       Without heartbeats the watch time is estimated from the HLS segments fetched, which counts what the player buffered ahead.
+ *     tags: [Analytics]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: expires
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: uid
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: kid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Id of the key that signed the URL
+ *         example: "default"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [sessionId, position]
+ *             properties:
+ *               sessionId:
+ *                 type: string
+ *                 description: Random id chosen by the player for this playback
+ *                 example: "b7f3c9e2"
+ *               position:
+ *                 type: number
+ *                 description: Current position in seconds
+ *                 example: 42.5
+ *               playedSeconds:
+ *                 type: number
+ *                 description: Seconds played since the previous heartbeat (capped to `analytics.heartbeatMaxSeconds`)
+ *                 example: 10
+ *     responses:
+ *       204:
+ *         description: Heartbeat recorded
+ *       400:
+ *         description: Invalid parameters
+ *       401:
+ *         description: Invalid signed URL
+ *       403:
+ *         description: Not authorized to view this video
+ *       404:
+ *         description: Video not found
+ *       500:
+ *         description: Error recording heartbeat
+ */
+router.post(
+  "/videos/:id/analytics/heartbeat",
+  verifySignedUrl,
+  heartbeatValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { id } = req.params;
+
+    try {
+      const fileData = await File.findById(id);
+
+      if (!fileData) {
+        return res.status(404).json({ error: "Video not found" });
+      }
+
+      if (!(await canViewVideo(fileData, req.userId))) {
+        return res.status(403).json({ error: "Not authorized to view this video" });
+      }
+
+      await recordHeartbeat(
+        fileData,
+        { uid: req.userId!, ip: req.ip, userAgent: req.get("user-agent") },
+        req.body
+      );
+
+      res.status(204).end();
+    } catch (err) {
+      console.error("[analytics] Error recording heartbeat:", err);
+      res.status(500).json({ error: "Error recording heartbeat" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /videos/{id}/analytics:
+ *   get:
+ *     summary: Get the playback analytics of a video
+ *     description: Views, unique viewers, watch time, average share watched and completion rate, with the segments served per rendition and the views per day (UTC).
+ *     tags: [Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only the sessions started at or after this date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only the sessions started at or before this date
+ *     responses:
+ *       200:
+ *         description: Analytics of the video
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/AnalyticsSummary'
+ *                 - type: object
+ *                   properties:
+ *                     videoId:
+ *                       type: string
+ *                     renditions:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           rendition:
+ *                             type: string
+ *                             example: "720p"
+ *                           segments:
+ *                             type: integer
+ *                           seconds:
+ *                             type: integer
+ *                           share:
+ *                             type: number
+ *                     daily:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           date:
+ *                             type: string
+ *                             example: "2024-05-01"
+ *                           views:
+ *                             type: integer
+ *                           watchTimeSeconds:
+ *                             type: integer
+ *       400:
+ *         description: Invalid parameters
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not the owner of the video
+ *       404:
+ *         description: Video not found
+ *       500:
+ *         description: Error computing analytics
+ */
+router.get(
+  "/videos/:id/analytics",
+  verifyToken,
+  videoAnalyticsValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { id } = req.params;
+    const { from, to }: AnalyticsRange = matchedData(req, { locations: ['query'] });
+
+    try {
+      const fileData = await File.findById(id).select("userId");
+
+      if (!fileData) {
+        return res.status(404).json({ error: "Video not found" });
+      }
+
+      if (fileData.userId.toString() !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to view the analytics of this video" });
+      }
+
+      res.json(await getVideoAnalytics(id, { from, to }));
+    } catch (err) {
+      console.error("[analytics] Error computing video analytics:", err);
+      res.status(500).json({ error: "Error computing analytics" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /me/analytics:
+ *   get:
+ *     summary: Get the playback analytics of the videos of the logged-in user
+ *     description: Totals across the videos of the user, and the analytics of each watched video, most viewed first.
+ *     tags: [Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Analytics of the user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/AnalyticsSummary'
+ *                 - type: object
+ *                   properties:
+ *                     videos:
+ *                       type: array
+ *                       items:
+ *                         allOf:
+ *                           - $ref: '#/components/schemas/AnalyticsSummary'
+ *                           - type: object
+ *                             properties:
+ *                               videoId:
+ *                                 type: string
+ *                               title:
+ *                                 type: string
+ *                                 nullable: true
+ *       400:
+ *         description: Invalid parameters
+ *       401:
+ *         description: Missing or invalid token
+ *       500:
+ *         description: Error computing analytics
+ */
+router.get(
+  "/me/analytics",
+  verifyToken,
+  userAnalyticsValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { from, to }: AnalyticsRange = matchedData(req, { locations: ['query'] });
+
+    try {
+      res.json(await getUserAnalytics(req.userId!, { from, to }));
+    } catch (err) {
+      console.error("[analytics] Error computing user analytics:", err);
+      res.status(500).json({ error: "Error computing analytics" });
+    }
+  }
+);
+
+export default router;
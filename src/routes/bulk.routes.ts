@@ -0,0 +1,181 @@
+import { Router } from 'express';
+import { verifyToken, AuthRequest } from "../middleware/auth.middleware";
+import { validateRequest } from '../middleware/validateRequest.middleware';
+import { bulkVideosValidator } from '../validators/video.validators';
+import { applyBulkOperation, findBulkVideoIds, MAX_BULK_VIDEOS } from '../utils/bulkOperations';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /videos/bulk:
+ *   post:
+ *     summary: Apply an operation to several videos
+ *     description: |
+ *       Deletes, recategorizes, tags or reprocesses several videos at once. The videos are given by `ids`,
+ *       or selected by a `filter` taking the same filters as `GET /videos` (at most 200 videos either way).
+ *       Each video is handled on its own: the response reports the result of every video, and a failure
+ *       only affects its video. Videos of other users are reported as `forbidden` and left untouched.
+ *       Deletions wait for the files to be removed; a video whose files could not all be removed is reported as `partial`.
+ *     tags: [Videos]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [action]
+ *             properties:
+ *               action:
+ *                 type: string
+ *                 enum: [delete, setCategory, addTags, removeTags, reprocess]
+ *               ids:
+ *                 type: array
+ *                 description: Ids of the videos. Either `ids` or `filter` is required.
+ *                 items:
+ *                   type: string
+ *                 example: ["507f1f77bcf86cd799439011"]
+ *               filter:
+ *                 type: object
+ *                 description: Filters selecting the videos of the user, like the query of `GET /videos`
+ *                 properties:
+ *                   q:
+ *                     type: string
+ *                   category:
+ *                     type: string
+ *                   tags:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                   videoStatus:
+ *                     type: string
+ *                     enum: [inProgress, uploaded, error]
+ *                   from:
+ *                     type: string
+ *                     format: date-time
+ *                   to:
+ *                     type: string
+ *                     format: date-time
+ *                   minDuration:
+ *                     type: number
+ *                   maxDuration:
+ *                     type: number
+ *                   watched:
+ *                     type: boolean
+ *                   finished:
+ *                     type: boolean
+ *                 example: { "category": "drafts" }
+ *               category:
+ *                 type: string
+ *                 description: New category, required by `setCategory`
+ *               tags:
+ *                 type: array
+ *                 description: Tags to add or remove, required by `addTags` and `removeTags`
+ *                 items:
+ *                   type: string
+ *               artifacts:
+ *                 type: array
+ *                 description: Artifacts to rebuild by `reprocess`, like `POST /videos/{id}/reprocess`
+ *                 items:
+ *                   type: string
+ *                   enum: [hls, static_thumbnail, animated_thumbnail, sprite]
+ *               ladder:
+ *                 type: string
+ *                 example: '["1080p","480p"]'
+ *                 description: New transcoding ladder for `reprocess`
+ *               packaging:
+ *                 type: string
+ *                 enum: [hls, cmaf]
+ *                 description: New segment packaging for `reprocess`
+ *     responses:
+ *       200:
+ *         description: Operation applied, see the result of each video
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 action:
+ *                   type: string
+ *                   example: "delete"
+ *                 matched:
+ *                   type: integer
+ *                   description: Number of videos given or matched by the filter
+ *                   example: 2
+ *                 succeeded:
+ *                   type: integer
+ *                   description: Number of videos with a `done` or `queued` result
+ *                   example: 1
+ *                 failed:
+ *                   type: integer
+ *                   example: 1
+ *                 results:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       status:
+ *                         type: string
+ *                         enum: [done, queued, partial, not_found, forbidden, conflict, failed]
+ *                       error:
+ *                         type: string
+ *                       jobId:
+ *                         type: string
+ *                         description: Processing job, for `queued` results
+ *       400:
+ *         description: Invalid parameters, or the filter matches more than 200 videos
+ *       401:
+ *         description: Missing or invalid token
+ *       500:
+ *         description: Error applying the operation
+ */
+router.post(
+  "/videos/bulk",
+  verifyToken,
+  bulkVideosValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { action, filter, category, tags, artifacts, ladder, packaging } = req.body;
+    const userId = req.userId!;
+
+    try {
+      let ids: string[] = req.body.ids;
+
+      if (filter) {
+        const matched = await findBulkVideoIds(userId, filter);
+        if (!matched) {
+          return res.status(400).json({ error: `The filter matches more than ${MAX_BULK_VIDEOS} videos` });
+        }
+        ids = matched;
+      }
+
+      const results = await applyBulkOperation(userId, ids, {
+        action,
+        category,
+        tags,
+        artifacts,
+        ladder: Array.isArray(ladder) ? ladder : undefined,
+        packaging: packaging || undefined,
+      });
+
+      const succeeded = results.filter((result) => result.status === "done" || result.status === "queued").length;
+
+      res.json({
+        action,
+        matched: results.length,
+        succeeded,
+        failed: results.length - succeeded,
+        results,
+      });
+    } catch (err) {
+      console.error("Error applying bulk operation:", err);
+      res.status(500).json({ error: "Error applying bulk operation" });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,939 @@
+import fs from "fs";
+import sharp from "sharp";
+import { Router, Request } from 'express';
+import { File } from "../models/data.model";
+import { Playlist } from "../models/playlist.model";
+import { verifyToken, AuthRequest } from "../middleware/auth.middleware";
+import { validateRequest } from '../middleware/validateRequest.middleware';
+import { makeMulterUploadMiddleware, uploadThumb } from "../server.settings";
+import {
+  addPlaylistVideoValidator,
+  createPlaylistValidator,
+  playlistIdParamValidator,
+  playlistVideoParamValidator,
+  reorderPlaylistValidator,
+  updatePlaylistValidator
+} from '../validators/playlist.validators';
+import { cleanupMulterFiles } from '../utils/cleanupUploads';
+import { buildPlaybackUrls } from '../utils/signedUrl';
+import { getStorage } from '../storage';
+import {
+  findPlaylistCoverKey,
+  getMaxPlaylistVideos,
+  getPlaylistVideos,
+  isSamePlaylistContent,
+  playlistCoverKey,
+  serializePlaylist,
+  serializePlaylistWithItems
+} from '../utils/playlists';
+
+const router = Router();
+
+// Validity of the signed URLs of a playlist, like `POST /videos/{id}/signed-url`
+const SIGNED_URL_MINUTES = 15;
+
+const getBaseUrl = (req: Request) => `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+
+/**
+ * Loads a playlist and checks that it belongs to the user.
+ * Sends the error response and returns null if the playlist can't be used.
+ */
+const findOwnedPlaylist = async (req: AuthRequest, res) => {
+  const playlist = await Playlist.findById(req.params.id);
+
+  if (!playlist) {
+    res.status(404).json({ error: "Playlist not found" });
+    return null;
+  }
+
+  if (playlist.userId.toString() !== req.userId) {
+    res.status(403).json({ error: "Not authorized to access this playlist" });
+    return null;
+  }
+
+  return playlist;
+};
+
+/**
+ * Checks that every given video exists and belongs to the user.
+ * @param {string} userId - The id of the user.
+ * @param {string[]} videoIds - The ids of the videos.
+ * @returns {Promise<boolean>} True if the user owns all the videos.
+ */
+const ownsVideos = async (userId: string, videoIds: string[]): Promise<boolean> => {
+  const ids = [...new Set(videoIds)];
+  if (ids.length === 0) return true;
+  return (await File.countDocuments({ _id: { $in: ids }, userId })) === ids.length;
+};
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Playlist:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         title:
+ *           type: string
+ *           example: "Angular course"
+ *         description:
+ *           type: string
+ *         videoCount:
+ *           type: integer
+ *         coverVideoId:
+ *           type: string
+ *           nullable: true
+ *           description: Video whose thumbnail is the cover when no cover image was uploaded (the first video by default)
+ *         cover:
+ *           type: string
+ *           description: URL of the cover image
+ *           example: "/playlists/6650f1c2a1b2c3d4e5f60718/cover"
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     PlaylistWithItems:
+ *       allOf:
+ *         - $ref: '#/components/schemas/Playlist'
+ *         - type: object
+ *           properties:
+ *             videos:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   position:
+ *                     type: integer
+ *                   _id:
+ *                     type: string
+ *                   title:
+ *                     type: string
+ *                   thumbnail:
+ *                     type: string
+ *                   duration:
+ *                     type: number
+ *                   videoStatus:
+ *                     type: string
+ *                     enum: [inProgress, uploaded, error]
+ */
+
+/**
+ * @swagger
+ * /playlists:
+ *   post:
+ *     summary: Create a playlist
+ *     tags: [Playlists]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [title]
+ *             properties:
+ *               title:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               videos:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Ids of your videos, in playback order
+ *     responses:
+ *       201:
+ *         description: Playlist created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PlaylistWithItems'
+ *       400:
+ *         description: Invalid data, or videos that are not yours
+ *       401:
+ *         description: Missing or invalid token
+ *       500:
+ *         description: Error creating playlist
+ *   get:
+ *     summary: List your playlists
+ *     description: Most recently updated first.
+ *     tags: [Playlists]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Your playlists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Playlist'
+ *       401:
+ *         description: Missing or invalid token
+ *       500:
+ *         description: Error fetching playlists
+ */
+router.post(
+  "/playlists",
+  verifyToken,
+  createPlaylistValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const userId = req.userId!;
+    const { title, description = "", videos = [] } = req.body;
+
+    try {
+      if (new Set(videos).size !== videos.length) {
+        return res.status(400).json({ error: "A video can only be once in a playlist" });
+      }
+
+      if (!(await ownsVideos(userId, videos))) {
+        return res.status(400).json({ error: "Some videos do not exist or are not yours" });
+      }
+
+      const playlist = await Playlist.create({ userId, title, description, videos });
+      res.status(201).json(await serializePlaylistWithItems(playlist));
+    } catch (err) {
+      console.error("Error creating playlist:", err);
+      res.status(500).json({ error: "Error creating playlist" });
+    }
+  }
+);
+
+router.get(
+  "/playlists",
+  verifyToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const playlists = await Playlist.find({ userId: req.userId }).sort({ updatedAt: -1 });
+      res.json(playlists.map(serializePlaylist));
+    } catch (err) {
+      console.error("Error fetching playlists:", err);
+      res.status(500).json({ error: "Error fetching playlists" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /playlists/{id}:
+ *   get:
+ *     summary: Get a playlist with its videos
+ *     tags: [Playlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The playlist and its videos, in order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PlaylistWithItems'
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not your playlist
+ *       404:
+ *         description: Playlist not found
+ *       500:
+ *         description: Error fetching playlist
+ *   patch:
+ *     summary: Edit a playlist
+ *     tags: [Playlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               title:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               coverVideoId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Video of the playlist whose thumbnail is the cover, null for the first video
+ *     responses:
+ *       200:
+ *         description: Playlist updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Playlist'
+ *       400:
+ *         description: Invalid data, or a cover video not in the playlist
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not your playlist
+ *       404:
+ *         description: Playlist not found
+ *       500:
+ *         description: Error updating playlist
+ *   delete:
+ *     summary: Delete a playlist
+ *     description: The videos themselves are kept.
+ *     tags: [Playlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Playlist deleted
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not your playlist
+ *       404:
+ *         description: Playlist not found
+ *       500:
+ *         description: Error deleting playlist
+ */
+router.get(
+  "/playlists/:id",
+  verifyToken,
+  playlistIdParamValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    try {
+      const playlist = await findOwnedPlaylist(req, res);
+      if (!playlist) return;
+
+      res.json(await serializePlaylistWithItems(playlist));
+    } catch (err) {
+      console.error("Error fetching playlist:", err);
+      res.status(500).json({ error: "Error fetching playlist" });
+    }
+  }
+);
+
+router.patch(
+  "/playlists/:id",
+  verifyToken,
+  updatePlaylistValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { title, description, coverVideoId } = req.body;
+
+    try {
+      const playlist = await findOwnedPlaylist(req, res);
+      if (!playlist) return;
+
+      if (coverVideoId && !playlist.videos.some((id) => id.toString() === coverVideoId)) {
+        return res.status(400).json({ error: "The cover video must be in the playlist" });
+      }
+
+      if (title !== undefined) playlist.title = title;
+      if (description !== undefined) playlist.description = description;
+      if (coverVideoId !== undefined) playlist.coverVideoId = coverVideoId || undefined;
+      playlist.updatedAt = new Date();
+      await playlist.save();
+
+      res.json(serializePlaylist(playlist));
+    } catch (err) {
+      console.error("Error updating playlist:", err);
+      res.status(500).json({ error: "Error updating playlist" });
+    }
+  }
+);
+
+router.delete(
+  "/playlists/:id",
+  verifyToken,
+  playlistIdParamValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    try {
+      const playlist = await findOwnedPlaylist(req, res);
+      if (!playlist) return;
+
+      if (playlist.cover) await getStorage().delete(playlist.cover);
+      await playlist.deleteOne();
+
+      res.json({ message: "Playlist deleted successfully" });
+    } catch (err) {
+      console.error("Error deleting playlist:", err);
+      res.status(500).json({ error: "Error deleting playlist" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /playlists/{id}/videos:
+ *   post:
+ *     summary: Add a video to a playlist
+ *     tags: [Playlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [videoId]
+ *             properties:
+ *               videoId:
+ *                 type: string
+ *               position:
+ *                 type: integer
+ *                 minimum: 0
+ *                 description: Position of the video, from 0 (at the end by default)
+ *     responses:
+ *       200:
+ *         description: The playlist with its videos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PlaylistWithItems'
+ *       400:
+ *         description: Invalid data, video not yours, or playlist full
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not your playlist
+ *       404:
+ *         description: Playlist not found
+ *       409:
+ *         description: The video is already in the playlist
+ *       500:
+ *         description: Error updating playlist
+ */
+router.post(
+  "/playlists/:id/videos",
+  verifyToken,
+  addPlaylistVideoValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { videoId, position } = req.body;
+
+    try {
+      const playlist = await findOwnedPlaylist(req, res);
+      if (!playlist) return;
+
+      if (playlist.videos.some((id) => id.toString() === videoId)) {
+        return res.status(409).json({ error: "Video already in the playlist" });
+      }
+
+      if (playlist.videos.length >= getMaxPlaylistVideos()) {
+        return res.status(400).json({ error: `A playlist holds at most ${getMaxPlaylistVideos()} videos` });
+      }
+
+      if (!(await ownsVideos(req.userId!, [videoId]))) {
+        return res.status(400).json({ error: "The video does not exist or is not yours" });
+      }
+
+      // The checks are repeated in the filter, so that concurrent additions can't add a video twice or exceed the limit
+      const updated = await Playlist.findOneAndUpdate(
+        {
+          _id: playlist._id,
+          videos: { $ne: videoId },
+          $expr: { $lt: [{ $size: "$videos" }, getMaxPlaylistVideos()] },
+        },
+        {
+          $push: { videos: { $each: [videoId], ...(position !== undefined ? { $position: position } : {}) } },
+          $set: { updatedAt: new Date() },
+        },
+        { new: true }
+      );
+
+      if (!updated) {
+        const current = await Playlist.findById(playlist._id).select("videos");
+        if (!current) {
+          return res.status(404).json({ error: "Playlist not found" });
+        }
+        if (current.videos.some((id) => id.toString() === videoId)) {
+          return res.status(409).json({ error: "Video already in the playlist" });
+        }
+        return res.status(400).json({ error: `A playlist holds at most ${getMaxPlaylistVideos()} videos` });
+      }
+
+      res.json(await serializePlaylistWithItems(updated));
+    } catch (err) {
+      console.error("Error adding video to playlist:", err);
+      res.status(500).json({ error: "Error updating playlist" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /playlists/{id}/videos/{videoId}:
+ *   delete:
+ *     summary: Remove a video from a playlist
+ *     description: The video itself is kept.
+ *     tags: [Playlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: videoId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The playlist with its videos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PlaylistWithItems'
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not your playlist
+ *       404:
+ *         description: Playlist not found, or video not in the playlist
+ *       500:
+ *         description: Error updating playlist
+ */
+router.delete(
+  "/playlists/:id/videos/:videoId",
+  verifyToken,
+  playlistVideoParamValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { videoId } = req.params;
+
+    try {
+      const playlist = await findOwnedPlaylist(req, res);
+      if (!playlist) return;
+
+      if (!playlist.videos.some((id) => id.toString() === videoId)) {
+        return res.status(404).json({ error: "Video not in the playlist" });
+      }
+
+      const updated = await Playlist.findByIdAndUpdate(
+        playlist._id,
+        {
+          $pull: { videos: videoId },
+          $set: { updatedAt: new Date() },
+          ...(playlist.coverVideoId?.toString() === videoId ? { $unset: { coverVideoId: 1 } } : {}),
+        },
+        { new: true }
+      );
+
+      res.json(await serializePlaylistWithItems(updated!));
+    } catch (err) {
+      console.error("Error removing video from playlist:", err);
+      res.status(500).json({ error: "Error updating playlist" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /playlists/{id}/order:
+ *   put:
+ *     summary: Reorder the videos of a playlist
+ *     tags: [Playlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [videos]
+ *             properties:
+ *               videos:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Every video of the playlist, each once, in the new order
+ *     responses:
+ *       200:
+ *         description: The playlist with its videos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PlaylistWithItems'
+ *       400:
+ *         description: Invalid data, or the order doesn't list every video of the playlist once
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not your playlist
+ *       404:
+ *         description: Playlist not found
+ *       409:
+ *         description: The playlist was changed meanwhile
+ *       500:
+ *         description: Error updating playlist
+ */
+router.put(
+  "/playlists/:id/order",
+  verifyToken,
+  reorderPlaylistValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { videos } = req.body;
+
+    try {
+      const playlist = await findOwnedPlaylist(req, res);
+      if (!playlist) return;
+
+      const current = playlist.videos.map((id) => id.toString());
+
+      if (!isSamePlaylistContent(current, videos)) {
+        return res.status(400).json({ error: "The order must list every video of the playlist once", videos: current });
+      }
+
+      // Only update if the content didn't change since it was read
+      const updated = await Playlist.findOneAndUpdate(
+        { _id: playlist._id, videos: { $size: current.length, $all: current } },
+        { $set: { videos, updatedAt: new Date() } },
+        { new: true }
+      );
+
+      if (!updated) {
+        return res.status(409).json({ error: "The playlist was changed meanwhile, reload it and try again" });
+      }
+
+      res.json(await serializePlaylistWithItems(updated));
+    } catch (err) {
+      console.error("Error reordering playlist:", err);
+      res.status(500).json({ error: "Error updating playlist" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /playlists/{id}/cover:
+ *   get:
+ *     summary: Get the cover image of a playlist
+ *     description: The uploaded cover, else the thumbnail of the cover video (the first video by default).
+ *     tags: [Playlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Cover image (WebP)
+ *         content:
+ *           image/webp:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not your playlist
+ *       404:
+ *         description: Playlist not found, or no cover available
+ *       500:
+ *         description: Error fetching cover
+ *   put:
+ *     summary: Upload the cover image of a playlist
+ *     tags: [Playlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               cover:
+ *                 type: string
+ *                 format: binary
+ *                 description: Image file (same formats and size limit as thumbnails)
+ *     responses:
+ *       200:
+ *         description: Cover updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Playlist'
+ *       400:
+ *         description: No image uploaded, or invalid image
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not your playlist
+ *       404:
+ *         description: Playlist not found
+ *       500:
+ *         description: Error saving cover
+ *   delete:
+ *     summary: Remove the uploaded cover of a playlist
+ *     description: The thumbnail of the cover video is used again.
+ *     tags: [Playlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Cover removed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Playlist'
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not your playlist
+ *       404:
+ *         description: Playlist not found
+ *       500:
+ *         description: Error removing cover
+ */
+router.get(
+  "/playlists/:id/cover",
+  verifyToken,
+  playlistIdParamValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    try {
+      const playlist = await findOwnedPlaylist(req, res);
+      if (!playlist) return;
+
+      const key = await findPlaylistCoverKey(playlist);
+      if (!key) {
+        return res.status(404).json({ error: "Cover not available" });
+      }
+
+      const stream = await getStorage().createReadStream(key);
+      stream.on("error", (err) => {
+        console.error(`Error streaming ${key}:`, err);
+        res.destroy(err);
+      });
+      res.setHeader("Content-Type", "image/webp");
+      stream.pipe(res);
+    } catch (err) {
+      console.error("Error fetching playlist cover:", err);
+      res.status(500).json({ error: "Error fetching cover" });
+    }
+  }
+);
+
+router.put(
+  "/playlists/:id/cover",
+  verifyToken,
+  playlistIdParamValidator,
+  validateRequest,
+  makeMulterUploadMiddleware(uploadThumb.single("cover")),
+  async (req: AuthRequest, res) => {
+    const file = req.file;
+
+    try {
+      const playlist = await findOwnedPlaylist(req, res);
+      if (!playlist) {
+        cleanupMulterFiles(req);
+        return;
+      }
+
+      if (!file) {
+        return res.status(400).json({ error: "No cover image uploaded" });
+      }
+
+      let cover: Buffer;
+      try {
+        cover = await sharp(file.path).webp().toBuffer();
+      } catch {
+        return res.status(400).json({ error: "Invalid image" });
+      } finally {
+        fs.promises.unlink(file.path).catch(() => {});
+      }
+
+      const key = playlistCoverKey(playlist._id.toString());
+      await getStorage().writeFile(key, cover, "image/webp");
+
+      playlist.cover = key;
+      playlist.updatedAt = new Date();
+      await playlist.save();
+
+      res.json(serializePlaylist(playlist));
+    } catch (err) {
+      cleanupMulterFiles(req);
+      console.error("Error saving playlist cover:", err);
+      res.status(500).json({ error: "Error saving cover" });
+    }
+  }
+);
+
+router.delete(
+  "/playlists/:id/cover",
+  verifyToken,
+  playlistIdParamValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    try {
+      const playlist = await findOwnedPlaylist(req, res);
+      if (!playlist) return;
+
+      if (playlist.cover) {
+        await getStorage().delete(playlist.cover);
+        playlist.cover = undefined;
+        playlist.updatedAt = new Date();
+        await playlist.save();
+      }
+
+      res.json(serializePlaylist(playlist));
+    } catch (err) {
+      console.error("Error removing playlist cover:", err);
+      res.status(500).json({ error: "Error removing cover" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /playlists/{id}/signed-urls:
+ *   post:
+ *     summary: Generate the signed URLs of every video of a playlist
+ *     description: Same URLs as `POST /videos/{id}/signed-url`, for each video of the playlist in order, valid for 15 minutes. Videos not processed yet are listed without URLs.
+ *     tags: [Playlists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Signed URLs of the videos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 playlistId:
+ *                   type: string
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       position:
+ *                         type: integer
+ *                       videoId:
+ *                         type: string
+ *                       title:
+ *                         type: string
+ *                       duration:
+ *                         type: number
+ *                       videoStatus:
+ *                         type: string
+ *                       streamUrl:
+ *                         type: string
+ *                       dashUrl:
+ *                         type: string
+ *                       packaging:
+ *                         type: string
+ *                       thumbnailUrl:
+ *                         type: string
+ *                       thumbnailsVttUrl:
+ *                         type: string
+ *                       expiresAt:
+ *                         type: integer
+ *                         description: Expiration of the URLs (milliseconds since epoch)
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not your playlist
+ *       404:
+ *         description: Playlist not found
+ *       500:
+ *         description: Error generating signed URLs
+ */
+router.post(
+  "/playlists/:id/signed-urls",
+  verifyToken,
+  playlistIdParamValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    try {
+      const playlist = await findOwnedPlaylist(req, res);
+      if (!playlist) return;
+
+      const baseUrl = getBaseUrl(req);
+      const videos = await getPlaylistVideos(playlist);
+
+      const items = videos.map((file, position) => {
+        const item = {
+          position,
+          videoId: file._id,
+          title: file.title || file.originalname,
+          duration: file.duration,
+          videoStatus: file.videoStatus,
+        };
+        if (file.videoStatus !== "uploaded") return item;
+
+        return { ...item, ...buildPlaybackUrls(baseUrl, file, req.userId!, SIGNED_URL_MINUTES) };
+      });
+
+      res.json({ playlistId: playlist._id, items });
+    } catch (err) {
+      console.error("Error generating playlist signed URLs:", err);
+      res.status(500).json({ error: "Error generating signed URLs" });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,289 @@
+import { Router } from 'express';
+import { File } from "../models/data.model";
+import { WatchProgress } from "../models/watchProgress.model";
+import { verifyToken, AuthRequest } from "../middleware/auth.middleware";
+import { validateRequest } from '../middleware/validateRequest.middleware';
+import { videoIdParamValidator } from '../validators/video.validators';
+import { continueWatchingValidator, saveProgressValidator } from '../validators/progress.validators';
+import {
+  DEFAULT_CONTINUE_WATCHING_LIMIT,
+  getContinueWatching,
+  saveWatchProgress,
+  serializeWatchProgress
+} from '../utils/watchProgress';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     WatchProgress:
+ *       type: object
+ *       properties:
+ *         videoId:
+ *           type: string
+ *         position:
+ *           type: number
+ *           description: Last playback position in seconds (0 if never played)
+ *           example: 754.2
+ *         duration:
+ *           type: number
+ *           description: Duration of the video when the position was saved
+ *         finished:
+ *           type: boolean
+ *           description: Watched to the end (`watchProgress.finishedThreshold` of the duration)
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ */
+
+/**
+ * @swagger
+ * /videos/{id}/progress:
+ *   get:
+ *     summary: Get your playback position in a video
+ *     description: Returns where to resume playback. A video never played has position 0.
+ *     tags: [Watch Progress]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The playback position
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WatchProgress'
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not the owner of the video
+ *       404:
+ *         description: Video not found
+ *       500:
+ *         description: Error fetching progress
+ *   put:
+ *     summary: Save your playback position in a video
+ *     description: Called by the player while playing (e.g. every 10 seconds and on pause). The video is marked finished once the position reaches `watchProgress.finishedThreshold` of its duration, unless `finished` is given.
+ *     tags: [Watch Progress]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [position]
+ *             properties:
+ *               position:
+ *                 type: number
+ *                 example: 754.2
+ *               finished:
+ *                 type: boolean
+ *                 description: Overrides the automatic detection, e.g. when the player reached the end
+ *     responses:
+ *       200:
+ *         description: The saved position
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WatchProgress'
+ *       400:
+ *         description: Invalid parameters
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not the owner of the video
+ *       404:
+ *         description: Video not found
+ *       500:
+ *         description: Error saving progress
+ *   delete:
+ *     summary: Forget your playback position in a video
+ *     description: The video is listed as never watched again.
+ *     tags: [Watch Progress]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Progress deleted
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not the owner of the video
+ *       404:
+ *         description: Video not found
+ *       500:
+ *         description: Error deleting progress
+ */
+router.get(
+  "/videos/:id/progress",
+  verifyToken,
+  videoIdParamValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { id } = req.params;
+
+    try {
+      const fileData = await File.findById(id).select("userId");
+
+      if (!fileData) {
+        return res.status(404).json({ error: "Video not found" });
+      }
+
+      if (fileData.userId.toString() !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to access this video" });
+      }
+
+      const progress = await WatchProgress.findOne({ userId: req.userId, videoId: id });
+      res.json(serializeWatchProgress(id, progress));
+    } catch (err) {
+      console.error("Error fetching watch progress:", err);
+      res.status(500).json({ error: "Error fetching progress" });
+    }
+  }
+);
+
+router.put(
+  "/videos/:id/progress",
+  verifyToken,
+  saveProgressValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { id } = req.params;
+
+    try {
+      const fileData = await File.findById(id);
+
+      if (!fileData) {
+        return res.status(404).json({ error: "Video not found" });
+      }
+
+      if (fileData.userId.toString() !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to access this video" });
+      }
+
+      const progress = await saveWatchProgress(req.userId!, fileData, req.body);
+      res.json(serializeWatchProgress(id, progress));
+    } catch (err) {
+      console.error("Error saving watch progress:", err);
+      res.status(500).json({ error: "Error saving progress" });
+    }
+  }
+);
+
+router.delete(
+  "/videos/:id/progress",
+  verifyToken,
+  videoIdParamValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { id } = req.params;
+
+    try {
+      const fileData = await File.findById(id).select("userId");
+
+      if (!fileData) {
+        return res.status(404).json({ error: "Video not found" });
+      }
+
+      if (fileData.userId.toString() !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to access this video" });
+      }
+
+      await WatchProgress.deleteOne({ userId: req.userId, videoId: id });
+      res.status(204).end();
+    } catch (err) {
+      console.error("Error deleting watch progress:", err);
+      res.status(500).json({ error: "Error deleting progress" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /me/continue-watching:
+ *   get:
+ *     summary: List the videos to resume
+ *     description: The videos you started without finishing them, last played first. Videos being processed are left out.
+ *     tags: [Watch Progress]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Videos to resume
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   _id:
+ *                     type: string
+ *                   title:
+ *                     type: string
+ *                   thumbnail:
+ *                     type: string
+ *                     example: "/videos/thumb/static/507f1f77bcf86cd799439011"
+ *                   duration:
+ *                     type: number
+ *                   position:
+ *                     type: number
+ *                   percentWatched:
+ *                     type: number
+ *                     nullable: true
+ *                   lastWatchedAt:
+ *                     type: string
+ *                     format: date-time
+ *       400:
+ *         description: Invalid parameters
+ *       401:
+ *         description: Missing or invalid token
+ *       500:
+ *         description: Error fetching videos
+ */
+router.get(
+  "/me/continue-watching",
+  verifyToken,
+  continueWatchingValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    try {
+      res.json(await getContinueWatching(req.userId!, Number(req.query.limit) || DEFAULT_CONTINUE_WATCHING_LIMIT));
+    } catch (err) {
+      console.error("Error fetching continue watching:", err);
+      res.status(500).json({ error: "Error fetching videos" });
+    }
+  }
+);
+
+export default router;
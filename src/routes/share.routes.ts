@@ -0,0 +1,590 @@
+import { Router, Request } from 'express';
+import { File, IFile } from "../models/data.model";
+import { ShareLink, IShareLink } from "../models/share.model";
+import { verifyToken, AuthRequest } from "../middleware/auth.middleware";
+import { validateRequest } from '../middleware/validateRequest.middleware';
+import { videoIdParamValidator } from '../validators/video.validators';
+import {
+  accessShareValidator,
+  createShareValidator,
+  refreshShareValidator,
+  shareIdParamValidator,
+  shareTokenParamValidator
+} from '../validators/share.validators';
+import { buildPlaybackUrls, verifySignature } from '../utils/signedUrl';
+import {
+  checkSharePassword,
+  generateShareToken,
+  getShareStatus,
+  getViewerUrlMinutes,
+  hashSharePassword,
+  serializeShareLink,
+  sharePrincipal
+} from '../utils/shareLinks';
+
+const router = Router();
+
+const getBaseUrl = (req: Request) => `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+
+/**
+ * Builds the signed URLs given to the viewer of a share link.
+ * The URLs carry the share principal instead of the owner's user id, so they stop working as soon as the link is revoked.
+ * @param {Request} req - The Express request object
+ * @param {IFile} file - The shared video
+ * @param {IShareLink} share - The share link
+ * @returns {object} The signed stream, DASH, thumbnail and thumbnails track URLs with their expiration
+ */
+const buildViewerUrls = (req: Request, file: IFile, share: IShareLink) => {
+  return buildPlaybackUrls(getBaseUrl(req), file, sharePrincipal(share._id.toString()), getViewerUrlMinutes(share));
+};
+
+/**
+ * @swagger
+ * /videos/{id}/shares:
+ *   post:
+ *     summary: Create a share link
+ *     description: Creates a public link to watch the video without an account. The link can expire, be protected by a password and be limited to a number of views.
+ *     tags: [Shares]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: MongoDB ID of the video
+ *         example: "507f1f77bcf86cd799439011"
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               label:
+ *                 type: string
+ *                 description: Name to recognize the link (e.g. the recipient)
+ *                 example: "Client review"
+ *               password:
+ *                 type: string
+ *                 description: Password required to open the link (4-128 chars)
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Expiration date of the link (never expires if omitted)
+ *               maxViews:
+ *                 type: integer
+ *                 description: Maximum number of times the link can be opened (unlimited if omitted)
+ *                 example: 10
+ *     responses:
+ *       201:
+ *         description: Share link created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ShareLink'
+ *       400:
+ *         description: Invalid data
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not authorized to share this video
+ *       404:
+ *         description: Video not found
+ *       500:
+ *         description: Error creating share link
+ *   get:
+ *     summary: List the share links of a video
+ *     description: Returns every share link of the video, including revoked and expired ones, with their view count and status.
+ *     tags: [Shares]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: MongoDB ID of the video
+ *         example: "507f1f77bcf86cd799439011"
+ *     responses:
+ *       200:
+ *         description: Share links of the video, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ShareLink'
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not authorized to access this video
+ *       404:
+ *         description: Video not found
+ *       500:
+ *         description: Error fetching share links
+ *
+ * components:
+ *   schemas:
+ *     ShareLink:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         videoId:
+ *           type: string
+ *         label:
+ *           type: string
+ *         url:
+ *           type: string
+ *           description: Public URL of the link
+ *           example: "http://localhost:3070/share/Jk3v..."
+ *         token:
+ *           type: string
+ *         hasPassword:
+ *           type: boolean
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         maxViews:
+ *           type: integer
+ *           nullable: true
+ *         views:
+ *           type: integer
+ *         status:
+ *           type: string
+ *           enum: [active, revoked, expired, exhausted]
+ *         lastViewedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+router.post(
+  "/videos/:id/shares",
+  verifyToken,
+  createShareValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { id } = req.params;
+    const userId = req.userId;
+    const { label, password, expiresAt, maxViews } = req.body;
+
+    try {
+      const video = await File.findById(id).select('userId');
+
+      if (!video) {
+        return res.status(404).json({ error: "Video not found" });
+      }
+
+      // Check ownership
+      if (video.userId.toString() !== userId) {
+        return res.status(403).json({ error: "Not authorized to share this video" });
+      }
+
+      const share = await ShareLink.create({
+        videoId: video._id,
+        userId: video.userId,
+        token: generateShareToken(),
+        label: label || "",
+        passwordHash: password ? await hashSharePassword(password) : undefined,
+        expiresAt: expiresAt || undefined,
+        maxViews: maxViews ?? undefined,
+      });
+
+      res.status(201).json(serializeShareLink(share, getBaseUrl(req)));
+    } catch (err) {
+      console.error("Error creating share link:", err);
+      res.status(500).json({ error: "Error creating share link" });
+    }
+  }
+);
+
+router.get(
+  "/videos/:id/shares",
+  verifyToken,
+  videoIdParamValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { id } = req.params;
+    const userId = req.userId;
+
+    try {
+      const video = await File.findById(id).select('userId');
+
+      if (!video) {
+        return res.status(404).json({ error: "Video not found" });
+      }
+
+      // Check ownership
+      if (video.userId.toString() !== userId) {
+        return res.status(403).json({ error: "Not authorized to access this video" });
+      }
+
+      const shares = await ShareLink.find({ videoId: id }).sort({ createdAt: -1 });
+      const baseUrl = getBaseUrl(req);
+
+      res.json(shares.map((share) => serializeShareLink(share, baseUrl)));
+    } catch (err) {
+      console.error("Error fetching share links:", err);
+      res.status(500).json({ error: "Error fetching share links" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /videos/{id}/shares/{shareId}:
+ *   delete:
+ *     summary: Revoke a share link
+ *     description: Revokes the link immediately, including the streaming URLs already given to its viewers. The link stays in the list with the `revoked` status.
+ *     tags: [Shares]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: MongoDB ID of the video
+ *         example: "507f1f77bcf86cd799439011"
+ *       - in: path
+ *         name: shareId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: MongoDB ID of the share link
+ *     responses:
+ *       200:
+ *         description: Share link revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ShareLink'
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not authorized to modify this video
+ *       404:
+ *         description: Video or share link not found
+ *       500:
+ *         description: Error revoking share link
+ */
+router.delete(
+  "/videos/:id/shares/:shareId",
+  verifyToken,
+  shareIdParamValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { id, shareId } = req.params;
+    const userId = req.userId;
+
+    try {
+      const share = await ShareLink.findOne({ _id: shareId, videoId: id });
+
+      if (!share) {
+        return res.status(404).json({ error: "Share link not found" });
+      }
+
+      // Check ownership
+      if (share.userId.toString() !== userId) {
+        return res.status(403).json({ error: "Not authorized to modify this video" });
+      }
+
+      if (!share.revokedAt) {
+        share.revokedAt = new Date();
+        await share.save();
+      }
+
+      res.json(serializeShareLink(share, getBaseUrl(req)));
+    } catch (err) {
+      console.error("Error revoking share link:", err);
+      res.status(500).json({ error: "Error revoking share link" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /share/{token}:
+ *   get:
+ *     summary: Get the public information of a share link
+ *     description: Returns the title of the shared video and whether a password is required, without counting a view. No authentication required.
+ *     tags: [Shares]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Token of the share link
+ *     responses:
+ *       200:
+ *         description: Share link information
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 title:
+ *                   type: string
+ *                 description:
+ *                   type: string
+ *                 duration:
+ *                   type: number
+ *                 requiresPassword:
+ *                   type: boolean
+ *                 expiresAt:
+ *                   type: string
+ *                   format: date-time
+ *                   nullable: true
+ *       404:
+ *         description: Share link not found
+ *       410:
+ *         description: Share link revoked, expired or out of views
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  "/share/:token",
+  shareTokenParamValidator,
+  validateRequest,
+  async (req: Request, res) => {
+    try {
+      const share = await ShareLink.findOne({ token: req.params.token });
+      const video = share ? await File.findById(share.videoId) : null;
+
+      if (!share || !video) {
+        return res.status(404).json({ error: "Share link not found" });
+      }
+
+      const status = getShareStatus(share);
+      if (status !== "active") {
+        return res.status(410).json({ error: `Share link ${status}` });
+      }
+
+      res.json({
+        title: video.title || video.originalname,
+        description: video.description || '',
+        duration: video.duration,
+        requiresPassword: !!share.passwordHash,
+        expiresAt: share.expiresAt || null
+      });
+    } catch (err) {
+      console.error("Error fetching share link:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /share/{token}/access:
+ *   post:
+ *     summary: Open a share link
+ *     description: Checks the password, counts a view and returns signed URLs to stream the shared video. The URLs are valid for 15 minutes (never beyond the expiration of the link) and can be renewed with `/share/{token}/refresh`. No authentication required.
+ *     tags: [Shares]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Token of the share link
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 description: Required if the link is password protected
+ *     responses:
+ *       200:
+ *         description: Signed URLs of the shared video
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 title:
+ *                   type: string
+ *                 description:
+ *                   type: string
+ *                 duration:
+ *                   type: number
+ *                 streamUrl:
+ *                   type: string
+ *                 dashUrl:
+ *                   type: string
+ *                 packaging:
+ *                   type: string
+ *                   enum: [hls, cmaf]
+ *                 thumbnailUrl:
+ *                   type: string
+ *                 thumbnailsVttUrl:
+ *                   type: string
+ *                   description: WebVTT thumbnails track for the seek bar previews, when available
+ *                 expiresAt:
+ *                   type: integer
+ *                   description: Expiration of the signed URLs (milliseconds since epoch)
+ *       401:
+ *         description: Missing or wrong password
+ *       404:
+ *         description: Share link not found
+ *       410:
+ *         description: Share link revoked, expired or out of views
+ *       423:
+ *         description: Video processing not completed yet
+ *       500:
+ *         description: Error opening share link
+ */
+router.post(
+  "/share/:token/access",
+  accessShareValidator,
+  validateRequest,
+  async (req: Request, res) => {
+    const { token } = req.params;
+    const { password } = req.body;
+
+    try {
+      const share = await ShareLink.findOne({ token });
+      const video = share ? await File.findById(share.videoId) : null;
+
+      if (!share || !video) {
+        return res.status(404).json({ error: "Share link not found" });
+      }
+
+      const status = getShareStatus(share);
+      if (status !== "active") {
+        return res.status(410).json({ error: `Share link ${status}` });
+      }
+
+      if (!(await checkSharePassword(share, password))) {
+        return res.status(401).json({ error: password ? "Wrong password" : "Password required" });
+      }
+
+      if (video.videoStatus !== "uploaded" || !video.hls) {
+        return res.status(423).json({ error: "Video processing not completed yet" });
+      }
+
+      // Count the view only if the link is still usable, so concurrent viewers cannot exceed maxViews
+      const now = new Date();
+      const counted = await ShareLink.findOneAndUpdate(
+        {
+          _id: share._id,
+          revokedAt: null,
+          $and: [
+            { $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }] },
+            { $or: [{ maxViews: null }, { $expr: { $lt: ["$views", "$maxViews"] } }] }
+          ]
+        },
+        { $inc: { views: 1 }, $set: { lastViewedAt: now } },
+        { new: true }
+      );
+
+      if (!counted) {
+        return res.status(410).json({ error: "Share link exhausted" });
+      }
+
+      res.json({
+        title: video.title || video.originalname,
+        description: video.description || '',
+        duration: video.duration,
+        ...buildViewerUrls(req, video, counted)
+      });
+    } catch (err) {
+      console.error("Error opening share link:", err);
+      res.status(500).json({ error: "Error opening share link" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /share/{token}/refresh:
+ *   post:
+ *     summary: Renew the signed URLs of a share viewer
+ *     description: Exchanges still-valid signed URL parameters obtained from `/share/{token}/access` for new ones, without counting a view. Fails once the link is revoked or expired.
+ *     tags: [Shares]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Token of the share link
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [expires, signature, uid, kid]
+ *             properties:
+ *               expires:
+ *                 type: string
+ *               signature:
+ *                 type: string
+ *               uid:
+ *                 type: string
+ *               kid:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New signed URLs (same shape as `/share/{token}/access`, without the video information)
+ *       401:
+ *         description: Invalid or expired signed URL parameters
+ *       404:
+ *         description: Share link not found
+ *       410:
+ *         description: Share link revoked or expired
+ *       500:
+ *         description: Error refreshing share access
+ */
+router.post(
+  "/share/:token/refresh",
+  refreshShareValidator,
+  validateRequest,
+  async (req: Request, res) => {
+    const { token } = req.params;
+    const { expires, signature, uid, kid } = req.body;
+
+    try {
+      const share = await ShareLink.findOne({ token });
+      const video = share ? await File.findById(share.videoId) : null;
+
+      if (!share || !video) {
+        return res.status(404).json({ error: "Share link not found" });
+      }
+
+      if (uid !== sharePrincipal(share._id.toString())) {
+        return res.status(401).json({ error: "Invalid signature" });
+      }
+
+      const result = verifySignature(video._id.toString(), { expires: String(expires), signature, uid, kid });
+      if (!result.valid) {
+        return res.status(401).json({ error: result.reason || "Invalid signature" });
+      }
+
+      // Viewers keep their access when the last view was used, but not after revocation or expiry
+      const status = getShareStatus(share);
+      if (status === "revoked" || status === "expired") {
+        return res.status(410).json({ error: `Share link ${status}` });
+      }
+
+      res.json(buildViewerUrls(req, video, share));
+    } catch (err) {
+      console.error("Error refreshing share access:", err);
+      res.status(500).json({ error: "Error refreshing share access" });
+    }
+  }
+);
+
+export default router;
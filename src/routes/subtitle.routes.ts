@@ -0,0 +1,346 @@
+import { Router } from 'express';
+import fs from "fs";
+import { File } from "../models/data.model";
+import { makeMulterUploadMiddleware, uploadSubtitle } from "../server.settings";
+import { verifyToken, AuthRequest } from "../middleware/auth.middleware";
+import { validateRequest } from '../middleware/validateRequest.middleware';
+import { videoIdParamValidator } from '../validators/video.validators';
+import { subtitleLanguageParamValidator, uploadSubtitleValidator } from '../validators/subtitle.validators';
+import { cleanupMulterFiles } from '../utils/cleanupUploads';
+import { publishSubtitles, SubtitleTrack, toWebVtt } from '../utils/subtitles';
+import { getStorage, videoKey } from '../storage';
+import { refreshStorageBytes } from '../utils/storageQuota';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /videos/{id}/subtitles:
+ *   get:
+ *     summary: List the subtitle tracks of a video
+ *     description: Returns the subtitle tracks attached to the video. Tracks are stored as WebVTT in the video folder and listed as `EXT-X-MEDIA` subtitle renditions in the HLS master playlist, so they can be fetched through `/videos/stream/{id}/{file}` with a signed URL.
+ *     tags: [Subtitles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: MongoDB ID of the video
+ *         example: "507f1f77bcf86cd799439011"
+ *     responses:
+ *       200:
+ *         description: Subtitle tracks of the video
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   language:
+ *                     type: string
+ *                     example: "en"
+ *                   label:
+ *                     type: string
+ *                     example: "English"
+ *                   isDefault:
+ *                     type: boolean
+ *                   file:
+ *                     type: string
+ *                     description: WebVTT file name
+ *                     example: "507f1f77bcf86cd799439011_sub_en.vtt"
+ *                   playlist:
+ *                     type: string
+ *                     description: HLS subtitle playlist file name
+ *                     example: "507f1f77bcf86cd799439011_sub_en.m3u8"
+ *                   createdAt:
+ *                     type: string
+ *                     format: date-time
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not authorized to view this video
+ *       404:
+ *         description: Video not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  "/videos/:id/subtitles",
+  verifyToken,
+  videoIdParamValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { id } = req.params;
+    const userId = req.userId;
+
+    try {
+      const video = await File.findById(id).select('subtitles userId');
+
+      if (!video) {
+        return res.status(404).json({ error: "Video not found" });
+      }
+
+      // Check ownership
+      if (video.userId.toString() !== userId) {
+        return res.status(403).json({ error: "Not authorized to view this video" });
+      }
+
+      res.json(video.subtitles || []);
+    } catch (err) {
+      console.error("Error retrieving subtitles:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /videos/{id}/subtitles/{lang}:
+ *   put:
+ *     summary: Upload or replace a subtitle track
+ *     description: Uploads the subtitle track of a language, replacing the existing one if any. SRT files are converted to WebVTT. The HLS master playlist is updated with the track.
+ *     tags: [Subtitles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: MongoDB ID of the video
+ *         example: "507f1f77bcf86cd799439011"
+ *       - in: path
+ *         name: lang
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: BCP 47 language code
+ *         example: "en"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - subtitle
+ *             properties:
+ *               subtitle:
+ *                 type: string
+ *                 format: binary
+ *                 description: Subtitle file (.vtt or .srt, max 2MB)
+ *               label:
+ *                 type: string
+ *                 description: Name shown by the player (defaults to the language code)
+ *                 example: "English"
+ *               isDefault:
+ *                 type: boolean
+ *                 description: Whether players should enable this track by default
+ *     responses:
+ *       200:
+ *         description: Subtitle track replaced
+ *       201:
+ *         description: Subtitle track created
+ *       400:
+ *         description: Invalid data, missing or malformed subtitle file
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not authorized to modify this video
+ *       404:
+ *         description: Video not found
+ *       413:
+ *         description: File too large
+ *       500:
+ *         description: Error saving the subtitle track
+ */
+router.put(
+  "/videos/:id/subtitles/:lang",
+  verifyToken,
+  makeMulterUploadMiddleware(uploadSubtitle.single("subtitle")),
+  uploadSubtitleValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { id, lang } = req.params;
+    const userId = req.userId;
+    const file = req.file;
+    const { label, isDefault } = req.body;
+
+    try {
+      const video = await File.findById(id).lean();
+
+      if (!video) {
+        cleanupMulterFiles(req);
+        return res.status(404).json({ error: "Video not found" });
+      }
+
+      // Check ownership
+      if (video.userId.toString() !== userId) {
+        cleanupMulterFiles(req);
+        return res.status(403).json({ error: "Not authorized to modify this video" });
+      }
+
+      if (!file) {
+        return res.status(400).json({ error: "No subtitle file uploaded" });
+      }
+
+      let vtt: string;
+      try {
+        vtt = toWebVtt(await fs.promises.readFile(file.path), file.originalname);
+      } catch (err) {
+        return res.status(400).json({ error: (err as Error).message });
+      } finally {
+        cleanupMulterFiles(req);
+      }
+
+      const existing = (video.subtitles || []).find((t) => t.language === lang);
+      const track: SubtitleTrack = {
+        language: lang,
+        label: label || existing?.label || lang,
+        isDefault: isDefault ?? existing?.isDefault ?? false,
+        file: `${id}_sub_${lang}.vtt`,
+        playlist: `${id}_sub_${lang}.m3u8`,
+        createdAt: new Date(),
+      };
+
+      await getStorage().writeFile(videoKey(id, track.file), vtt, "text/vtt");
+
+      // Add the track unless the language exists, so that concurrent uploads of other languages are kept
+      let updated = await File.findOneAndUpdate(
+        { _id: id, "subtitles.language": { $ne: lang } },
+        { $push: { subtitles: track } },
+        { new: true }
+      ).lean();
+      const created = !!updated;
+      if (!updated) {
+        updated = await File.findOneAndUpdate(
+          { _id: id, "subtitles.language": lang },
+          { $set: { "subtitles.$": track } },
+          { new: true }
+        ).lean();
+      }
+
+      // Only one track can be the default
+      if (updated && track.isDefault) {
+        updated = await File.findByIdAndUpdate(
+          id,
+          { $set: { "subtitles.$[other].isDefault": false } },
+          { arrayFilters: [{ "other.language": { $ne: lang } }], new: true }
+        ).lean();
+      }
+
+      if (!updated) {
+        return res.status(404).json({ error: "Video not found" });
+      }
+
+      await publishSubtitles(id, updated.hls, updated.subtitles || [], updated.duration || 0);
+      await refreshStorageBytes(id);
+
+      res.status(created ? 201 : 200).json(track);
+    } catch (err) {
+      console.error("Error saving subtitle track:", err);
+      res.status(500).json({ error: "Error saving subtitle track" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /videos/{id}/subtitles/{lang}:
+ *   delete:
+ *     summary: Delete a subtitle track
+ *     description: Removes the subtitle track of a language from the video folder and from the HLS master playlist.
+ *     tags: [Subtitles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: MongoDB ID of the video
+ *         example: "507f1f77bcf86cd799439011"
+ *       - in: path
+ *         name: lang
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: BCP 47 language code
+ *         example: "en"
+ *     responses:
+ *       200:
+ *         description: Subtitle track deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: "Subtitle track deleted successfully"
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not authorized to modify this video
+ *       404:
+ *         description: Video or subtitle track not found
+ *       500:
+ *         description: Error deleting the subtitle track
+ */
+router.delete(
+  "/videos/:id/subtitles/:lang",
+  verifyToken,
+  subtitleLanguageParamValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { id, lang } = req.params;
+    const userId = req.userId;
+
+    try {
+      const video = await File.findById(id).lean();
+
+      if (!video) {
+        return res.status(404).json({ error: "Video not found" });
+      }
+
+      // Check ownership
+      if (video.userId.toString() !== userId) {
+        return res.status(403).json({ error: "Not authorized to modify this video" });
+      }
+
+      const track = (video.subtitles || []).find((t) => t.language === lang);
+      if (!track) {
+        return res.status(404).json({ error: "Subtitle track not found" });
+      }
+
+      const updated = await File.findOneAndUpdate(
+        { _id: id, "subtitles.language": lang },
+        { $pull: { subtitles: { language: lang } } },
+        { new: true }
+      ).lean();
+      if (!updated) {
+        return res.status(404).json({ error: "Subtitle track not found" });
+      }
+
+      await publishSubtitles(id, updated.hls, updated.subtitles || [], updated.duration || 0);
+
+      const storage = getStorage();
+      await storage.delete(videoKey(id, track.file));
+      await storage.delete(videoKey(id, track.playlist));
+      await refreshStorageBytes(id);
+
+      res.json({ message: "Subtitle track deleted successfully" });
+    } catch (err) {
+      console.error("Error deleting subtitle track:", err);
+      res.status(500).json({ error: "Error deleting subtitle track" });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,545 @@
+import { Router } from 'express';
+import fs from "fs";
+import path from "path";
+import { File, IFile } from "../models/data.model";
+import { UploadSession } from "../models/upload.model";
+import { getVideoPath, getServerSettings } from "../server.settings";
+import { verifyToken, AuthRequest } from "../middleware/auth.middleware";
+import { validateRequest } from '../middleware/validateRequest.middleware';
+import { createUploadValidator, patchChunkValidator, uploadIdParamValidator } from '../validators/upload.validators';
+import { enqueueVideoJob } from '../utils/jobQueue';
+import { checkStorageQuota } from '../utils/storageQuota';
+import { emitWebhookEvent } from '../utils/webhooks';
+import {
+  appendChunk,
+  deleteUploadSession,
+  generateUploadFilename,
+  getUploadExpiration,
+  getVideoMimeType
+} from '../utils/resumableUpload';
+
+const router = Router();
+
+// Uploads currently receiving a chunk (one PATCH at a time per upload)
+const activeUploads = new Set<string>();
+
+/**
+ * Loads an upload session and checks that it belongs to the user.
+ * Sends the error response and returns null if the session can't be used.
+ */
+const findOwnedSession = async (req: AuthRequest, res) => {
+  const session = await UploadSession.findById(req.params.uploadId);
+
+  if (!session || session.expiresAt.getTime() <= Date.now()) {
+    res.status(404).json({ error: "Upload not found" });
+    return null;
+  }
+
+  if (session.userId.toString() !== req.userId) {
+    res.status(403).json({ error: "Not authorized to access this upload" });
+    return null;
+  }
+
+  return session;
+};
+
+/**
+ * @swagger
+ * /videos/uploads:
+ *   post:
+ *     summary: Create a resumable upload
+ *     description: Starts a resumable (chunked) upload for a large video. The video metadata is stored with the upload and applied when the upload is finalized. Chunks are then sent with `PATCH /videos/uploads/{uploadId}`. Uploads that are not finalized before `expiresAt` are deleted; every chunk extends the expiration.
+ *     tags: [Uploads]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - filename
+ *               - size
+ *             properties:
+ *               filename:
+ *                 type: string
+ *                 description: Original file name (extension must be an allowed video type)
+ *                 example: "holiday.mp4"
+ *               size:
+ *                 type: integer
+ *                 description: Total size of the file in bytes
+ *                 example: 1073741824
+ *               title:
+ *                 type: string
+ *                 example: "My video"
+ *                 maxLength: 150
+ *               description:
+ *                 type: string
+ *                 maxLength: 2000
+ *               tags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               category:
+ *                 type: string
+ *                 maxLength: 50
+ *               ladder:
+ *                 type: array
+ *                 description: Optional transcoding ladder (profile names or custom profiles), same as `POST /videos`
+ *                 items: {}
+ *                 example: ["720p", "480p"]
+ *               packaging:
+ *                 type: string
+ *                 enum: [hls, cmaf]
+ *                 description: Optional packaging, same as `POST /videos`
+ *     responses:
+ *       201:
+ *         description: Upload created
+ *         headers:
+ *           Location:
+ *             schema:
+ *               type: string
+ *             description: URL of the upload, used for PATCH and HEAD requests
+ *           Upload-Offset:
+ *             schema:
+ *               type: integer
+ *             description: Current offset (always 0)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 uploadId:
+ *                   type: string
+ *                 offset:
+ *                   type: integer
+ *                 size:
+ *                   type: integer
+ *                 expiresAt:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Invalid data
+ *       401:
+ *         description: Missing or invalid token
+ *       413:
+ *         description: File too large or storage quota exceeded
+ *       500:
+ *         description: Error creating the upload
+ */
+router.post(
+  "/videos/uploads",
+  verifyToken,
+  createUploadValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { filename, size, title = "", description = "", category = "", tags, ladder, packaging } = req.body;
+
+    const { maxResumableFileSize } = getServerSettings().limits;
+
+    if (size > maxResumableFileSize) {
+      return res.status(413).json({
+        error: "File too large",
+        message: `File must be maximum ${maxResumableFileSize} bytes`
+      });
+    }
+
+    try {
+      // The declared size is reserved until the upload is finalized or expires
+      const { allowed, usage } = await checkStorageQuota(req.userId!, size);
+      if (!allowed) {
+        return res.status(413).json({ error: "Storage quota exceeded", usage });
+      }
+
+      const partialFilename = generateUploadFilename();
+
+      await fs.promises.mkdir(getVideoPath(), { recursive: true });
+      await fs.promises.writeFile(path.join(getVideoPath(), partialFilename), "");
+
+      const session = await UploadSession.create({
+        userId: req.userId,
+        originalname: filename,
+        filename: partialFilename,
+        mimetype: getVideoMimeType(filename),
+        size,
+        title: title || "",
+        description: description || "",
+        category: category || "",
+        tags: Array.isArray(tags) ? tags : [],
+        ladder: Array.isArray(ladder) ? ladder : undefined,
+        packaging: packaging || undefined,
+        expiresAt: getUploadExpiration(),
+      });
+
+      res.setHeader("Location", `/videos/uploads/${session._id}`);
+      res.setHeader("Upload-Offset", "0");
+      res.setHeader("Upload-Length", String(size));
+
+      res.status(201).json({
+        uploadId: session._id,
+        offset: 0,
+        size,
+        expiresAt: session.expiresAt,
+      });
+    } catch (err) {
+      console.error("Error creating upload:", err);
+      res.status(500).json({ error: "Error creating upload" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /videos/uploads/{uploadId}:
+ *   head:
+ *     summary: Get the current offset of a resumable upload
+ *     description: Returns the number of bytes already received in the `Upload-Offset` header. Clients call this after a dropped connection to know where to resume.
+ *     tags: [Uploads]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uploadId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Current upload state
+ *         headers:
+ *           Upload-Offset:
+ *             schema:
+ *               type: integer
+ *             description: Bytes received so far
+ *           Upload-Length:
+ *             schema:
+ *               type: integer
+ *             description: Total size of the upload
+ *           Upload-Expires:
+ *             schema:
+ *               type: string
+ *             description: Expiration date of the upload
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not authorized to access this upload
+ *       404:
+ *         description: Upload not found or expired
+ */
+router.head(
+  "/videos/uploads/:uploadId",
+  verifyToken,
+  uploadIdParamValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    try {
+      const session = await findOwnedSession(req, res);
+      if (!session) return;
+
+      res.setHeader("Cache-Control", "no-store");
+      res.setHeader("Upload-Offset", String(session.offset));
+      res.setHeader("Upload-Length", String(session.size));
+      res.setHeader("Upload-Expires", session.expiresAt.toUTCString());
+      res.status(200).end();
+    } catch (err) {
+      console.error("Error retrieving upload:", err);
+      res.status(500).end();
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /videos/uploads/{uploadId}:
+ *   patch:
+ *     summary: Upload a chunk of a resumable upload
+ *     description: Appends the request body to the upload. The `Upload-Offset` header must match the current offset of the upload (see HEAD). If the connection drops, the bytes already received are kept.
+ *     tags: [Uploads]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uploadId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: Upload-Offset
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Offset at which this chunk starts
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/offset+octet-stream:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *     responses:
+ *       204:
+ *         description: Chunk received
+ *         headers:
+ *           Upload-Offset:
+ *             schema:
+ *               type: integer
+ *             description: New offset after this chunk
+ *       400:
+ *         description: Invalid headers
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not authorized to access this upload
+ *       404:
+ *         description: Upload not found or expired
+ *       409:
+ *         description: Offset mismatch, or another chunk is being uploaded
+ *       413:
+ *         description: Chunk exceeds the declared upload size
+ *       500:
+ *         description: Error writing the chunk
+ */
+router.patch(
+  "/videos/uploads/:uploadId",
+  verifyToken,
+  patchChunkValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { uploadId } = req.params;
+    const offset = Number(req.headers["upload-offset"]);
+
+    if (activeUploads.has(uploadId)) {
+      return res.status(409).json({ error: "Another chunk is being uploaded" });
+    }
+
+    activeUploads.add(uploadId);
+
+    try {
+      const session = await findOwnedSession(req, res);
+      if (!session) return;
+
+      if (offset !== session.offset) {
+        res.setHeader("Upload-Offset", String(session.offset));
+        return res.status(409).json({ error: "Offset mismatch", offset: session.offset });
+      }
+
+      const result = await appendChunk(session, req);
+
+      await UploadSession.findByIdAndUpdate(uploadId, {
+        offset: result.offset,
+        expiresAt: getUploadExpiration(),
+      });
+
+      res.setHeader("Upload-Offset", String(result.offset));
+
+      if (result.overflow) {
+        return res.status(413).json({
+          error: "Chunk exceeds upload size",
+          offset: result.offset
+        });
+      }
+
+      res.status(204).end();
+    } catch (err) {
+      console.error("Error writing upload chunk:", err);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Error writing chunk" });
+      }
+    } finally {
+      activeUploads.delete(uploadId);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /videos/uploads/{uploadId}/finalize:
+ *   post:
+ *     summary: Finalize a resumable upload
+ *     description: Completes an upload whose offset reached its size. The video is created with the metadata given at creation and processed exactly like `POST /videos`.
+ *     tags: [Uploads]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uploadId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Video created and processing
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 result:
+ *                   type: object
+ *                   properties:
+ *                     ok:
+ *                       type: number
+ *                 op:
+ *                   type: object
+ *                   description: The created video (same shape as `POST /videos`)
+ *                 insertedCount:
+ *                   type: number
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not authorized to access this upload
+ *       404:
+ *         description: Upload not found or expired
+ *       409:
+ *         description: Upload is not complete, or is already being finalized
+ *       500:
+ *         description: Error finalizing the upload
+ */
+router.post(
+  "/videos/uploads/:uploadId/finalize",
+  verifyToken,
+  uploadIdParamValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { uploadId } = req.params;
+
+    if (activeUploads.has(uploadId)) {
+      return res.status(409).json({ error: "A chunk is still being uploaded" });
+    }
+
+    let claimed = false;
+    let doc: IFile | undefined;
+
+    try {
+      const session = await findOwnedSession(req, res);
+      if (!session) return;
+
+      if (session.offset < session.size) {
+        return res.status(409).json({
+          error: "Upload is not complete",
+          offset: session.offset,
+          size: session.size
+        });
+      }
+
+      // Claim the upload atomically, so that concurrent finalizations create a single video
+      claimed = !!(await UploadSession.findOneAndUpdate(
+        { _id: session._id, finalizing: { $ne: true } },
+        { $set: { finalizing: true } }
+      ));
+      if (!claimed) {
+        return res.status(409).json({ error: "Upload is already being finalized" });
+      }
+
+      doc = await File.create({
+        fieldname: "videos",
+        originalname: session.originalname,
+        encoding: "7bit",
+        mimetype: session.mimetype,
+        destination: `${getVideoPath()}/`,
+        filename: session.filename,
+        path: path.join(getVideoPath(), session.filename),
+        size: session.size,
+        userId: session.userId,
+        videoStatus: "inProgress",
+        title: session.title || "",
+        description: session.description || "",
+        tags: session.tags || [],
+        category: session.category || "",
+        ladder: session.ladder && session.ladder.length > 0 ? session.ladder : undefined,
+        packaging: session.packaging,
+      });
+
+      await enqueueVideoJob(doc);
+
+      // The video is queued: the upload stays claimed even if its session can't be removed
+      await deleteUploadSession(session, true).catch((err) => {
+        console.error(`Error deleting finalized upload ${uploadId}:`, err);
+      });
+
+      emitWebhookEvent("video.created", doc.userId.toString(), { videoId: doc._id.toString(), title: doc.title, videoStatus: doc.videoStatus });
+
+      const op = {
+        ...doc.toObject(),
+        permalink: `https://${req.headers.host}${req.baseUrl}/videos/${doc._id}`,
+      };
+
+      res.json({
+        result: { ok: 1 },
+        op,
+        insertedCount: 1,
+      });
+    } catch (err) {
+      console.error("Error finalizing upload:", err);
+      // Remove the video without a job and release the claim, so that the upload can be finalized again
+      if (claimed) {
+        try {
+          if (doc) await File.findByIdAndDelete(doc._id);
+          await UploadSession.updateOne({ _id: uploadId }, { $set: { finalizing: false } });
+        } catch (undoErr) {
+          console.error(`Error releasing upload ${uploadId}:`, undoErr);
+        }
+      }
+      res.status(500).json({ error: "Error finalizing upload" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /videos/uploads/{uploadId}:
+ *   delete:
+ *     summary: Abort a resumable upload
+ *     description: Deletes the upload and the data received so far.
+ *     tags: [Uploads]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uploadId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Upload deleted
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not authorized to access this upload
+ *       404:
+ *         description: Upload not found or expired
+ *       409:
+ *         description: A chunk is being uploaded, or the upload is being finalized
+ *       500:
+ *         description: Error deleting the upload
+ */
+router.delete(
+  "/videos/uploads/:uploadId",
+  verifyToken,
+  uploadIdParamValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    if (activeUploads.has(req.params.uploadId)) {
+      return res.status(409).json({ error: "A chunk is still being uploaded" });
+    }
+
+    try {
+      const session = await findOwnedSession(req, res);
+      if (!session) return;
+
+      if (session.finalizing) {
+        return res.status(409).json({ error: "Upload is being finalized" });
+      }
+
+      await deleteUploadSession(session);
+      res.status(204).end();
+    } catch (err) {
+      console.error("Error deleting upload:", err);
+      res.status(500).json({ error: "Error deleting upload" });
+    }
+  }
+);
+
+export default router;
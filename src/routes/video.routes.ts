@@ -1,21 +1,61 @@
 import { Router, Request, Response } from 'express';
-import  fs from "fs";
+import { matchedData } from 'express-validator';
 import  path from "path";
-import { File } from "../models/data.model";
-import { VIDEO_PATH, makeMulterUploadMiddleware, uploadThumb, uploadVideoWithThumb } from "../server.settings";
+import { File, IFile } from "../models/data.model";
+import { getServerSettings, makeMulterUploadMiddleware, uploadThumb, uploadVideoWithThumb } from "../server.settings";
 import { verifyToken, AuthRequest, verifySignedUrl } from "../middleware/auth.middleware";
 import * as videoUtils from '../utils/videoUtils';
-import { generateSignedUrl } from '../utils/signedUrl';
+import { buildPlaybackUrls, formatSignedQuery, generateSignedUrl, getScopedVariants, restrictMasterPlaylist, signPlaylistUris } from '../utils/signedUrl';
 import { ENABLE_LOGS } from '../config/env';
-import { updateVideoValidator, uploadVideoValidator, videoIdParamValidator } from '../validators/video.validators';
+import {
+  animatedPreviewValidator,
+  listVideosValidator,
+  refreshTokenValidator,
+  reprocessVideoValidator,
+  signedUrlValidator,
+  thumbnailCandidatesValidator,
+  thumbnailFrameValidator,
+  updateVideoValidator,
+  uploadVideoValidator,
+  videoIdParamValidator
+} from '../validators/video.validators';
 import { validateRequest } from '../middleware/validateRequest.middleware';
 import { cleanupMulterFiles } from '../utils/cleanupUploads';
+import { enqueueVideoJob, reprocessVideo } from '../utils/jobQueue';
+import { getLastProgress, onShutdown, subscribeProgress, ProcessingEvent, ProcessingStage } from '../utils/processingEvents';
+import { getStorage, getContentType, videoKey, StorageRange } from '../storage';
+import { canViewVideo } from '../utils/shareLinks';
+import { recordSegmentFetch } from '../utils/analytics';
+import { checkStorageQuota, refreshStorageBytes } from '../utils/storageQuota';
+import { emitWebhookEvent } from '../utils/webhooks';
+import { DEFAULT_THUMBNAIL_CANDIDATES, THUMBNAIL_CANDIDATE_WIDTH } from '../utils/thumbnails';
+import { enforceStorageQuota } from '../middleware/quota.middleware';
+import { buildVideoListPipeline, encodeCursor, VideoListQuery, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '../utils/videoQuery';
 
 type MulterFile = Express.Multer.File;
 
 
 const router = Router();
 
+// Names of the files served by the stream route: playlists, manifests, segments and subtitles
+const STREAM_FILE_NAME = /^[\w-][\w.-]*$/;
+
+/**
+ * Streams a stored object (or a byte range of it) to the response.
+ * Errors happening after the headers were sent abort the response.
+ * @param {Response} res - The Express response object
+ * @param {string} key - The storage key of the object
+ * @param {StorageRange} range - Optional byte range
+ */
+const pipeStoredFile = async (res: Response, key: string, range?: StorageRange) => {
+  const stream = await getStorage().createReadStream(key, range);
+  stream.on("error", (err) => {
+    console.error(`Error streaming ${key}:`, err);
+    res.destroy(err);
+  });
+  stream.pipe(res);
+};
+
 /**
  * @swagger
  * /videos:
@@ -61,6 +101,15 @@ const router = Router();
  *                 description: Video category
  *                 example: "programming"
  *                 maxLength: 50
+ *               ladder:
+ *                 type: string
+ *                 description: Optional transcoding ladder for this video, as a JSON array or comma-separated list. Items are names of profiles configured in `transcoding.ladder` or custom profiles `{ "height", "videoBitrate" }` (kbps). Defaults to the configured ladder. Profiles above the source resolution are skipped.
+ *                 example: "720p,480p"
+ *               packaging:
+ *                 type: string
+ *                 enum: [hls, cmaf]
+ *                 description: Optional segment packaging. "hls" produces MPEG-TS segments with an HLS playlist; "cmaf" produces fragmented-MP4 segments shared by an HLS master playlist and a DASH manifest. Defaults to `transcoding.packaging`.
+ *                 example: "cmaf"
  *     responses:
  *       200:
  *         description: Video uploaded successfully and processing
@@ -106,13 +155,14 @@ const router = Router();
  *       401:
  *         description: Missing or invalid token
  *       413:
- *         description: File too large
+ *         description: File too large or storage quota exceeded
  *       500:
  *         description: Error during upload
  */
 router.post(
   "/videos",
   verifyToken,
+  enforceStorageQuota,
   makeMulterUploadMiddleware(
     uploadVideoWithThumb.fields([
       { name: 'videos', maxCount: 1 },
@@ -135,15 +185,17 @@ router.post(
     const videoFile = files.videos[0];
     const thumbnailFile = files.thumbnail?.[0];
 
-    if (thumbnailFile && thumbnailFile.size > 5 * 1024 * 1024) {
+    const { maxThumbnailSize } = getServerSettings().limits;
+
+    if (thumbnailFile && thumbnailFile.size > maxThumbnailSize) {
       cleanupMulterFiles(req);
       return res.status(413).json({ 
         error: "Thumbnail too large",
-        message: "Thumbnail must be maximum 5 MB" 
+        message: `Thumbnail must be maximum ${maxThumbnailSize} bytes` 
       });
     }
 
-    const { title = "", description = "", category = "", tags } = req.body;
+    const { title = "", description = "", category = "", tags, ladder, packaging } = req.body;
 
     const data = {
       ...videoFile,
@@ -153,19 +205,36 @@ router.post(
       description: description || "",
       tags: Array.isArray(tags) ? tags : [],
       category: category || "",
+      ladder: Array.isArray(ladder) ? ladder : undefined,
+      packaging: packaging || undefined,
     };
 
+    let doc: IFile | undefined;
+
     try {
-      const doc = await File.create(data);
-      // Fire-and-forget async processing
+      // Concurrent uploads can pass the early check together: check again with the received sizes
+      const { allowed, usage } = await checkStorageQuota(userId!, videoFile.size + (thumbnailFile?.size || 0));
+      if (!allowed) {
+        cleanupMulterFiles(req);
+        return res.status(413).json({ error: "Storage quota exceeded", usage });
+      }
 
-      videoUtils.createVideo(doc, thumbnailFile?.path).catch((err) => {
-        console.error("Video processing failed:", err);
-      });
+      doc = await File.create(data);
+
+      // Persistent async processing (picked up by the job queue)
+      try {
+        await enqueueVideoJob(doc, { customThumbnailPath: thumbnailFile?.path });
+      } catch (err) {
+        // Without a job the video would stay "inProgress" forever
+        await File.findByIdAndDelete(doc._id);
+        doc = undefined;
+        throw err;
+      }
+      emitWebhookEvent("video.created", userId!, { videoId: doc._id.toString(), title: doc.title, videoStatus: doc.videoStatus });
 
       const op = {
         ...doc.toObject(),
-        permalink: `https://${req.headers.host}/videos/${doc._id}`,
+        permalink: `https://${req.headers.host}${req.baseUrl}/videos/${doc._id}`,
       };
 
       res.json({
@@ -175,6 +244,8 @@ router.post(
       });
     } catch (e) {
       console.error('MongoDB insert error:', e);
+      // Once the video exists, the received files are its own
+      if (!doc) cleanupMulterFiles(req);
       res.status(400).json({ error: "Insert failed", details: e });
     }
   }
@@ -268,6 +339,8 @@ router.patch(
       // Create custom thumbnail in the background
       videoUtils
         .createCustomThumbnail(file.path, id)
+        .then(() => refreshStorageBytes(id))
+        .then(() => emitWebhookEvent("thumbnail.updated", userId!, { videoId: id, custom_thumbnail: `${id}_custom.webp` }))
         .catch((err) => {
           console.error("Error creating custom thumbnail:", err);
         });
@@ -282,6 +355,195 @@ router.patch(
 );
 
 
+/**
+ * @swagger
+ * /videos/thumb/candidates/{id}:
+ *   get:
+ *     summary: Get candidate frames for the thumbnail
+ *     description: Extracts evenly spaced frames of the video and returns them as small WebP previews, with their timestamps. Pick one with `PATCH /videos/thumb/frame/{id}`.
+ *     tags: [Videos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "507f1f77bcf86cd799439011"
+ *       - in: query
+ *         name: count
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 12
+ *           default: 6
+ *     responses:
+ *       200:
+ *         description: Candidate frames, in chronological order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   time:
+ *                     type: number
+ *                     example: 12.5
+ *                     description: Timestamp of the frame in seconds
+ *                   image:
+ *                     type: string
+ *                     example: "data:image/webp;base64,UklGR..."
+ *                     description: Preview of the frame (320px wide) as a data URL
+ *       400:
+ *         description: Invalid parameters
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not authorized to modify this video
+ *       404:
+ *         description: Video not found
+ *       409:
+ *         description: The video is not processed yet
+ *       500:
+ *         description: Error extracting frames
+ */
+router.get(
+  "/videos/thumb/candidates/:id",
+  verifyToken,
+  thumbnailCandidatesValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { id } = req.params;
+    const count = Number(req.query.count) || DEFAULT_THUMBNAIL_CANDIDATES;
+
+    try {
+      const video = await File.findById(id);
+
+      if (!video) {
+        return res.status(404).json({ error: "Video not found" });
+      }
+
+      // Check ownership
+      if (video.userId.toString() !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to modify this video" });
+      }
+
+      if (video.videoStatus !== "uploaded") {
+        return res.status(409).json({ error: "Video is not processed yet" });
+      }
+
+      res.json(await videoUtils.extractThumbnailCandidates(video, count, THUMBNAIL_CANDIDATE_WIDTH));
+    } catch (err) {
+      console.error("Error extracting thumbnail candidates:", err);
+      res.status(500).json({ error: "Error extracting frames" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /videos/thumb/frame/{id}:
+ *   patch:
+ *     summary: Use a frame of the video as thumbnail
+ *     description: |
+ *       Extracts the frame at the given timestamp as the static thumbnail of the video.
+ *       It replaces the custom thumbnail, if any, and is kept when the video is reprocessed.
+ *     tags: [Videos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "507f1f77bcf86cd799439011"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [time]
+ *             properties:
+ *               time:
+ *                 type: number
+ *                 example: 12.5
+ *                 description: Timestamp of the frame in seconds, e.g. from `GET /videos/thumb/candidates/{id}`
+ *     responses:
+ *       200:
+ *         description: Thumbnail updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: "Thumbnail updated"
+ *                 static_thumbnail:
+ *                   type: string
+ *                   example: "507f1f77bcf86cd799439011.webp"
+ *                 thumbnailTime:
+ *                   type: number
+ *                   example: 12.5
+ *       400:
+ *         description: Invalid timestamp, or beyond the end of the video
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not authorized to modify this video
+ *       404:
+ *         description: Video not found
+ *       409:
+ *         description: The video is not processed yet
+ *       500:
+ *         description: Error extracting the frame
+ */
+router.patch(
+  "/videos/thumb/frame/:id",
+  verifyToken,
+  thumbnailFrameValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { id } = req.params;
+    const { time } = req.body;
+    const userId = req.userId;
+
+    try {
+      const video = await File.findById(id);
+
+      if (!video) {
+        return res.status(404).json({ error: "Video not found" });
+      }
+
+      // Check ownership
+      if (video.userId.toString() !== userId) {
+        return res.status(403).json({ error: "Not authorized to modify this video" });
+      }
+
+      if (video.videoStatus !== "uploaded") {
+        return res.status(409).json({ error: "Video is not processed yet" });
+      }
+
+      if (video.duration && time > video.duration) {
+        return res.status(400).json({ error: `time must be at most the duration of the video (${video.duration}s)` });
+      }
+
+      const thumbnailTime = await videoUtils.setThumbnailFromFrame(video, time);
+      await refreshStorageBytes(id);
+      emitWebhookEvent("thumbnail.updated", userId!, { videoId: id, static_thumbnail: `${id}.webp`, thumbnailTime });
+
+      res.json({ message: "Thumbnail updated", static_thumbnail: `${id}.webp`, thumbnailTime });
+    } catch (err) {
+      console.error("Error extracting thumbnail frame:", err);
+      res.status(500).json({ error: "Error extracting the frame" });
+    }
+  }
+);
+
 /**
  * @swagger
  * /videos/{id}:
@@ -372,6 +634,8 @@ router.patch(
  *                   type: string
  *                 animated_thumbnail:
  *                   type: string
+ *                 sprite_thumbnails:
+ *                   type: string
  *                 custom_thumbnail:
  *                   type: string
  *                 duration:
@@ -439,7 +703,7 @@ router.patch(
  * /videos/stream/{id}/{file}:
  *   get:
  *     summary: Stream HLS video or segments
- *     description: Serves the master playlist file (.m3u8) or video segments (.ts) for HLS streaming. Uses signed URL authentication via query parameters (no JWT required).
+ *     description: Serves the master playlist file (.m3u8), the variant playlists and video segments (.ts) for HLS streaming. For videos packaged as CMAF it also serves the DASH manifest (.mpd) and the fMP4 segments (.m4s) shared by both. Uses signed URL authentication via query parameters (no JWT required). The URIs inside the HLS playlists carry the signed parameters of the request, so players only need the master URL.
  *     tags: [Videos]
  *     parameters:
  *       - in: path
@@ -454,7 +718,7 @@ router.patch(
  *         required: false
  *         schema:
  *           type: string
- *         description: Specific file name (segment .ts or playlist .m3u8). If omitted, serves main master playlist
+ *         description: Specific file name (segment .ts/.m4s, playlist .m3u8 or manifest .mpd). If omitted, redirects to the master playlist
  *         example: "507f1f77bcf86cd799439011_v0_001.ts"
  *       - in: query
  *         name: expires
@@ -475,8 +739,33 @@ router.patch(
  *         required: true
  *         schema:
  *           type: string
- *         description: User ID who owns the video
+ *         description: User ID who owns the video, or `share-<shareId>` for URLs issued by a share link
  *         example: "507f1f77bcf86cd799439011"
+ *       - in: query
+ *         name: kid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Id of the key that signed the URL
+ *         example: "default"
+ *       - in: query
+ *         name: path
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Signed path prefix the URL is limited to
+ *       - in: query
+ *         name: rendition
+ *         required: false
+ *         schema:
+ *           type: integer
+ *         description: Signed renditions (comma-separated variant indexes) the URL is limited to. The master playlist is then reduced to them
+ *       - in: query
+ *         name: ip
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Signed client IP address the URL is bound to
  *     responses:
  *       200:
  *         description: Video stream or playlist
@@ -491,6 +780,18 @@ router.patch(
  *               type: string
  *               format: binary
  *               description: HLS video segment (.ts)
+ *           application/dash+xml:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *               description: DASH manifest (.mpd), CMAF packaging only
+ *           video/iso.segment:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *               description: CMAF/fMP4 segment (.m4s), CMAF packaging only
+ *       400:
+ *         description: Invalid file name (only plain file names of the video folder are served)
  *       401:
  *         description: Missing or invalid signature parameters
  *         content:
@@ -512,7 +813,7 @@ router.patch(
  * /videos/stream/{id}:
  *   get:
  *     summary: Stream main HLS master playlist
- *     description: Serves the master playlist file (.m3u8) of the video. Uses signed URL authentication.
+ *     description: Redirects to the master playlist file (.m3u8) of the video, `/videos/stream/{id}/{file}`, with the same signed parameters, so that its relative URIs resolve inside the video folder. Uses signed URL authentication.
  *     tags: [Videos]
  *     parameters:
  *       - in: path
@@ -541,11 +842,36 @@ router.patch(
  *         required: true
  *         schema:
  *           type: string
- *         description: User ID who owns the video
+ *         description: User ID who owns the video, or `share-<shareId>` for URLs issued by a share link
  *         example: "507f1f77bcf86cd799439011"
+ *       - in: query
+ *         name: kid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Id of the key that signed the URL
+ *         example: "default"
+ *       - in: query
+ *         name: path
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Signed path prefix the URL is limited to
+ *       - in: query
+ *         name: rendition
+ *         required: false
+ *         schema:
+ *           type: integer
+ *         description: Signed renditions (comma-separated variant indexes) the URL is limited to. The master playlist is then reduced to them
+ *       - in: query
+ *         name: ip
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Signed client IP address the URL is bound to
  *     responses:
- *       200:
- *         description: Master HLS playlist
+ *       302:
+ *         description: Redirect to the master HLS playlist
  *       401:
  *         description: Invalid signed URL
  *       403:
@@ -562,6 +888,11 @@ router.get(
     const { id, file } = req.params;
     const userId = req.userId;
 
+    // Only plain file names of the video folder (no "..", no separators)
+    if (file && !STREAM_FILE_NAME.test(file)) {
+      return res.status(400).json({ error: "Invalid file name" });
+    }
+
     try {
       const fileData = await File.findById(id);
       
@@ -569,8 +900,8 @@ router.get(
         return res.status(404).json({ error: "Video not available" });
       }
 
-      // Check ownership
-      if (fileData.userId.toString() !== userId) {
+      // Check ownership (or an active share link of the video)
+      if (!(await canViewVideo(fileData, userId))) {
         return res.status(403).json({ error: "Not authorized to view this video" });
       }
 
@@ -580,27 +911,33 @@ router.get(
           .json({ error: "Video processing not completed yet" });
       }
 
-      const baseDir = path.join(VIDEO_PATH, id);
-      const filePath = file
-        ? path.join(baseDir, file)
-        : path.join(baseDir, fileData.hls); // .m3u8 file
+      // The URIs of the master playlist are relative to its folder: serve it under its own name
+      if (!file) {
+        return res.redirect(302, `${req.baseUrl}/videos/stream/${id}/${fileData.hls}${formatSignedQuery(req.signedUrl!)}`);
+      }
+
+      const key = videoKey(id, file);
 
-      if (!fs.existsSync(filePath)) {
+      if (!(await getStorage().exists(key))) {
         return res.status(404).json({ error: "File not found" });
       }
 
-      const MIME_TYPES: { [key: string]: string } = {
-        ts: "video/MP2T",
-        m3u8: "application/vnd.apple.mpegurl",
-      };
+      // Not awaited: recording the view must not delay playback
+      recordSegmentFetch(fileData, { uid: userId!, ip: req.ip, userAgent: req.get("user-agent") }, file);
 
-      const ext = path.extname(filePath).slice(1);
-      res.setHeader(
-        "Content-Type",
-        MIME_TYPES[ext] || "application/octet-stream"
-      );
+      res.setHeader("Content-Type", getContentType(key));
 
-      fs.createReadStream(filePath).pipe(res);
+      // Playlists reference the other files by relative URI: sign them with the parameters of this request
+      if (key.endsWith(".m3u8")) {
+        let playlist = (await getStorage().readFile(key)).toString("utf8");
+        if (req.signedUrl!.rendition && key === videoKey(id, fileData.hls)) {
+          playlist = restrictMasterPlaylist(playlist, id, getScopedVariants(req.signedUrl!.rendition));
+        }
+        res.setHeader("Cache-Control", "private, no-store");
+        return res.send(signPlaylistUris(playlist, formatSignedQuery(req.signedUrl!)));
+      }
+
+      await pipeStoredFile(res, key);
     } catch (e) {
       res.status(500).json({ error: "Error streaming video", details: e });
     }
@@ -641,8 +978,15 @@ router.get(
  *         required: true
  *         schema:
  *           type: string
- *         description: User ID who generated the signed URL
+ *         description: User ID who generated the signed URL, or `share-<shareId>` for URLs issued by a share link
  *         example: "507f1f77bcf86cd799439011"
+ *       - in: query
+ *         name: kid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Id of the key that signed the URL
+ *         example: "default"
  *     responses:
  *       200:
  *         description: Thumbnail image in WebP format
@@ -690,7 +1034,7 @@ router.get(
  *                     - "Thumbnail file not found"
  *                   example: "Thumbnail not available"
  *       500:
- *         description: Internal error - thumbnail unexpectedly missing
+ *         description: Internal error - thumbnail unexpectedly missing, or storage error
  *         content:
  *           application/json:
  *             schema:
@@ -706,36 +1050,164 @@ router.get(
   async (req: AuthRequest, res) => {
     const id = req.params.id;
     const userId = req.userId;
-    
-    const file = await File.findById(id);
 
-    if (!file || file.videoStatus !== "uploaded") {
-      return res.status(404).json({ error: "Thumbnail not available" });
-    }
+    try {
+      const file = await File.findById(id);
 
-    // Check ownership
-    if (file.userId.toString() !== userId) {
-      return res.status(403).json({ error: "Not authorized to view this video" });
-    }
+      if (!file || file.videoStatus !== "uploaded") {
+        return res.status(404).json({ error: "Thumbnail not available" });
+      }
 
-    // Check custom thumbnail exists
-    const customThumbPath = path.join(VIDEO_PATH, id, `${id}_custom.webp`);
-    if (fs.existsSync(customThumbPath)) {
-      res.setHeader("Content-Type", "image/webp");
-      return fs.createReadStream(customThumbPath).pipe(res);
-    }
+      // Check ownership (or an active share link of the video)
+      if (!(await canViewVideo(file, userId))) {
+        return res.status(403).json({ error: "Not authorized to view this video" });
+      }
 
-    if (!file.static_thumbnail) {
-      return res.status(500).json({ error: "Static thumbnail missing unexpectedly" });
-    }
+      const storage = getStorage();
+
+      // Check custom thumbnail exists
+      const customThumbKey = videoKey(id, `${id}_custom.webp`);
+      if (await storage.exists(customThumbKey)) {
+        res.setHeader("Content-Type", "image/webp");
+        return await pipeStoredFile(res, customThumbKey);
+      }
 
-    const defaultThumbPath = path.join(VIDEO_PATH, id, file.static_thumbnail);
-    if (fs.existsSync(defaultThumbPath)) {
-      res.setHeader("Content-Type", "image/webp");
-      return fs.createReadStream(defaultThumbPath).pipe(res);
+      if (!file.static_thumbnail) {
+        return res.status(500).json({ error: "Static thumbnail missing unexpectedly" });
+      }
+
+      const defaultThumbKey = videoKey(id, file.static_thumbnail);
+      if (await storage.exists(defaultThumbKey)) {
+        res.setHeader("Content-Type", "image/webp");
+        return await pipeStoredFile(res, defaultThumbKey);
+      }
+
+      return res.status(404).json({ error: "Thumbnail file not found" });
+    } catch (err) {
+      console.error("Error serving thumbnail:", err);
+      res.status(500).json({ error: "Error serving the thumbnail" });
     }
+  }
+);
 
-    return res.status(404).json({ error: "Thumbnail file not found" });
+/**
+ * @swagger
+ * /videos/thumb/sprite/{id}/{file}:
+ *   get:
+ *     summary: Serve the scrubbing previews via signed URL
+ *     description: |
+ *       With the track file name (`{id}_thumbnails.vtt`, as in `thumbnailsVttUrl`), returns the WebVTT thumbnails track of the video:
+ *       one cue per frame (every `thumbnails.sprite.intervalSeconds`), pointing to a tile of a sprite sheet with a media fragment,
+ *       e.g. `{id}_sprite_0.jpg?expires=...#xywh=160,0,160,90`. The sprite sheet URLs are relative to the track and carry the
+ *       signature of the request, so players can load them as is. Without `file`, the track references are prefixed with `{id}/`.
+ *       With a sprite sheet file name, returns the sprite sheet (JPEG). Uses signed URL authentication, like `/videos/thumb/signed/{id}`.
+ *     tags: [Videos]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "507f1f77bcf86cd799439011"
+ *       - in: path
+ *         name: file
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Thumbnails track or sprite sheet file name. If omitted, serves the WebVTT thumbnails track
+ *         example: "507f1f77bcf86cd799439011_thumbnails.vtt"
+ *       - in: query
+ *         name: expires
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: uid
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: kid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Id of the key that signed the URL
+ *         example: "default"
+ *     responses:
+ *       200:
+ *         description: Thumbnails track or sprite sheet
+ *         content:
+ *           text/vtt:
+ *             schema:
+ *               type: string
+ *           image/jpeg:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       401:
+ *         description: Missing or invalid signature parameters
+ *       403:
+ *         description: Not authorized to view this video
+ *       404:
+ *         description: Scrubbing previews not available or file not found
+ *       500:
+ *         description: Error serving the scrubbing previews
+ */
+router.get(
+  "/videos/thumb/sprite/:id/:file?",
+  verifySignedUrl,
+  async (req: AuthRequest, res) => {
+    const { id, file } = req.params;
+
+    try {
+      const fileData = await File.findById(id);
+
+      if (!fileData || fileData.videoStatus !== "uploaded" || !fileData.sprite_thumbnails) {
+        return res.status(404).json({ error: "Scrubbing previews not available" });
+      }
+
+      // Check ownership (or an active share link of the video)
+      if (!(await canViewVideo(fileData, req.userId))) {
+        return res.status(403).json({ error: "Not authorized to view this video" });
+      }
+
+      // Only the thumbnails track and the sprite sheets of the video are served here
+      const isTrack = !file || file === fileData.sprite_thumbnails;
+      if (!isTrack && !new RegExp(`^${id}_sprite_\\d+\\.jpg$`).test(file)) {
+        return res.status(404).json({ error: "File not found" });
+      }
+
+      const storage = getStorage();
+      const key = videoKey(id, file || fileData.sprite_thumbnails);
+
+      if (!(await storage.exists(key))) {
+        return res.status(404).json({ error: "File not found" });
+      }
+
+      if (!isTrack) {
+        res.setHeader("Content-Type", "image/jpeg");
+        return pipeStoredFile(res, key);
+      }
+
+      // Sign the sprite sheet references with the parameters of this request. They are relative to the track:
+      // served without file name, the track sits beside the video folder, so the references go through it
+      const signedParams = formatSignedQuery(req.signedUrl!);
+      const folder = file ? "" : `${id}/`;
+      const vtt = (await storage.readFile(key))
+        .toString("utf8")
+        .replace(/^(\S+\.jpg)(#xywh=)/gm, `${folder}$1${signedParams}$2`);
+
+      res.setHeader("Content-Type", "text/vtt");
+      res.send(vtt);
+    } catch (err) {
+      console.error("Error serving scrubbing previews:", err);
+      res.status(500).json({ error: "Error serving the scrubbing previews" });
+    }
   }
 );
 
@@ -783,7 +1255,7 @@ router.get(
  *                     - "Thumbnail file not found"
  *                   example: "Thumbnail not available"
  *       500:
- *         description: Internal error - thumbnail unexpectedly missing
+ *         description: Internal error - thumbnail unexpectedly missing, or storage error
  *         content:
  *           application/json:
  *             schema:
@@ -799,36 +1271,43 @@ router.get(
   async (req: AuthRequest, res) => {
     const id = req.params.id;
     const userId = req.userId;
-    
-    const file = await File.findById(id);
 
-    if (!file || file.videoStatus !== "uploaded") {
-      return res.status(404).json({ error: "Thumbnail not available" });
-    }
+    try {
+      const file = await File.findById(id);
 
-    // Check ownership
-    if (file.userId.toString() !== userId) {
-      return res.status(403).json({ error: "Not authorized to view this video" });
-    }
+      if (!file || file.videoStatus !== "uploaded") {
+        return res.status(404).json({ error: "Thumbnail not available" });
+      }
 
-    // Check custom thumbnail exists
-    const customThumbPath = path.join(VIDEO_PATH, id, `${id}_custom.webp`);
-    if (fs.existsSync(customThumbPath)) {
-      res.setHeader("Content-Type", "image/webp");
-      return fs.createReadStream(customThumbPath).pipe(res);
-    }
+      // Check ownership
+      if (file.userId.toString() !== userId) {
+        return res.status(403).json({ error: "Not authorized to view this video" });
+      }
 
-    if (!file.static_thumbnail) {
-      return res.status(500).json({ error: "Static thumbnail missing unexpectedly" });
-    }
+      const storage = getStorage();
 
-    const defaultThumbPath = path.join(VIDEO_PATH, id, file.static_thumbnail);
-    if (fs.existsSync(defaultThumbPath)) {
-      res.setHeader("Content-Type", "image/webp");
-      return fs.createReadStream(defaultThumbPath).pipe(res);
-    }
+      // Check custom thumbnail exists
+      const customThumbKey = videoKey(id, `${id}_custom.webp`);
+      if (await storage.exists(customThumbKey)) {
+        res.setHeader("Content-Type", "image/webp");
+        return await pipeStoredFile(res, customThumbKey);
+      }
+
+      if (!file.static_thumbnail) {
+        return res.status(500).json({ error: "Static thumbnail missing unexpectedly" });
+      }
 
-    return res.status(404).json({ error: "Thumbnail file not found" });
+      const defaultThumbKey = videoKey(id, file.static_thumbnail);
+      if (await storage.exists(defaultThumbKey)) {
+        res.setHeader("Content-Type", "image/webp");
+        return await pipeStoredFile(res, defaultThumbKey);
+      }
+
+      return res.status(404).json({ error: "Thumbnail file not found" });
+    } catch (err) {
+      console.error("Error serving thumbnail:", err);
+      res.status(500).json({ error: "Error serving the thumbnail" });
+    }
   }
 );
 
@@ -838,7 +1317,10 @@ router.get(
  * /videos/thumb/animated/{id}:
  *   get:
  *     summary: Serve animated thumbnail of a video
- *     description: Returns the animated thumbnail in WebP format. Automatically generated during video processing (first 3 seconds at 10fps).
+ *     description: |
+ *       Returns the animated preview, as looping WebP or as MP4 (`thumbnails.animated.format`, or the format chosen by the owner).
+ *       Short videos get a single clip (3 seconds from 1s by default); videos of at least `thumbnails.animated.highlightMinDuration`
+ *       seconds get a highlight stitching short snippets spread across the video.
  *     tags: [Videos]
  *     security:
  *       - bearerAuth: []
@@ -852,13 +1334,18 @@ router.get(
  *         example: "507f1f77bcf86cd799439011"
  *     responses:
  *       200:
- *         description: Animated thumbnail in WebP format
+ *         description: Animated preview
  *         content:
  *           image/webp:
  *             schema:
  *               type: string
  *               format: binary
- *               description: Animated WebP file (3 seconds at 10fps)
+ *               description: Looping animated WebP
+ *           video/mp4:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *               description: H.264 video without audio
  *       401:
  *         description: Missing or invalid token
  *       403:
@@ -877,7 +1364,7 @@ router.get(
  *                     - "Animated thumbnail not found"
  *                   example: "Animated thumbnail not available yet"
  *       500:
- *         description: Internal error - animated thumbnail unexpectedly missing
+ *         description: Internal error - animated thumbnail unexpectedly missing, or storage error
  *         content:
  *           application/json:
  *             schema:
@@ -886,6 +1373,74 @@ router.get(
  *                 error:
  *                   type: string
  *                   example: "Animated thumbnail missing unexpectedly"
+ *   patch:
+ *     summary: Regenerate the animated preview
+ *     description: |
+ *       Generates the animated preview again from the given start times: one start gives a single clip of
+ *       `thumbnails.animated.durationSeconds`, several starts give a highlight of `thumbnails.animated.snippetSeconds` snippets.
+ *       The choice is kept when the video is reprocessed. An empty `starts` goes back to the automatic preview.
+ *     tags: [Videos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "507f1f77bcf86cd799439011"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               starts:
+ *                 type: array
+ *                 maxItems: 10
+ *                 items:
+ *                   type: number
+ *                 example: [12, 95.5, 240]
+ *                 description: Start times in seconds, in the order of the preview (the previous choice if omitted)
+ *               format:
+ *                 type: string
+ *                 enum: [webp, mp4]
+ *     responses:
+ *       200:
+ *         description: Animated preview updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: "Animated preview updated"
+ *                 animated_thumbnail:
+ *                   type: string
+ *                   example: "507f1f77bcf86cd799439011_animated.mp4"
+ *                 clips:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       start:
+ *                         type: number
+ *                       length:
+ *                         type: number
+ *       400:
+ *         description: Invalid parameters, or a start after the end of the video
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not authorized to modify this video
+ *       404:
+ *         description: Video not found
+ *       409:
+ *         description: The video is not processed yet
+ *       500:
+ *         description: Error generating the animated preview
  */
 router.get(
   "/videos/thumb/animated/:id",
@@ -894,30 +1449,77 @@ router.get(
     const id = req.params.id;
     const userId = req.userId;
 
-    const file = await File.findById(id);
-    
-    if (!file || file.videoStatus !== "uploaded") {
-      return res
-        .status(404)
-        .json({ error: "Animated thumbnail not available yet" });
-    }
+    try {
+      const file = await File.findById(id);
 
-    // Check ownership
-    if (file.userId.toString() !== userId) {
-      return res.status(403).json({ error: "Not authorized to view this video" });
-    }
+      if (!file || file.videoStatus !== "uploaded") {
+        return res
+          .status(404)
+          .json({ error: "Animated thumbnail not available yet" });
+      }
 
-    if (!file.animated_thumbnail) {
-      return res.status(500).json({ error: "Animated thumbnail missing unexpectedly" });
+      // Check ownership
+      if (file.userId.toString() !== userId) {
+        return res.status(403).json({ error: "Not authorized to view this video" });
+      }
+
+      if (!file.animated_thumbnail) {
+        return res.status(500).json({ error: "Animated thumbnail missing unexpectedly" });
+      }
+
+      const animatedKey = videoKey(id, file.animated_thumbnail);
+      if (!(await getStorage().exists(animatedKey))) {
+        return res.status(404).json({ error: "Animated thumbnail not found" });
+      }
+
+      res.setHeader("Content-Type", getContentType(animatedKey));
+      await pipeStoredFile(res, animatedKey);
+    } catch (err) {
+      console.error("Error serving animated thumbnail:", err);
+      res.status(500).json({ error: "Error serving the animated thumbnail" });
     }
+  }
+);
+
+router.patch(
+  "/videos/thumb/animated/:id",
+  verifyToken,
+  animatedPreviewValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { id } = req.params;
+    const { starts, format } = req.body;
+    const userId = req.userId;
+
+    try {
+      const video = await File.findById(id);
+
+      if (!video) {
+        return res.status(404).json({ error: "Video not found" });
+      }
+
+      // Check ownership
+      if (video.userId.toString() !== userId) {
+        return res.status(403).json({ error: "Not authorized to modify this video" });
+      }
+
+      if (video.videoStatus !== "uploaded") {
+        return res.status(409).json({ error: "Video is not processed yet" });
+      }
+
+      if (video.duration && starts && starts.some((start: number) => start >= video.duration!)) {
+        return res.status(400).json({ error: `starts must be before the end of the video (${video.duration}s)` });
+      }
+
+      const preview = await videoUtils.setAnimatedPreview(video, { starts, format });
+      await refreshStorageBytes(id);
+      emitWebhookEvent("thumbnail.updated", userId!, { videoId: id, animated_thumbnail: preview.animated_thumbnail });
 
-    const animatedPath = path.join(VIDEO_PATH, id, file.animated_thumbnail);
-    if (!fs.existsSync(animatedPath)) {
-      return res.status(404).json({ error: "Animated thumbnail not found" });
+      res.json({ message: "Animated preview updated", ...preview });
+    } catch (err) {
+      console.error("Error generating animated preview:", err);
+      res.status(500).json({ error: "Error generating the animated preview" });
     }
-
-    res.setHeader("Content-Type", "image/webp");
-    fs.createReadStream(animatedPath).pipe(res);
   }
 );
 
@@ -1049,13 +1651,13 @@ router.get(
         return res.status(403).json({ error: "Not authorized to download this video" });
       }
 
-      const videoPath = path.join(VIDEO_PATH, id, video.original_video);
+      const videoKeyPath = videoKey(id, video.original_video);
+      const stat = await getStorage().stat(videoKeyPath);
       
-      if (!fs.existsSync(videoPath)) {
+      if (!stat) {
         return res.status(404).json({ error: "Video file not found" });
       }
 
-      const stat = fs.statSync(videoPath);
       const fileSize = stat.size;
       const range = req.headers.range;
 
@@ -1065,7 +1667,6 @@ router.get(
         const start = parseInt(parts[0], 10);
         const end = parts[1] ? parseInt(parts[1], 10) : fileSize - 1;
         const chunksize = (end - start) + 1;
-        const file = fs.createReadStream(videoPath, { start, end });
         
         res.writeHead(206, {
           "Content-Range": `bytes ${start}-${end}/${fileSize}`,
@@ -1075,7 +1676,7 @@ router.get(
           "Content-Disposition": `attachment; filename="${video.title}${path.extname(video.original_video)}"`
         });
         
-        file.pipe(res);
+        await pipeStoredFile(res, videoKeyPath, { start, end });
       } else {
         res.writeHead(200, {
           "Content-Length": fileSize,
@@ -1083,7 +1684,7 @@ router.get(
           "Content-Disposition": `attachment; filename="${video.title}${path.extname(video.original_video)}"`
         });
         
-        fs.createReadStream(videoPath).pipe(res);
+        await pipeStoredFile(res, videoKeyPath);
       }
     } catch (error) {
       console.error("Download error:", error);
@@ -1203,6 +1804,10 @@ router.get(
  *                   type: string
  *                   description: Animated thumbnail file name
  *                   example: "507f1f77bcf86cd799439011_animated.webp"
+ *                 sprite_thumbnails:
+ *                   type: string
+ *                   description: WebVTT thumbnails track of the sprite sheets (scrubbing previews)
+ *                   example: "507f1f77bcf86cd799439011_thumbnails.vtt"
  *                 original_video:
  *                   type: string
  *                   description: Original video file name
@@ -1362,6 +1967,119 @@ router.get(
 
 
 
+/**
+ * @swagger
+ * /videos/{id}/events:
+ *   get:
+ *     summary: Stream processing progress (Server-Sent Events)
+ *     description: Opens a Server-Sent Events stream with the processing progress of a video. Each `progress` event carries the current stage (queued, probe, thumbnail, hls, animated_thumbnail, sprite, done, error) and an overall percentage. The stream is closed by the server after the `done` or `error` stage. A comment line is sent every 15 seconds as keep-alive.
+ *     tags: [Videos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: MongoDB ID of the video
+ *         example: "507f1f77bcf86cd799439011"
+ *     responses:
+ *       200:
+ *         description: Event stream of processing progress
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *               example: |
+ *                 event: progress
+ *                 data: {"videoId":"507f1f77bcf86cd799439011","stage":"hls","percent":42,"timestamp":"2025-11-17T12:00:00.000Z"}
+ *       400:
+ *         description: Invalid video id
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not authorized to view this video
+ *       404:
+ *         description: Video not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  "/videos/:id/events",
+  verifyToken,
+  videoIdParamValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { id } = req.params;
+    const userId = req.userId;
+
+    let file;
+    try {
+      file = await File.findById(id).select('videoStatus userId');
+    } catch (err) {
+      console.error("Error retrieving video:", err);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+
+    if (!file) {
+      return res.status(404).json({ error: "Video not found" });
+    }
+
+    // Check ownership
+    if (file.userId.toString() !== userId) {
+      return res.status(403).json({ error: "Not authorized to view this video" });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+
+    const send = (event: ProcessingEvent) => {
+      res.write(`event: progress\ndata: ${JSON.stringify(event)}\n\n`);
+      if (event.stage === "done" || event.stage === "error") {
+        res.end();
+      }
+    };
+
+    // Initial state: last in-memory event, or derived from the DB status
+    const last = getLastProgress(id);
+    if (last) {
+      send(last);
+    } else {
+      const stage: ProcessingStage = file.videoStatus === "uploaded"
+        ? "done"
+        : file.videoStatus === "error" ? "error" : "queued";
+      send({
+        videoId: id,
+        stage,
+        percent: stage === "done" ? 100 : 0,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    if (res.writableEnded) return;
+
+    const unsubscribe = subscribeProgress(id, send);
+    const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), 15000);
+    // On shutdown the client reconnects (EventSource retries) once the server is back
+    const unsubscribeShutdown = onShutdown(() => res.end());
+
+    const cleanup = () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+      unsubscribeShutdown();
+    };
+
+    res.on("close", cleanup);
+    res.on("finish", cleanup);
+  }
+);
+
+
 /**
  * @swagger
  * /videos/duration/{id}:
@@ -1445,70 +2163,163 @@ router.get(
  * @swagger
  * /videos:
  *   get:
- *     summary: Retrieve all user videos
- *     description: Returns a list of all videos of the logged-in user with essential metadata (title, description, thumbnail, duration, tags, category). Videos are filtered by user and mimetype "video".
+ *     summary: Retrieve user videos (paginated)
+ *     description: |
+ *       Returns a page of the videos of the logged-in user with essential metadata (title, description, thumbnail, duration, tags, category).
+ *       Videos can be searched by text (title, description and tags), filtered and sorted.
+ *       Pagination uses an opaque cursor: pass the `nextCursor` of a page to get the next one, with the same filters and sort.
  *     tags: [Videos]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: Full-text search over title, description and tags
+ *         example: "angular tutorial"
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *         example: "programming"
+ *       - in: query
+ *         name: tags
+ *         schema:
+ *           type: string
+ *         description: Comma-separated tags, videos must have all of them
+ *         example: "angular,typescript"
+ *       - in: query
+ *         name: videoStatus
+ *         schema:
+ *           type: string
+ *           enum: [inProgress, uploaded, error]
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Uploaded at or after this date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Uploaded at or before this date
+ *       - in: query
+ *         name: minDuration
+ *         schema:
+ *           type: number
+ *         description: Minimum duration in seconds
+ *       - in: query
+ *         name: maxDuration
+ *         schema:
+ *           type: number
+ *         description: Maximum duration in seconds
+ *       - in: query
+ *         name: watched
+ *         schema:
+ *           type: boolean
+ *         description: Only the videos you started (true) or never played (false)
+ *       - in: query
+ *         name: finished
+ *         schema:
+ *           type: boolean
+ *         description: Only the videos you watched to the end (true) or not (false)
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [createdAt, title, duration, size]
+ *           default: createdAt
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *         description: Defaults to asc for title and desc for the other fields
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: The `nextCursor` of the previous page
  *     responses:
  *       200:
- *         description: Successfully retrieved list of videos
+ *         description: Successfully retrieved a page of videos
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 type: object
- *                 properties:
- *                   _id:
- *                     type: string
- *                     description: Unique video ID
- *                     example: "507f1f77bcf86cd799439011"
- *                   title:
- *                     type: string
- *                     description: Video title (fallback to originalname if unspecified)
- *                     example: "Angular 20 Tutorial"
- *                   description:
- *                     type: string
- *                     description: Video description
- *                     example: "Complete guide to Angular 20"
- *                   thumbnail:
- *                     type: string
- *                     description: URL to retrieve the static thumbnail
- *                     example: "/videos/thumb/static/507f1f77bcf86cd799439011"
- *                   videoUrl:
- *                     type: string
- *                     description: URL for HLS streaming of the video
- *                     example: "/videos/stream/507f1f77bcf86cd799439011"
- *                   duration:
- *                     type: number
- *                     format: float
- *                     description: Video duration in seconds
- *                     example: 125.5
- *                   uploadDate:
- *                     type: string
- *                     format: date-time
- *                     description: Video upload date and time
- *                     example: "2025-11-17T12:00:00.000Z"
- *                   size:
- *                     type: string
- *                     description: File size in bytes (as string)
- *                     example: "52428800"
- *                   category:
- *                     type: string
- *                     description: Video category (default "Uncategorized")
- *                     example: "programming"
- *                   tags:
- *                     type: array
- *                     items:
- *                       type: string
- *                     description: Array of tags associated with the video
- *                     example: ["angular", "typescript", "tutorial"]
- *                   videoStatus:
- *                     type: string
- *                     enum: [processing, uploaded, error]
- *                     description: Video processing status
- *                     example: "uploaded"
+ *               type: object
+ *               properties:
+ *                 videos:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       _id:
+ *                         type: string
+ *                         description: Unique video ID
+ *                         example: "507f1f77bcf86cd799439011"
+ *                       title:
+ *                         type: string
+ *                         description: Video title (fallback to originalname if unspecified)
+ *                         example: "Angular 20 Tutorial"
+ *                       description:
+ *                         type: string
+ *                         description: Video description
+ *                         example: "Complete guide to Angular 20"
+ *                       thumbnail:
+ *                         type: string
+ *                         description: URL to retrieve the static thumbnail
+ *                         example: "/videos/thumb/static/507f1f77bcf86cd799439011"
+ *                       videoUrl:
+ *                         type: string
+ *                         description: URL for HLS streaming of the video
+ *                         example: "/videos/stream/507f1f77bcf86cd799439011"
+ *                       duration:
+ *                         type: number
+ *                         format: float
+ *                         description: Video duration in seconds
+ *                         example: 125.5
+ *                       uploadDate:
+ *                         type: string
+ *                         format: date-time
+ *                         description: Video upload date and time
+ *                         example: "2025-11-17T12:00:00.000Z"
+ *                       size:
+ *                         type: string
+ *                         description: File size in bytes (as string)
+ *                         example: "52428800"
+ *                       category:
+ *                         type: string
+ *                         description: Video category (default "Uncategorized")
+ *                         example: "programming"
+ *                       tags:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                         description: Array of tags associated with the video
+ *                         example: ["angular", "typescript", "tutorial"]
+ *                       videoStatus:
+ *                         type: string
+ *                         enum: [inProgress, uploaded, error]
+ *                         description: Video processing status
+ *                         example: "uploaded"
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *                   description: Cursor of the next page, null on the last page
+ *                 hasMore:
+ *                   type: boolean
+ *       400:
+ *         description: Invalid query parameters or cursor
  *       401:
  *         description: Missing or invalid token
  *       500:
@@ -1525,16 +2336,27 @@ router.get(
 router.get(
   "/videos",
   verifyToken,
+  listVideosValidator,
+  validateRequest,
   async (req: AuthRequest, res) => {
-    const userId = req.userId;
+    const userId = req.userId!;
+    const query: VideoListQuery = matchedData(req, { locations: ['query'] });
+    const limit = Math.min(query.limit || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
 
+    let pipeline: any[];
     try {
-      const videos = await File.find({ 
-        userId: userId,
-        mimetype: { $regex: "video" } 
-      });
+      pipeline = buildVideoListPipeline({ ...query, userId, viewerId: userId });
+    } catch (err) {
+      return res.status(400).json({ error: (err as Error).message });
+    }
+
+    try {
+      const videos = await File.aggregate(pipeline);
+
+      const hasMore = videos.length > limit;
+      const page = hasMore ? videos.slice(0, limit) : videos;
 
-      const result = videos.map((file) => ({
+      const result = page.map((file) => ({
         _id: file._id,
         title: file.title || file.originalname,
         description: file.description || '',
@@ -1548,7 +2370,11 @@ router.get(
         videoStatus: file.videoStatus
       }));
 
-      res.json(result);
+      res.json({
+        videos: result,
+        nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+        hasMore,
+      });
     } catch (e) {
       console.error("Error fetching videos:", e);
       res.status(500).json({ error: "Error fetching videos" });
@@ -1642,52 +2468,7 @@ router.delete(
           .json({ error: "You do not have permission to delete this video" });
       }
 
-      // Path to the video folder
-      const videoFolderPath = path.join(VIDEO_PATH, id);
-
-      // Helper function: deleting folder in the background with delay and max retries
-      const deleteFolderUntilGone = (folderPath: string, delayMs = 1000, maxRetries = 10) => {
-        let retries = 0;
-
-        const attemptDelete = async () => {
-          while (retries < maxRetries) {
-            try {
-              await fs.promises.rm(folderPath, { recursive: true, force: true });
-              if (ENABLE_LOGS) {
-                console.log(`Successfully deleted folder: ${folderPath}`);
-              }
-              return;
-            } catch (err: any) {
-              if (err.code === "ENOENT") {
-                // Folder doesn't exist, that's fine
-                return;
-              }
-
-              const retriableErrors = ["EBUSY", "ENOTEMPTY"];
-              if (retriableErrors.includes(err.code)) {
-                retries++;
-                console.log(`Retry ${retries}/${maxRetries} deleting folder: ${folderPath}`);
-                await new Promise(resolve => setTimeout(resolve, delayMs));
-                continue;
-              }
-
-              console.error(`Unexpected error deleting folder: ${folderPath}`, err);
-              return;
-            }
-          }
-
-          // If we get here, we've reached the maximum number of retries
-          console.error(`Could not delete folder after ${maxRetries} attempts: ${folderPath}`);
-        };
-
-        attemptDelete(); // fire and forget
-      };
-
-      // Start deleting the folder in the background
-      deleteFolderUntilGone(videoFolderPath);
-
-      // Delete from database 
-      await File.findByIdAndDelete(id);
+      await videoUtils.deleteVideo(fileData);
 
       return res
         .status(200)
@@ -1699,12 +2480,127 @@ router.delete(
   }
 );
 
+/**
+ * @swagger
+ * /videos/{id}/reprocess:
+ *   post:
+ *     summary: Rebuild the renditions and thumbnails of a video
+ *     description: |
+ *       Generates the selected artifacts again from the stored original, e.g. after the encoding settings changed.
+ *       Artifacts missing from the video are always rebuilt. A new `ladder` or `packaging` rebuilds the HLS renditions with it.
+ *       The custom thumbnail and the subtitles are kept. The video stays playable with its current renditions until the new ones
+ *       are published, and the new ladder or packaging is stored with them. Follow the processing with `GET /videos/{id}/events`.
+ *     tags: [Videos]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "507f1f77bcf86cd799439011"
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               artifacts:
+ *                 type: array
+ *                 description: Artifacts to rebuild (all of them if omitted)
+ *                 items:
+ *                   type: string
+ *                   enum: [hls, static_thumbnail, animated_thumbnail, sprite]
+ *               ladder:
+ *                 type: string
+ *                 example: '["1080p","480p"]'
+ *                 description: New transcoding ladder, same format as for the upload.
+ *               packaging:
+ *                 type: string
+ *                 enum: [hls, cmaf]
+ *                 description: New segment packaging.
+ *     responses:
+ *       202:
+ *         description: Processing queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: "Processing queued"
+ *                 jobId:
+ *                   type: string
+ *                 artifacts:
+ *                   type: array
+ *                   description: Artifacts that will be rebuilt
+ *                   items:
+ *                     type: string
+ *       400:
+ *         description: Invalid parameters
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not authorized to reprocess this video
+ *       404:
+ *         description: Video not found
+ *       409:
+ *         description: The video is already being processed
+ *       500:
+ *         description: Error queuing processing
+ */
+router.post(
+  "/videos/:id/reprocess",
+  verifyToken,
+  reprocessVideoValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { id } = req.params;
+    const { artifacts, ladder, packaging } = req.body;
+
+    try {
+      const video = await File.findById(id);
+
+      if (!video) {
+        return res.status(404).json({ error: "Video not found" });
+      }
+
+      // Check ownership
+      if (video.userId.toString() !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to reprocess this video" });
+      }
+
+      const result = await reprocessVideo(video, {
+        artifacts,
+        ladder: Array.isArray(ladder) ? ladder : undefined,
+        packaging: packaging || undefined,
+      });
+
+      if (!result) {
+        return res.status(409).json({ error: "Video is already being processed" });
+      }
+
+      if (ENABLE_LOGS) {
+        console.log(`Video ${id} queued for reprocessing (${result.artifacts.join(", ")})`);
+      }
+
+      res.status(202).json({ message: "Processing queued", jobId: result.job._id, artifacts: result.artifacts });
+    } catch (err) {
+      console.error("Error queuing reprocessing:", err);
+      res.status(500).json({ error: "Error queuing processing" });
+    }
+  }
+);
+
 /**
  * @swagger
  * /videos/{id}/signed-url:
  *   post:
  *     summary: Generate signed URLs for secure video streaming
- *     description: Creates temporary signed URLs (valid for 10 minutes) for HLS video streaming and thumbnail access. The signed URLs use HMAC-SHA256 signatures to prevent unauthorized access and replay attacks. Used by the video player component to securely stream content.
+ *     description: Creates temporary signed URLs (valid for 15 minutes) for HLS video streaming and thumbnail access. The signed URLs use HMAC-SHA256 signatures to prevent unauthorized access and replay attacks. Used by the video player component to securely stream content. The URLs can be bound to the IP address of the caller, and the stream limited to one rendition.
  *     tags: [Videos]
  *     security:
  *       - bearerAuth: []
@@ -1716,6 +2612,20 @@ router.delete(
  *           type: string
  *         description: MongoDB ID of the video
  *         example: "507f1f77bcf86cd799439011"
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               bindIp:
+ *                 type: boolean
+ *                 description: Bind the URLs to the IP address of the caller (`ip` parameter)
+ *               rendition:
+ *                 type: string
+ *                 example: "480p"
+ *                 description: Limit the stream to one rendition of the video. `streamUrl` is then the playlist of the rendition (for CMAF, the master playlist reduced to the rendition and the shared audio), and `dashUrl` is omitted
  *     responses:
  *       200:
  *         description: Signed URLs generated successfully
@@ -1727,11 +2637,23 @@ router.delete(
  *                 streamUrl:
  *                   type: string
  *                   description: Signed URL for HLS video streaming (m3u8 playlist)
- *                   example: "http://localhost:3070/videos/stream/507f1f77bcf86cd799439011/507f1f77bcf86cd799439011.m3u8?expires=1700000000000&signature=a3f5b8c2d1e4f7a9&uid=507f1f77bcf86cd799439011"
+ *                   example: "http://localhost:3070/videos/stream/507f1f77bcf86cd799439011/507f1f77bcf86cd799439011.m3u8?expires=1700000000000&signature=a3f5b8c2d1e4f7a9&uid=507f1f77bcf86cd799439011&kid=default"
+ *                 dashUrl:
+ *                   type: string
+ *                   description: Signed URL for the DASH manifest (mpd). Only present for videos packaged as CMAF
+ *                   example: "http://localhost:3070/videos/stream/507f1f77bcf86cd799439011/507f1f77bcf86cd799439011.mpd?expires=1700000000000&signature=a3f5b8c2d1e4f7a9&uid=507f1f77bcf86cd799439011&kid=default"
+ *                 packaging:
+ *                   type: string
+ *                   enum: [hls, cmaf]
+ *                   description: Segment packaging of the video
  *                 thumbnailUrl:
  *                   type: string
  *                   description: Signed URL for thumbnail access
- *                   example: "http://localhost:3070/videos/thumb/signed/507f1f77bcf86cd799439011?expires=1700000000000&signature=a3f5b8c2d1e4f7a9&uid=507f1f77bcf86cd799439011"
+ *                   example: "http://localhost:3070/videos/thumb/signed/507f1f77bcf86cd799439011?expires=1700000000000&signature=a3f5b8c2d1e4f7a9&uid=507f1f77bcf86cd799439011&kid=default"
+ *                 thumbnailsVttUrl:
+ *                   type: string
+ *                   description: Signed URL of the WebVTT thumbnails track (seek bar previews). Absent for videos processed before sprite sheets existed, until they are reprocessed
+ *                   example: "http://localhost:3070/videos/thumb/sprite/507f1f77bcf86cd799439011/507f1f77bcf86cd799439011_thumbnails.vtt?expires=1700000000000&signature=a3f5b8c2d1e4f7a9&uid=507f1f77bcf86cd799439011&kid=default"
  *                 expiresAt:
  *                   type: number
  *                   description: Unix timestamp (milliseconds) when the signed URLs expire
@@ -1746,6 +2668,8 @@ router.delete(
  *                 error:
  *                   type: string
  *                   example: "Missing token"
+ *       400:
+ *         description: Unknown rendition
  *       403:
  *         description: Not authorized to access this video (not the owner)
  *         content:
@@ -1790,7 +2714,7 @@ router.delete(
 router.post(
   "/videos/:id/signed-url",
   verifyToken,
-  videoIdParamValidator,
+  signedUrlValidator,
   validateRequest,
   async (req: AuthRequest, res) => {
     const videoId = req.params.id;
@@ -1812,18 +2736,17 @@ router.post(
         return res.status(423).json({ error: "Video processing not completed yet" });
       }
 
-      // Generate signed URLs
-      const signedParams = generateSignedUrl({ videoId, userId, expiresInMinutes: 15 });
-      
-      const baseUrl = `${req.protocol}://${req.get('host')}`;
-      const streamUrl = `${baseUrl}/videos/stream/${videoId}/${fileData.hls}${signedParams}`;
-      const thumbnailUrl = `${baseUrl}/videos/thumb/signed/${videoId}${signedParams}`;
+      let rendition: number | undefined;
+      if (req.body.rendition) {
+        rendition = (fileData.renditions || []).findIndex((candidate) => candidate.name === req.body.rendition);
+        if (rendition < 0) {
+          return res.status(400).json({ error: "Unknown rendition" });
+        }
+      }
 
-      res.json({
-        streamUrl,
-        thumbnailUrl,
-        expiresAt: Date.now() + (10 * 60 * 1000)
-      });
+      // Generate signed URLs
+      const baseUrl = `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+      res.json(buildPlaybackUrls(baseUrl, fileData, userId, 15, { ip: req.body.bindIp ? req.ip : undefined, rendition }));
     } catch (error) {
       res.status(500).json({ error: "Error generating signed URL" });
     }
@@ -1835,7 +2758,7 @@ router.post(
  * /videos/{id}/refresh-token:
  *   post:
  *     summary: Refresh signed URL token for secure video streaming
- *     description: Generates a new signed URL token valid for 15 minutes to extend streaming session without interruption. Requires JWT authentication and ownership verification.
+ *     description: Generates a new signed URL token valid for 15 minutes to extend streaming session without interruption. Requires JWT authentication and ownership verification. The scope of the refreshed URL (`path`, `rendition`, `ip` of its query) is given in the body, and kept by the new token.
  *     tags: [Videos]
  *     security:
  *       - bearerAuth: []
@@ -1847,6 +2770,23 @@ router.post(
  *           type: string
  *         description: MongoDB ID of the video
  *         example: "507f1f77bcf86cd799439011"
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               path:
+ *                 type: string
+ *                 description: Signed path prefix of the refreshed URL
+ *               rendition:
+ *                 type: string
+ *                 description: Signed renditions of the refreshed URL
+ *                 example: "1"
+ *               ip:
+ *                 type: string
+ *                 description: Signed client IP address of the refreshed URL
  *     responses:
  *       200:
  *         description: New signed token parameters generated successfully
@@ -1864,6 +2804,18 @@ router.post(
  *                 uid:
  *                   type: string
  *                   description: User ID associated with the token
+ *                 kid:
+ *                   type: string
+ *                   description: Id of the key that signed the token
+ *                 path:
+ *                   type: string
+ *                   description: Signed path prefix, if the refreshed URL had one
+ *                 rendition:
+ *                   type: string
+ *                   description: Signed renditions, if the refreshed URL had some
+ *                 ip:
+ *                   type: string
+ *                   description: Signed client IP address, if the refreshed URL had one
  *                 expiresAt:
  *                   type: integer
  *                   description: Expiration timestamp as a number for convenience
@@ -1895,7 +2847,7 @@ router.post(
 router.post(
   "/videos/:id/refresh-token",
   verifyToken,
-  videoIdParamValidator,
+  refreshTokenValidator,
   validateRequest,
   async (req: AuthRequest, res) => {
     const videoId = req.params.id;
@@ -1917,11 +2869,15 @@ router.post(
         return res.status(423).json({ error: "Video not ready" });
       }
 
-      // Generate signed URLs
+      // Generate signed URLs, with the scope of the refreshed URL
+      const { path, rendition, ip } = req.body;
       const signedParams = generateSignedUrl({ 
         videoId, 
         userId, 
-        expiresInMinutes: 15 
+        expiresInMinutes: 15,
+        path,
+        rendition: rendition ? getScopedVariants(rendition) : undefined,
+        ip,
       });
       
       // Extract parameters
@@ -1931,6 +2887,10 @@ router.post(
         expires: params.get('expires'),
         signature: params.get('signature'),
         uid: params.get('uid'),
+        kid: params.get('kid'),
+        path: params.get('path') || undefined,
+        rendition: params.get('rendition') || undefined,
+        ip: params.get('ip') || undefined,
         expiresAt: Number(params.get('expires'))
       });
     } catch (error) {
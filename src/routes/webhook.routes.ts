@@ -0,0 +1,414 @@
+import { Router } from 'express';
+import { matchedData } from 'express-validator';
+import { Webhook, WebhookDelivery, WebhookDeliveryStatus } from "../models/webhook.model";
+import { verifyToken, AuthRequest } from "../middleware/auth.middleware";
+import { validateRequest } from '../middleware/validateRequest.middleware';
+import {
+  createWebhookValidator,
+  listDeliveriesValidator,
+  updateWebhookValidator,
+  webhookIdParamValidator
+} from '../validators/webhook.validators';
+import {
+  generateWebhookSecret,
+  serializeWebhook,
+  serializeWebhookDelivery
+} from '../utils/webhooks';
+
+const router = Router();
+
+const DEFAULT_DELIVERY_LIMIT = 20;
+
+/**
+ * @swagger
+ * /webhooks:
+ *   post:
+ *     summary: Subscribe a URL to video lifecycle events
+ *     description: |
+ *       The URL receives a `POST` with a JSON body for every subscribed event about the videos of the user:
+ *       `video.created`, `video.processed`, `video.failed`, `video.deleted` and `thumbnail.updated`.
+ *       Each delivery is signed: `X-Webhook-Signature` is the hex HMAC-SHA256 of `<X-Webhook-Timestamp>.<raw body>` with the secret of the webhook.
+ *       Responses other than 2xx are retried with exponential backoff.
+ *       The secret is only returned by this call.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [url]
+ *             properties:
+ *               url:
+ *                 type: string
+ *                 example: "https://api.example.com/hooks/videos"
+ *               events:
+ *                 type: array
+ *                 description: Subscribed events (all of them if omitted or empty)
+ *                 items:
+ *                   type: string
+ *                   enum: [video.created, video.processed, video.failed, video.deleted, thumbnail.updated]
+ *               description:
+ *                 type: string
+ *                 example: "Notify the catalog service"
+ *     responses:
+ *       201:
+ *         description: Webhook created, with its secret
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Webhook'
+ *                 - type: object
+ *                   properties:
+ *                     secret:
+ *                       type: string
+ *                       example: "whsec_4f1c..."
+ *       400:
+ *         description: Invalid data, or URL resolving to a private address
+ *       401:
+ *         description: Missing or invalid token
+ *       500:
+ *         description: Error creating webhook
+ *   get:
+ *     summary: List the webhooks of the logged-in user
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Webhooks, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Webhook'
+ *       401:
+ *         description: Missing or invalid token
+ *       500:
+ *         description: Error fetching webhooks
+ *
+ * components:
+ *   schemas:
+ *     Webhook:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         url:
+ *           type: string
+ *         events:
+ *           type: array
+ *           items:
+ *             type: string
+ *         description:
+ *           type: string
+ *         active:
+ *           type: boolean
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+router.post(
+  "/webhooks",
+  verifyToken,
+  createWebhookValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { url, events, description } = req.body;
+
+    try {
+      const webhook = await Webhook.create({
+        userId: req.userId,
+        url,
+        secret: generateWebhookSecret(),
+        events: events || [],
+        description: description || "",
+      });
+
+      res.status(201).json({ ...serializeWebhook(webhook), secret: webhook.secret });
+    } catch (err) {
+      console.error("Error creating webhook:", err);
+      res.status(500).json({ error: "Error creating webhook" });
+    }
+  }
+);
+
+router.get(
+  "/webhooks",
+  verifyToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const webhooks = await Webhook.find({ userId: req.userId }).sort({ createdAt: -1 });
+      res.json(webhooks.map(serializeWebhook));
+    } catch (err) {
+      console.error("Error fetching webhooks:", err);
+      res.status(500).json({ error: "Error fetching webhooks" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /webhooks/{webhookId}:
+ *   patch:
+ *     summary: Update a webhook
+ *     description: Changes the URL, the subscribed events or the description, or pauses the webhook with `active=false`. Deliveries of a paused webhook fail without being sent.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               url:
+ *                 type: string
+ *               events:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               description:
+ *                 type: string
+ *               active:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Updated webhook
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Webhook'
+ *       400:
+ *         description: Invalid data, or URL resolving to a private address
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not authorized to modify this webhook
+ *       404:
+ *         description: Webhook not found
+ *       500:
+ *         description: Error updating webhook
+ *   delete:
+ *     summary: Delete a webhook and its delivery log
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Webhook deleted
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not authorized to delete this webhook
+ *       404:
+ *         description: Webhook not found
+ *       500:
+ *         description: Error deleting webhook
+ */
+router.patch(
+  "/webhooks/:webhookId",
+  verifyToken,
+  updateWebhookValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { webhookId } = req.params;
+    const { url, events, description, active } = req.body;
+
+    try {
+      const webhook = await Webhook.findById(webhookId);
+
+      if (!webhook) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+
+      // Check ownership
+      if (webhook.userId.toString() !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to modify this webhook" });
+      }
+
+      if (url !== undefined) webhook.url = url;
+      if (events !== undefined) webhook.events = events;
+      if (description !== undefined) webhook.description = description;
+      if (active !== undefined) webhook.active = active;
+      await webhook.save();
+
+      res.json(serializeWebhook(webhook));
+    } catch (err) {
+      console.error("Error updating webhook:", err);
+      res.status(500).json({ error: "Error updating webhook" });
+    }
+  }
+);
+
+router.delete(
+  "/webhooks/:webhookId",
+  verifyToken,
+  webhookIdParamValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { webhookId } = req.params;
+
+    try {
+      const webhook = await Webhook.findById(webhookId).select('userId');
+
+      if (!webhook) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+
+      // Check ownership
+      if (webhook.userId.toString() !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to delete this webhook" });
+      }
+
+      await Webhook.findByIdAndDelete(webhookId);
+      await WebhookDelivery.deleteMany({ webhookId });
+
+      res.json({ message: "Webhook deleted successfully" });
+    } catch (err) {
+      console.error("Error deleting webhook:", err);
+      res.status(500).json({ error: "Error deleting webhook" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /webhooks/{webhookId}/deliveries:
+ *   get:
+ *     summary: Get the delivery log of a webhook
+ *     description: Returns the latest deliveries of the webhook with their payload, status and attempts (status code, error and duration of each). Deliveries are kept for 30 days.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, sending, delivered, failed]
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Deliveries, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   _id:
+ *                     type: string
+ *                   event:
+ *                     type: string
+ *                     example: "video.processed"
+ *                   status:
+ *                     type: string
+ *                     enum: [pending, sending, delivered, failed]
+ *                   attempts:
+ *                     type: integer
+ *                   maxAttempts:
+ *                     type: integer
+ *                   nextAttemptAt:
+ *                     type: string
+ *                     format: date-time
+ *                     nullable: true
+ *                   deliveredAt:
+ *                     type: string
+ *                     format: date-time
+ *                     nullable: true
+ *                   history:
+ *                     type: array
+ *                     items:
+ *                       type: object
+ *                       properties:
+ *                         at:
+ *                           type: string
+ *                           format: date-time
+ *                         statusCode:
+ *                           type: integer
+ *                         error:
+ *                           type: string
+ *                         durationMs:
+ *                           type: integer
+ *                   payload:
+ *                     type: object
+ *                   createdAt:
+ *                     type: string
+ *                     format: date-time
+ *       400:
+ *         description: Invalid parameters
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not authorized to access this webhook
+ *       404:
+ *         description: Webhook not found
+ *       500:
+ *         description: Error fetching deliveries
+ */
+router.get(
+  "/webhooks/:webhookId/deliveries",
+  verifyToken,
+  listDeliveriesValidator,
+  validateRequest,
+  async (req: AuthRequest, res) => {
+    const { webhookId } = req.params;
+    const { status, limit = DEFAULT_DELIVERY_LIMIT }: { status?: WebhookDeliveryStatus; limit?: number } =
+      matchedData(req, { locations: ['query'] });
+
+    try {
+      const webhook = await Webhook.findById(webhookId).select('userId');
+
+      if (!webhook) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+
+      // Check ownership
+      if (webhook.userId.toString() !== req.userId) {
+        return res.status(403).json({ error: "Not authorized to access this webhook" });
+      }
+
+      const filter: any = { webhookId };
+      if (status) filter.status = status;
+
+      const deliveries = await WebhookDelivery.find(filter).sort({ createdAt: -1 }).limit(limit);
+
+      res.json(deliveries.map(serializeWebhookDelivery));
+    } catch (err) {
+      console.error("Error fetching webhook deliveries:", err);
+      res.status(500).json({ error: "Error fetching webhook deliveries" });
+    }
+  }
+);
+
+export default router;
@@ -1,24 +1,122 @@
 import * as videoUtils from './utils/videoUtils';
+import fs from 'fs';
 import multer from 'multer';
+import config from 'config';
+import { StorageDriver } from './storage/storage.driver';
 
+export interface VideoServerLimits {
+  maxVideoSize: number;          // bytes, POST /videos
+  maxThumbnailSize: number;      // bytes, custom thumbnails
+  maxSubtitleSize: number;       // bytes, subtitle files
+  maxResumableFileSize: number;  // bytes, POST /videos/uploads
+  storageQuotaBytes: number;     // bytes per user, 0 = unlimited
+}
+
+export interface JobQueueSettings {
+  concurrency: number;
+  maxAttempts: number;
+  retryDelayMs: number;
+  pollIntervalMs: number;
+}
+
+export interface StreamKey {
+  kid: string;                   // Key id, sent as the `kid` parameter of the signed URLs
+  secret: string;                // HMAC secret
+}
+
+export interface VideoServerSettings {
+  publicKey: string;             // PEM public key verifying the RS256 JWTs of the auth server
+  streamKeys: StreamKey[];       // HMAC keys of the signed streaming URLs: the first one signs, all of them verify
+  videoPath: string;             // Local folder for uploads and processing (and storage with the local driver)
+  storage?: StorageDriver;       // Storage backend, defaults to the one selected by STORAGE_DRIVER
+  limits: VideoServerLimits;
+  jobQueue: JobQueueSettings;
+}
+
+let settings: VideoServerSettings | undefined;
+
+/**
+ * Returns the default limits: upload sizes of the original server and the values of config/default.json.
+ * @returns {VideoServerLimits} The default limits.
+ */
+export const getDefaultLimits = (): VideoServerLimits => ({
+  maxVideoSize: 500 * 1024 * 1024,
+  maxThumbnailSize: 5 * 1024 * 1024,
+  maxSubtitleSize: 2 * 1024 * 1024,
+  maxResumableFileSize: config.get<number>("resumableUpload.maxFileSize"),
+  storageQuotaBytes: config.get<number>("storageQuota.defaultQuotaBytes"),
+});
 
-export const VIDEO_PATH = "uploads/videos";
+/**
+ * Sets the settings used by every route and background task. Called by createVideoServer.
+ * @param {VideoServerSettings} value - The settings.
+ */
+export const configureServer = (value: VideoServerSettings) => {
+  settings = value;
+};
 
-export const uploadVideo = multer({
-  dest: `${VIDEO_PATH}/`,
-  fileFilter: videoUtils.videoFileFilter,
-  limits: { fileSize: 500 * 1024 * 1024 }, // limit up to 100 mb
+/**
+ * Returns the settings of the video server.
+ * @returns {VideoServerSettings} The settings.
+ * @throws {Error} If the server was not configured with createVideoServer.
+ */
+export const getServerSettings = (): VideoServerSettings => {
+  if (!settings) {
+    throw new Error("Video server not configured: create it with createVideoServer()");
+  }
+  return settings;
+};
+
+/**
+ * Returns the local folder where uploads are received and videos are processed.
+ * @returns {string} The folder (e.g. "uploads/videos").
+ */
+export const getVideoPath = (): string => getServerSettings().videoPath;
+
+// Uploads are written to the video folder configured when the request arrives
+const diskStorage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    const videoPath = getVideoPath();
+    fs.promises
+      .mkdir(videoPath, { recursive: true })
+      .then(() => cb(null, videoPath), (err) => cb(err, videoPath));
+  },
 });
 
-export const uploadThumb = multer({
-  dest: `${VIDEO_PATH}/`,
-  fileFilter: videoUtils.thumbFileFilter,
-  limits: { fileSize: 500 * 1024 * 1024 }, // limit up to 5 mb
-})
+/**
+ * Creates an upload handler whose size limit is read from the settings on each request,
+ * so that the routes can be declared before the server is configured.
+ * @param {Function} fileFilter - The multer file filter.
+ * @param {Function} getMaxSize - Returns the maximum file size in bytes.
+ * @returns {object} An object exposing the `single` and `fields` middleware factories of multer.
+ */
+const createUpload = (fileFilter: multer.Options["fileFilter"], getMaxSize: () => number) => {
+  const build = () => multer({ storage: diskStorage, fileFilter, limits: { fileSize: getMaxSize() } });
+
+  return {
+    single: (fieldName: string) => (req, res, next) => build().single(fieldName)(req, res, next),
+    fields: (fields: multer.Field[]) => (req, res, next) => build().fields(fields)(req, res, next),
+  };
+};
+
+export const uploadVideo = createUpload(
+  videoUtils.videoFileFilter,
+  () => getServerSettings().limits.maxVideoSize
+);
+
+export const uploadThumb = createUpload(
+  videoUtils.thumbFileFilter,
+  () => getServerSettings().limits.maxThumbnailSize
+);
+
+export const uploadSubtitle = createUpload(
+  videoUtils.subtitleFileFilter,
+  () => getServerSettings().limits.maxSubtitleSize
+);
 
-export const uploadVideoWithThumb = multer({
-  dest: `${VIDEO_PATH}/`,
-  fileFilter: (req, file, cb) => {    
+// Both files share the video size limit; the thumbnail size is checked by the route
+export const uploadVideoWithThumb = createUpload(
+  (req, file, cb) => {
     if (file.fieldname === 'videos') {
       return videoUtils.videoFileFilter(req, file, cb);
     } else if (file.fieldname === 'thumbnail') {
@@ -27,8 +125,8 @@ export const uploadVideoWithThumb = multer({
       cb(new Error('Unexpected field name: ' + file.fieldname));
     }
   },
-  limits: { fileSize: 500 * 1024 * 1024 },
-});
+  () => getServerSettings().limits.maxVideoSize
+);
 
 export function makeMulterUploadMiddleware(multerUploadFunction) {
   return (req: any, res: any, next) => {
@@ -56,4 +154,3 @@ export function makeMulterUploadMiddleware(multerUploadFunction) {
     });
   };
 }
-
@@ -0,0 +1,24 @@
+import path from "path";
+
+const CONTENT_TYPES: { [key: string]: string } = {
+  ts: "video/MP2T",
+  m3u8: "application/vnd.apple.mpegurl",
+  m4s: "video/iso.segment",
+  mpd: "application/dash+xml",
+  vtt: "text/vtt",
+  webp: "image/webp",
+  jpg: "image/jpeg",
+  mp4: "video/mp4",
+  mov: "video/quicktime",
+  avi: "video/x-msvideo",
+};
+
+/**
+ * Returns the MIME type of a stored object from its key extension.
+ * @param {string} key - The object key or file name.
+ * @returns {string} The MIME type (application/octet-stream if unknown).
+ */
+export const getContentType = (key: string): string => {
+  const ext = path.extname(key).slice(1).toLowerCase();
+  return CONTENT_TYPES[ext] || "application/octet-stream";
+};
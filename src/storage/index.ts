@@ -0,0 +1,66 @@
+import { StorageDriver } from "./storage.driver";
+import { createLocalStorage } from "./local.driver";
+import { createS3Storage } from "./s3.driver";
+import { getServerSettings, VideoServerSettings } from "../server.settings";
+import {
+  STORAGE_DRIVER,
+  S3_BUCKET,
+  S3_REGION,
+  S3_ENDPOINT,
+  S3_ACCESS_KEY_ID,
+  S3_SECRET_ACCESS_KEY,
+  S3_FORCE_PATH_STYLE
+} from "../config/env";
+
+export * from "./storage.driver";
+export { getContentType } from "./contentTypes";
+
+/**
+ * Creates the storage driver given to createVideoServer, or else the one selected by the STORAGE_DRIVER environment variable.
+ * @param {VideoServerSettings} settings - The settings of the video server.
+ * @returns {StorageDriver} The storage driver.
+ */
+const createStorage = (settings: VideoServerSettings): StorageDriver => {
+  if (settings.storage) return settings.storage;
+
+  switch (STORAGE_DRIVER) {
+    case "local":
+      return createLocalStorage(settings.videoPath);
+    case "s3":
+      return createS3Storage({
+        bucket: S3_BUCKET,
+        region: S3_REGION,
+        endpoint: S3_ENDPOINT,
+        accessKeyId: S3_ACCESS_KEY_ID,
+        secretAccessKey: S3_SECRET_ACCESS_KEY,
+        forcePathStyle: S3_FORCE_PATH_STYLE,
+      });
+    default:
+      throw new Error(`Unknown storage driver: ${STORAGE_DRIVER}`);
+  }
+};
+
+let driver: StorageDriver | undefined;
+let driverSettings: VideoServerSettings | undefined;
+
+/**
+ * Returns the storage driver, creating it on first use (and again if the server is reconfigured).
+ * Creation is deferred so that the configuration is read after every module has been loaded.
+ * @returns {StorageDriver} The storage driver.
+ */
+export const getStorage = (): StorageDriver => {
+  const settings = getServerSettings();
+  if (!driver || driverSettings !== settings) {
+    driver = createStorage(settings);
+    driverSettings = settings;
+  }
+  return driver;
+};
+
+/**
+ * Builds the storage key of a file in a video folder.
+ * @param {string} videoId - The id of the video.
+ * @param {string} file - The file name inside the video folder.
+ * @returns {string} The storage key.
+ */
+export const videoKey = (videoId: string, file: string): string => `${videoId}/${file}`;
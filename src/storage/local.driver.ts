@@ -0,0 +1,130 @@
+import fs from "fs";
+import path from "path";
+import { StorageDriver } from "./storage.driver";
+import { deleteFolderUntilGone } from "../utils/deleteFolder";
+
+/**
+ * Creates a storage driver that keeps objects as files under a root folder on the local disk.
+ * @param {string} root - The root folder (e.g. "uploads/videos").
+ * @returns {StorageDriver} The local storage driver.
+ */
+export const createLocalStorage = (root: string): StorageDriver => {
+  const rootPath = path.resolve(root);
+
+  // Resolves a key to a path under the root folder, rejecting keys that escape it (e.g. containing "..")
+  // or that leave their top-level folder (e.g. "<id>/../<otherId>/file")
+  const resolve = (key: string): string => {
+    const folder = key.split("/")[0];
+    const normalized = path.posix.normalize(key);
+    if (normalized !== folder && !normalized.startsWith(`${folder}/`)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    const fullPath = path.resolve(rootPath, key);
+    if (fullPath !== rootPath && !fullPath.startsWith(rootPath + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return fullPath;
+  };
+
+  const stat = async (key: string) => {
+    try {
+      const fileStat = await fs.promises.stat(resolve(key));
+      if (!fileStat.isFile()) return null;
+      return { size: fileStat.size, lastModified: fileStat.mtime };
+    } catch (err: any) {
+      if (err.code === "ENOENT") return null;
+      throw err;
+    }
+  };
+
+  const list = async (prefix: string) => {
+    const keys: string[] = [];
+
+    const walk = async (dir: string) => {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(dir, { withFileTypes: true });
+      } catch (err: any) {
+        if (err.code === "ENOENT") return;
+        throw err;
+      }
+
+      for (const entry of entries) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(entryPath);
+        } else {
+          keys.push(path.relative(rootPath, entryPath).split(path.sep).join("/"));
+        }
+      }
+    };
+
+    await walk(resolve(prefix));
+    return keys;
+  };
+
+  return {
+    name: "local",
+
+    async writeFile(key, data) {
+      const filePath = resolve(key);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, data);
+    },
+
+    async readFile(key) {
+      return fs.promises.readFile(resolve(key));
+    },
+
+    async createReadStream(key, range) {
+      const filePath = resolve(key);
+      // Fail early (like a missing object would) instead of emitting the error on the stream
+      await fs.promises.access(filePath);
+      return fs.createReadStream(filePath, range ? { start: range.start, end: range.end } : undefined);
+    },
+
+    stat,
+
+    async exists(key) {
+      return (await stat(key)) !== null;
+    },
+
+    list,
+
+    async prefixSize(prefix) {
+      const keys = await list(prefix);
+      let total = 0;
+      for (const key of keys) {
+        total += (await stat(key))?.size || 0;
+      }
+      return total;
+    },
+
+    async delete(key) {
+      await fs.promises.rm(resolve(key), { force: true });
+    },
+
+    async deletePrefix(prefix) {
+      return deleteFolderUntilGone(resolve(prefix));
+    },
+
+    async importDirectory(localDir, prefix) {
+      const target = resolve(prefix);
+
+      // Processing already happened in place
+      if (path.resolve(localDir) === target) return;
+
+      await fs.promises.mkdir(target, { recursive: true });
+      await fs.promises.cp(localDir, target, { recursive: true });
+    },
+
+    async downloadToFile(key, localPath) {
+      const source = resolve(key);
+      if (path.resolve(localPath) === source) return;
+
+      await fs.promises.mkdir(path.dirname(localPath), { recursive: true });
+      await fs.promises.copyFile(source, localPath);
+    },
+  };
+};
@@ -0,0 +1,184 @@
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import {
+  S3Client,
+  S3ClientConfig,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+} from "@aws-sdk/client-s3";
+import { StorageDriver } from "./storage.driver";
+import { getContentType } from "./contentTypes";
+
+export interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean;
+}
+
+const isNotFound = (err: any) =>
+  err?.name === "NotFound" || err?.name === "NoSuchKey" || err?.$metadata?.httpStatusCode === 404;
+
+/**
+ * Creates a storage driver backed by an S3-compatible object store (AWS S3, MinIO, ...).
+ * @param {S3StorageOptions} options - Bucket, region, endpoint and credentials.
+ * @returns {StorageDriver} The S3 storage driver.
+ */
+export const createS3Storage = (options: S3StorageOptions): StorageDriver => {
+  const clientConfig: S3ClientConfig = {
+    region: options.region,
+    endpoint: options.endpoint,
+    forcePathStyle: options.forcePathStyle,
+  };
+
+  if (options.accessKeyId && options.secretAccessKey) {
+    clientConfig.credentials = {
+      accessKeyId: options.accessKeyId,
+      secretAccessKey: options.secretAccessKey,
+    };
+  }
+
+  const client = new S3Client(clientConfig);
+  const Bucket = options.bucket;
+
+  // Prefixes always address a "folder", so they end with a slash
+  const toPrefix = (prefix: string) => (prefix.endsWith("/") ? prefix : `${prefix}/`);
+
+  const stat = async (key: string) => {
+    try {
+      const head = await client.send(new HeadObjectCommand({ Bucket, Key: key }));
+      return { size: head.ContentLength || 0, lastModified: head.LastModified };
+    } catch (err) {
+      if (isNotFound(err)) return null;
+      throw err;
+    }
+  };
+
+  const listObjects = async (prefix: string) => {
+    const objects: { key: string; size: number }[] = [];
+    let ContinuationToken: string | undefined;
+
+    do {
+      const page = await client.send(new ListObjectsV2Command({
+        Bucket,
+        Prefix: toPrefix(prefix),
+        ContinuationToken,
+      }));
+      (page.Contents || []).forEach((obj) => {
+        if (obj.Key) objects.push({ key: obj.Key, size: obj.Size || 0 });
+      });
+      ContinuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (ContinuationToken);
+
+    return objects;
+  };
+
+  const list = async (prefix: string) => (await listObjects(prefix)).map((obj) => obj.key);
+
+  return {
+    name: "s3",
+
+    async writeFile(key, data, contentType) {
+      await client.send(new PutObjectCommand({
+        Bucket,
+        Key: key,
+        Body: data,
+        ContentType: contentType || getContentType(key),
+      }));
+    },
+
+    async readFile(key) {
+      const obj = await client.send(new GetObjectCommand({ Bucket, Key: key }));
+      return Buffer.from(await obj.Body!.transformToByteArray());
+    },
+
+    async createReadStream(key, range) {
+      const obj = await client.send(new GetObjectCommand({
+        Bucket,
+        Key: key,
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+      }));
+      return obj.Body as Readable;
+    },
+
+    stat,
+
+    async exists(key) {
+      return (await stat(key)) !== null;
+    },
+
+    list,
+
+    async prefixSize(prefix) {
+      const objects = await listObjects(prefix);
+      return objects.reduce((total, obj) => total + obj.size, 0);
+    },
+
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket, Key: key }));
+    },
+
+    async deletePrefix(prefix) {
+      try {
+        const keys = await list(prefix);
+        let ok = true;
+
+        // DeleteObjects accepts at most 1000 keys per request
+        for (let i = 0; i < keys.length; i += 1000) {
+          const result = await client.send(new DeleteObjectsCommand({
+            Bucket,
+            Delete: { Objects: keys.slice(i, i + 1000).map((Key) => ({ Key })), Quiet: true },
+          }));
+          if (result.Errors && result.Errors.length > 0) {
+            console.error(`Could not delete ${result.Errors.length} object(s) under ${prefix}`);
+            ok = false;
+          }
+        }
+
+        return ok;
+      } catch (err) {
+        console.error(`Unexpected error deleting prefix: ${prefix}`, err);
+        return false;
+      }
+    },
+
+    async importDirectory(localDir, prefix) {
+      const walk = async (dir: string) => {
+        const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+        for (const entry of entries) {
+          const entryPath = path.join(dir, entry.name);
+          if (entry.isDirectory()) {
+            await walk(entryPath);
+            continue;
+          }
+
+          const key = toPrefix(prefix) + path.relative(localDir, entryPath).split(path.sep).join("/");
+          const { size } = await fs.promises.stat(entryPath);
+          await client.send(new PutObjectCommand({
+            Bucket,
+            Key: key,
+            Body: fs.createReadStream(entryPath),
+            ContentLength: size,
+            ContentType: getContentType(key),
+          }));
+        }
+      };
+
+      await walk(localDir);
+    },
+
+    async downloadToFile(key, localPath) {
+      const obj = await client.send(new GetObjectCommand({ Bucket, Key: key }));
+      await fs.promises.mkdir(path.dirname(localPath), { recursive: true });
+      await pipeline(obj.Body as Readable, fs.createWriteStream(localPath));
+    },
+  };
+};
@@ -0,0 +1,52 @@
+import { Readable } from "stream";
+
+export interface StorageRange {
+  start: number;
+  end: number;
+}
+
+export interface StorageStat {
+  size: number;
+  lastModified?: Date;
+}
+
+/**
+ * Common interface of the storage backends.
+ * Objects are addressed by a key relative to the storage root, e.g. `<videoId>/<videoId>_master.m3u8`.
+ */
+export interface StorageDriver {
+  readonly name: string;
+
+  /** Writes a buffer or string to an object, replacing it if it exists. */
+  writeFile(key: string, data: Buffer | string, contentType?: string): Promise<void>;
+
+  /** Reads a whole object into memory. */
+  readFile(key: string): Promise<Buffer>;
+
+  /** Opens a read stream on an object, optionally limited to a byte range (inclusive). */
+  createReadStream(key: string, range?: StorageRange): Promise<Readable>;
+
+  /** Returns the size of an object, or null if it doesn't exist. */
+  stat(key: string): Promise<StorageStat | null>;
+
+  /** Checks whether an object exists. */
+  exists(key: string): Promise<boolean>;
+
+  /** Lists the keys of every object under a prefix. */
+  list(prefix: string): Promise<string[]>;
+
+  /** Returns the total size in bytes of the objects under a prefix. */
+  prefixSize(prefix: string): Promise<number>;
+
+  /** Deletes an object. Missing objects are ignored. */
+  delete(key: string): Promise<void>;
+
+  /** Deletes every object under a prefix. Resolves to false if some objects could not be deleted. */
+  deletePrefix(prefix: string): Promise<boolean>;
+
+  /** Copies every file of a local directory under a prefix. */
+  importDirectory(localDir: string, prefix: string): Promise<void>;
+
+  /** Copies an object to a local file. */
+  downloadToFile(key: string, localPath: string): Promise<void>;
+}
@@ -0,0 +1,319 @@
+import crypto from "crypto";
+import config from "config";
+import mongoose from "mongoose";
+import { File, IFile } from "../models/data.model";
+import { PlaybackSession } from "../models/analytics.model";
+import { Rendition } from "./transcodingLadder";
+import { SEGMENT_SECONDS } from "./videoUtils";
+
+interface AnalyticsSettings {
+  sessionIdleMinutes: number;     // A viewer fetching nothing for longer starts a new session (a new view)
+  heartbeatMaxSeconds: number;    // Upper bound of the playing time reported by a single heartbeat
+  completionThreshold: number;    // Share of the video a session must watch to count as completed
+  retentionDays: number;
+}
+
+export interface Viewer {
+  uid: string;          // uid of the signed URL
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface AnalyticsRange {
+  from?: Date;
+  to?: Date;
+}
+
+export interface SegmentFetch {
+  rendition: string;
+  index: number;        // Segment number, starting at 0
+}
+
+const getAnalyticsSettings = (): AnalyticsSettings => config.get("analytics");
+
+/**
+ * Identifies a viewer: share links are used by many viewers with the same uid, so the IP address and user agent are included.
+ * @param {Viewer} viewer - The viewer.
+ * @returns {string} A hash identifying the viewer.
+ */
+const getViewerKey = (viewer: Viewer): string => {
+  return crypto
+    .createHash("sha256")
+    .update(`${viewer.uid}|${viewer.ip || ""}|${viewer.userAgent || ""}`)
+    .digest("hex");
+};
+
+/**
+ * Recognizes a media segment from its file name.
+ * HLS segments are named `{id}_v{variant}_{NNN}.ts`, CMAF segments `{id}_chunk_{representation}_{NNNNN}.m4s` (numbered from 1).
+ * Playlists, manifests, init segments and audio-only representations are not segments of a rendition.
+ * @param {string} videoId - The id of the video.
+ * @param {string} file - The requested file name.
+ * @param {Rendition[]} renditions - The renditions of the video, in the order of the variants.
+ * @returns {SegmentFetch | null} The rendition and number of the segment, or null for other files.
+ */
+export const parseSegmentFile = (videoId: string, file: string, renditions: Rendition[] = []): SegmentFetch | null => {
+  const match = file.match(new RegExp(`^${videoId}_(?:v(\\d+)_(\\d+)\\.ts|chunk_(\\d+)_(\\d+)\\.m4s)$`));
+  if (!match) return null;
+
+  const variant = Number(match[1] ?? match[3]);
+  const index = match[2] !== undefined ? Number(match[2]) : Number(match[4]) - 1;
+
+  // CMAF audio representations come after the video ones
+  if (renditions.length > 0 && variant >= renditions.length) return null;
+
+  return { rendition: renditions[variant]?.name || `v${variant}`, index };
+};
+
+/**
+ * Finds the session of a viewer still active, or starts a new one.
+ * The unique index on the active sessions makes concurrent first fetches share a single session.
+ * @param {IFile} fileData - The watched video.
+ * @param {Viewer} viewer - The viewer.
+ * @param {object} update - The update applied to the session.
+ */
+const updateActiveSession = async (fileData: IFile, viewer: Viewer, update: any) => {
+  const now = new Date();
+  const cutoff = new Date(now.getTime() - getAnalyticsSettings().sessionIdleMinutes * 60 * 1000);
+  const viewerKey = getViewerKey(viewer);
+
+  // A viewer idle for too long starts a new session
+  await PlaybackSession.updateMany(
+    { videoId: fileData._id, viewerKey, active: true, lastSeenAt: { $lt: cutoff } },
+    { $unset: { active: 1 } }
+  );
+
+  const upsert = () => PlaybackSession.findOneAndUpdate(
+    { videoId: fileData._id, viewerKey, active: true },
+    {
+      ...update,
+      $set: { ...update.$set, lastSeenAt: now },
+      $setOnInsert: {
+        ownerId: fileData.userId,
+        viewerId: viewer.uid,
+        duration: fileData.duration || 0,
+        startedAt: now,
+      },
+    },
+    { upsert: true, new: true }
+  );
+
+  try {
+    return await upsert();
+  } catch (err: any) {
+    // A concurrent fetch of the viewer started the session: update it instead
+    if (err?.code !== 11000) throw err;
+    return upsert();
+  }
+};
+
+/**
+ * Records the fetch of a file through the signed stream route. Only media segments are recorded.
+ * Never throws: analytics must not break playback.
+ * @param {IFile} fileData - The watched video.
+ * @param {Viewer} viewer - The viewer.
+ * @param {string} file - The requested file name.
+ */
+export const recordSegmentFetch = async (fileData: IFile, viewer: Viewer, file: string) => {
+  try {
+    const segment = parseSegmentFile(fileData._id.toString(), file, fileData.renditions);
+    if (!segment) return;
+
+    await updateActiveSession(fileData, viewer, {
+      $addToSet: {
+        segments: segment.index,
+        renditionSegments: `${segment.rendition}:${segment.index}`,
+      },
+      $max: { maxPosition: segment.index * SEGMENT_SECONDS },
+    });
+  } catch (err) {
+    console.error(`[analytics] Could not record segment ${file} of video ${fileData._id}:`, err);
+  }
+};
+
+/**
+ * Records a heartbeat of a player: its position and the time played since the previous heartbeat.
+ * The heartbeats are attached to the session of the segments fetched by the same viewer, so that a playback is a single view.
+ * @param {IFile} fileData - The watched video.
+ * @param {Viewer} viewer - The viewer.
+ * @param {object} heartbeat - The session id chosen by the player, the position and the seconds played since the previous heartbeat.
+ */
+export const recordHeartbeat = async (
+  fileData: IFile,
+  viewer: Viewer,
+  heartbeat: { sessionId: string; position: number; playedSeconds?: number }
+) => {
+  const playedSeconds = Math.min(heartbeat.playedSeconds || 0, getAnalyticsSettings().heartbeatMaxSeconds);
+  const update = {
+    $inc: { heartbeatSeconds: playedSeconds },
+    $max: { maxPosition: heartbeat.position },
+    $set: { lastHeartbeatAt: new Date() },
+  };
+
+  const known = await PlaybackSession.findOneAndUpdate(
+    { videoId: fileData._id, viewerKey: getViewerKey(viewer), clientSessionId: heartbeat.sessionId },
+    { ...update, $set: { ...update.$set, lastSeenAt: new Date() } }
+  );
+  if (known) return;
+
+  // First heartbeat of the session: claim the session of the segments, or start one
+  await updateActiveSession(fileData, viewer, {
+    ...update,
+    $set: { ...update.$set, clientSessionId: heartbeat.sessionId },
+  });
+};
+
+/**
+ * Builds the stages computing the watched time and share of each session.
+ * The heartbeats are the most accurate; without them the distinct segments fetched are counted (players buffer ahead).
+ * @returns {object[]} The aggregation stages, adding `watchedSeconds` and `watchedShare`.
+ */
+const sessionStatsStages = () => [
+  {
+    $addFields: {
+      watchedSeconds: {
+        $let: {
+          vars: {
+            watched: {
+              $cond: [
+                { $gt: ["$heartbeatSeconds", 0] },
+                "$heartbeatSeconds",
+                { $multiply: [{ $size: "$segments" }, SEGMENT_SECONDS] },
+              ],
+            },
+          },
+          in: { $cond: [{ $gt: ["$duration", 0] }, { $min: ["$$watched", "$duration"] }, "$$watched"] },
+        },
+      },
+    },
+  },
+  {
+    $addFields: {
+      watchedShare: { $cond: [{ $gt: ["$duration", 0] }, { $divide: ["$watchedSeconds", "$duration"] }, null] },
+    },
+  },
+];
+
+/**
+ * Builds the totals of a group of sessions.
+ * @returns {object} The accumulators of a $group stage.
+ */
+const summaryAccumulators = () => ({
+  views: { $sum: 1 },
+  viewers: { $addToSet: "$viewerKey" },
+  watchTimeSeconds: { $sum: "$watchedSeconds" },
+  averageWatchedShare: { $avg: "$watchedShare" },
+  completions: {
+    $sum: { $cond: [{ $gte: ["$watchedShare", getAnalyticsSettings().completionThreshold] }, 1, 0] },
+  },
+});
+
+/**
+ * Formats the totals of a group of sessions.
+ * @param {any} group - The result of summaryAccumulators.
+ * @returns {object} The public totals.
+ */
+const formatSummary = (group: any) => ({
+  views: group?.views || 0,
+  uniqueViewers: group?.viewers?.length || 0,
+  watchTimeSeconds: Math.round(group?.watchTimeSeconds || 0),
+  averagePercentWatched: group?.averageWatchedShare != null ? Math.round(group.averageWatchedShare * 1000) / 10 : null,
+  completionRate: group?.views ? Math.round((group.completions / group.views) * 1000) / 1000 : null,
+});
+
+const buildRangeFilter = (range: AnalyticsRange) => {
+  if (!range.from && !range.to) return {};
+  return {
+    startedAt: {
+      ...(range.from ? { $gte: range.from } : {}),
+      ...(range.to ? { $lte: range.to } : {}),
+    },
+  };
+};
+
+/**
+ * Computes the analytics of a video: views, unique viewers, watch time, average share watched, completion rate,
+ * segments served per rendition and daily views.
+ * @param {string} videoId - The id of the video.
+ * @param {AnalyticsRange} range - Only the sessions started in this range (optional).
+ * @returns {Promise<object>} The analytics of the video.
+ */
+export const getVideoAnalytics = async (videoId: string, range: AnalyticsRange = {}) => {
+  const match = { videoId: new mongoose.Types.ObjectId(videoId), ...buildRangeFilter(range) };
+
+  const [[summary], renditions, daily] = await Promise.all([
+    PlaybackSession.aggregate([
+      { $match: match },
+      ...sessionStatsStages(),
+      { $group: { _id: null, ...summaryAccumulators() } },
+    ]),
+    PlaybackSession.aggregate([
+      { $match: match },
+      { $unwind: "$renditionSegments" },
+      { $group: { _id: { $arrayElemAt: [{ $split: ["$renditionSegments", ":"] }, 0] }, segments: { $sum: 1 } } },
+      { $sort: { segments: -1 } },
+    ]),
+    PlaybackSession.aggregate([
+      { $match: match },
+      ...sessionStatsStages(),
+      {
+        $group: {
+          _id: { $dateToString: { format: "%Y-%m-%d", date: "$startedAt" } },
+          views: { $sum: 1 },
+          watchTimeSeconds: { $sum: "$watchedSeconds" },
+        },
+      },
+      { $sort: { _id: 1 } },
+    ]),
+  ]);
+
+  const totalSegments = renditions.reduce((sum, rendition) => sum + rendition.segments, 0);
+
+  return {
+    videoId,
+    ...formatSummary(summary),
+    renditions: renditions.map((rendition) => ({
+      rendition: rendition._id,
+      segments: rendition.segments,
+      seconds: rendition.segments * SEGMENT_SECONDS,
+      share: Math.round((rendition.segments / totalSegments) * 1000) / 1000,
+    })),
+    daily: daily.map((day) => ({ date: day._id, views: day.views, watchTimeSeconds: Math.round(day.watchTimeSeconds) })),
+  };
+};
+
+/**
+ * Computes the analytics of every video of a user, with the totals.
+ * @param {string} userId - The owner of the videos.
+ * @param {AnalyticsRange} range - Only the sessions started in this range (optional).
+ * @returns {Promise<object>} The totals and the analytics of each watched video, most viewed first.
+ */
+export const getUserAnalytics = async (userId: string, range: AnalyticsRange = {}) => {
+  const match = { ownerId: new mongoose.Types.ObjectId(userId), ...buildRangeFilter(range) };
+
+  const [[totals], videos] = await Promise.all([
+    PlaybackSession.aggregate([
+      { $match: match },
+      ...sessionStatsStages(),
+      { $group: { _id: null, ...summaryAccumulators() } },
+    ]),
+    PlaybackSession.aggregate([
+      { $match: match },
+      ...sessionStatsStages(),
+      { $group: { _id: "$videoId", ...summaryAccumulators() } },
+      { $sort: { views: -1 } },
+    ]),
+  ]);
+
+  const titles = await File.find({ _id: { $in: videos.map((video) => video._id) } }).select("title originalname");
+  const titleById = new Map(titles.map((file) => [file._id.toString(), file.title || file.originalname]));
+
+  return {
+    ...formatSummary(totals),
+    videos: videos.map((video) => ({
+      videoId: video._id,
+      title: titleById.get(video._id.toString()) ?? null,
+      ...formatSummary(video),
+    })),
+  };
+};
@@ -0,0 +1,147 @@
+import { File, IFile } from "../models/data.model";
+import { Packaging, RenditionProfile } from "./transcodingLadder";
+import { deleteVideo, VideoArtifact } from "./videoUtils";
+import { reprocessVideo } from "./jobQueue";
+import { buildVideoFilterStages, VideoListQuery } from "./videoQuery";
+
+export type BulkAction = "delete" | "setCategory" | "addTags" | "removeTags" | "reprocess";
+export const BULK_ACTIONS: BulkAction[] = ["delete", "setCategory", "addTags", "removeTags", "reprocess"];
+
+// Maximum number of videos of a bulk operation, given by ids or matched by a filter
+export const MAX_BULK_VIDEOS = 200;
+
+export type BulkItemStatus =
+  | "done"          // Applied
+  | "queued"        // Reprocessing queued
+  | "partial"       // Deleted, but some files could not be removed
+  | "not_found"
+  | "forbidden"     // Video of another user
+  | "conflict"      // Already being processed
+  | "failed";
+
+export interface BulkItemResult {
+  id: string;
+  status: BulkItemStatus;
+  error?: string;
+  jobId?: string;
+}
+
+export interface BulkOperation {
+  action: BulkAction;
+  category?: string;
+  tags?: string[];
+  artifacts?: VideoArtifact[];
+  ladder?: RenditionProfile[];
+  packaging?: Packaging;
+}
+
+/**
+ * Finds the videos of a user matching the filters of a listing.
+ * @param {string} userId - The owner of the videos.
+ * @param {VideoListQuery} filter - The filters, like `GET /videos`.
+ * @returns {Promise<string[] | null>} The ids of the videos, or null if more than MAX_BULK_VIDEOS match.
+ */
+export const findBulkVideoIds = async (userId: string, filter: VideoListQuery): Promise<string[] | null> => {
+  const videos = await File.aggregate([
+    ...buildVideoFilterStages({ ...filter, userId, viewerId: userId }),
+    { $sort: { _id: 1 } },
+    { $limit: MAX_BULK_VIDEOS + 1 },
+    { $project: { _id: 1 } },
+  ]);
+
+  if (videos.length > MAX_BULK_VIDEOS) return null;
+  return videos.map((video) => video._id.toString());
+};
+
+/**
+ * Applies an operation to one video.
+ * @param {IFile} video - The video, owned by the user.
+ * @param {BulkOperation} operation - The operation.
+ * @returns {Promise<object>} The result of the video, and for deletions the promise of the file deletion.
+ */
+const applyToVideo = async (
+  video: IFile,
+  operation: BulkOperation
+): Promise<{ result: BulkItemResult; filesDeleted?: Promise<boolean> }> => {
+  const id = video._id.toString();
+
+  switch (operation.action) {
+    case "delete": {
+      const { filesDeleted } = await deleteVideo(video);
+      return { result: { id, status: "done" }, filesDeleted };
+    }
+    case "setCategory":
+      await File.updateOne({ _id: id }, { $set: { category: operation.category } });
+      return { result: { id, status: "done" } };
+    case "addTags":
+      await File.updateOne({ _id: id }, { $addToSet: { tags: { $each: operation.tags } } });
+      return { result: { id, status: "done" } };
+    case "removeTags":
+      await File.updateOne({ _id: id }, { $pullAll: { tags: operation.tags } });
+      return { result: { id, status: "done" } };
+    case "reprocess": {
+      const queued = await reprocessVideo(video, {
+        artifacts: operation.artifacts,
+        ladder: operation.ladder,
+        packaging: operation.packaging,
+      });
+      if (!queued) return { result: { id, status: "conflict", error: "Video is already being processed" } };
+      return { result: { id, status: "queued", jobId: queued.job._id.toString() } };
+    }
+  }
+};
+
+/**
+ * Applies an operation to several videos, one at a time, checking the ownership of each.
+ * A failure only affects its own video. Deletions wait for the removal of the files (retried while they are busy),
+ * so that videos whose files could not all be removed are reported as `partial`.
+ * @param {string} userId - The user applying the operation.
+ * @param {string[]} ids - The ids of the videos.
+ * @param {BulkOperation} operation - The operation.
+ * @returns {Promise<BulkItemResult[]>} The result of each video, in the order of the ids.
+ */
+export const applyBulkOperation = async (
+  userId: string,
+  ids: string[],
+  operation: BulkOperation
+): Promise<BulkItemResult[]> => {
+  const uniqueIds = [...new Set(ids)];
+  const videos = await File.find({ _id: { $in: uniqueIds } });
+  const byId = new Map(videos.map((video) => [video._id.toString(), video]));
+
+  const results: BulkItemResult[] = [];
+  const pendingDeletions: { result: BulkItemResult; filesDeleted: Promise<boolean> }[] = [];
+
+  for (const id of uniqueIds) {
+    const video = byId.get(id);
+
+    if (!video) {
+      results.push({ id, status: "not_found", error: "Video not found" });
+      continue;
+    }
+
+    if (video.userId.toString() !== userId) {
+      results.push({ id, status: "forbidden", error: "Not authorized to modify this video" });
+      continue;
+    }
+
+    try {
+      const { result, filesDeleted } = await applyToVideo(video, operation);
+      results.push(result);
+      if (filesDeleted) pendingDeletions.push({ result, filesDeleted });
+    } catch (err) {
+      console.error(`[bulk] Error applying ${operation.action} to video ${id}:`, err);
+      results.push({ id, status: "failed", error: (err as Error).message || "Unexpected error" });
+    }
+  }
+
+  // The folders are deleted concurrently, with retries while busy
+  for (const { result, filesDeleted } of pendingDeletions) {
+    if (!(await filesDeleted)) {
+      result.status = "partial";
+      result.error = "Video deleted, but some of its files could not be removed";
+    }
+  }
+
+  return results;
+};
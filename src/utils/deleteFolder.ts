@@ -0,0 +1,43 @@
+import fs from "fs";
+import { ENABLE_LOGS } from "../config/env";
+
+/**
+ * Deletes a folder, retrying while it is busy (e.g. files still open by ffmpeg or a stream).
+ * @param {string} folderPath - The folder to delete.
+ * @param {number} delayMs - Delay between attempts.
+ * @param {number} maxRetries - Maximum number of retries.
+ * @returns {Promise<boolean>} True if the folder is gone, false if it could not be deleted.
+ */
+export const deleteFolderUntilGone = async (folderPath: string, delayMs = 1000, maxRetries = 10): Promise<boolean> => {
+  let retries = 0;
+
+  while (retries < maxRetries) {
+    try {
+      await fs.promises.rm(folderPath, { recursive: true, force: true });
+      if (ENABLE_LOGS) {
+        console.log(`Successfully deleted folder: ${folderPath}`);
+      }
+      return true;
+    } catch (err: any) {
+      if (err.code === "ENOENT") {
+        // Folder doesn't exist, that's fine
+        return true;
+      }
+
+      const retriableErrors = ["EBUSY", "ENOTEMPTY"];
+      if (retriableErrors.includes(err.code)) {
+        retries++;
+        console.log(`Retry ${retries}/${maxRetries} deleting folder: ${folderPath}`);
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+        continue;
+      }
+
+      console.error(`Unexpected error deleting folder: ${folderPath}`, err);
+      return false;
+    }
+  }
+
+  // If we get here, we've reached the maximum number of retries
+  console.error(`Could not delete folder after ${maxRetries} attempts: ${folderPath}`);
+  return false;
+};
@@ -0,0 +1,301 @@
+import { File } from "../models/data.model";
+import { Job, IJob } from "../models/job.model";
+import { ENABLE_LOGS } from "../config/env";
+import * as videoUtils from "./videoUtils";
+import { emitProgress } from "./processingEvents";
+import { getServerSettings } from "../server.settings";
+import { emitWebhookEvent } from "./webhooks";
+import { RenditionProfile, Packaging } from "./transcodingLadder";
+
+let activeJobs = 0;
+const runningJobs = new Set<Promise<void>>();
+let pollTimer: NodeJS.Timeout | undefined;
+let stopped = false;
+
+/**
+ * Computes the delay before the next attempt of a failed job.
+ * The delay doubles at each attempt (exponential backoff).
+ * @param {number} attempts - The number of attempts already made.
+ * @returns {number} The delay in milliseconds.
+ */
+const getRetryDelay = (attempts: number): number => {
+  return getServerSettings().jobQueue.retryDelayMs * Math.pow(2, Math.max(attempts - 1, 0));
+};
+
+/**
+ * Atomically claims the next queued job whose run date has passed.
+ * Claiming through findOneAndUpdate guarantees that a job is never run twice.
+ * @returns {Promise<IJob | null>} The claimed job, or null if nothing is ready.
+ */
+const claimNextJob = (): Promise<IJob | null> => {
+  return Job.findOneAndUpdate(
+    { status: "queued", runAt: { $lte: new Date() } },
+    { $set: { status: "running", startedAt: new Date() }, $inc: { attempts: 1 } },
+    { sort: { runAt: 1 }, new: true }
+  );
+};
+
+/**
+ * Runs a claimed job and stores its outcome.
+ * On failure the job is re-queued with backoff until maxAttempts is reached,
+ * then it is marked as failed and the video status is set to "error", unless the video still has playable renditions.
+ * @param {IJob} job - The claimed job.
+ */
+const runJob = async (job: IJob) => {
+  const videoId = job.videoId.toString();
+
+  try {
+    const fileObj = await File.findById(videoId);
+
+    if (!fileObj) {
+      console.warn(`[jobQueue] Video ${videoId} no longer exists, dropping job ${job._id}`);
+      await Job.findByIdAndUpdate(job._id, { status: "completed", finishedAt: new Date() });
+      return;
+    }
+
+    if (ENABLE_LOGS) {
+      console.log(`[jobQueue] Running job ${job._id} for video ${videoId} (attempt ${job.attempts}/${job.maxAttempts})`);
+    }
+
+    // A reprocessing brings its encoding settings: they are stored on the video with the new renditions
+    if (job.payload?.ladder) fileObj.ladder = job.payload.ladder;
+    if (job.payload?.packaging) fileObj.packaging = job.payload.packaging;
+
+    await videoUtils.createVideo(fileObj, job.payload?.customThumbnailPath, job.payload?.artifacts);
+
+    await Job.findByIdAndUpdate(job._id, { status: "completed", finishedAt: new Date() });
+    if (fileObj.interruptedAt) {
+      await File.findByIdAndUpdate(videoId, { $unset: { interruptedAt: 1 } });
+    }
+  } catch (err: any) {
+    const message = err?.message || String(err);
+
+    // Checkpoint: the job is queued again without counting the attempt, and resumes at next start
+    if (videoUtils.isProcessingInterrupted()) {
+      console.warn(`[jobQueue] Job ${job._id} for video ${videoId} interrupted by shutdown, queued for resumption`);
+      await Job.findByIdAndUpdate(job._id, {
+        status: "queued",
+        runAt: new Date(),
+        lastError: message,
+        $inc: { attempts: -1 },
+      });
+      await File.findByIdAndUpdate(videoId, { interruptedAt: new Date() });
+      emitProgress(videoId, "queued", 0, "Processing interrupted by a server restart, it will resume automatically");
+      return;
+    }
+
+    if (job.attempts < job.maxAttempts) {
+      const delay = getRetryDelay(job.attempts);
+      console.warn(`[jobQueue] Job ${job._id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${delay}ms: ${message}`);
+      await Job.findByIdAndUpdate(job._id, {
+        status: "queued",
+        runAt: new Date(Date.now() + delay),
+        lastError: message,
+      });
+      emitProgress(videoId, "queued", 0, `Retrying in ${Math.round(delay / 1000)}s after error: ${message}`);
+      return;
+    }
+
+    console.error(`[jobQueue] Job ${job._id} failed permanently for video ${videoId}:`, message);
+    await Job.findByIdAndUpdate(job._id, {
+      status: "failed",
+      lastError: message,
+      finishedAt: new Date(),
+    });
+    // A video that can already be played (failed reprocessing) keeps its renditions and status
+    const failed = await File.findOneAndUpdate({ _id: videoId, hls: null }, { videoStatus: "error" }, { new: true });
+    const videoStatus = failed ? "error" : "uploaded";
+    emitProgress(videoId, "error", 0, message);
+    emitWebhookEvent("video.failed", job.userId.toString(), { videoId, videoStatus, error: message });
+  }
+};
+
+/**
+ * Starts as many queued jobs as the concurrency limit allows.
+ * Each finished job triggers a new tick so the queue drains without waiting for the poll interval.
+ */
+const tick = async () => {
+  while (!stopped && activeJobs < getServerSettings().jobQueue.concurrency) {
+    let job: IJob | null;
+
+    try {
+      job = await claimNextJob();
+    } catch (err) {
+      console.error("[jobQueue] Error claiming next job:", err);
+      return;
+    }
+
+    if (!job) return;
+
+    activeJobs++;
+    const run: Promise<void> = runJob(job)
+      .catch((err) => {
+        console.error(`[jobQueue] Unexpected error running job ${job!._id}:`, err);
+      })
+      .finally(() => {
+        activeJobs--;
+        runningJobs.delete(run);
+        tick();
+      });
+    runningJobs.add(run);
+  }
+};
+
+/**
+ * Adds a processing job for a video to the persistent queue.
+ * The job is stored in MongoDB before it runs, so it survives a server restart.
+ * @param {any} fileObj - The File document to process.
+ * @param {object} payload - Job options (e.g. customThumbnailPath, or the artifacts to rebuild).
+ * @returns {Promise<IJob>} The created job.
+ */
+export const enqueueVideoJob = async (
+  fileObj,
+  payload: {
+    customThumbnailPath?: string,
+    artifacts?: videoUtils.VideoArtifact[],
+    ladder?: RenditionProfile[],
+    packaging?: Packaging,
+  } = {}
+) => {
+  const job = await Job.create({
+    videoId: fileObj._id,
+    userId: fileObj.userId,
+    type: "process",
+    payload,
+    maxAttempts: getServerSettings().jobQueue.maxAttempts,
+  });
+
+  emitProgress(fileObj._id.toString(), "queued");
+
+  tick();
+  return job;
+};
+
+export interface ReprocessOptions {
+  artifacts?: videoUtils.VideoArtifact[];   // Artifacts to rebuild, all of them by default
+  ladder?: RenditionProfile[];              // New ladder of the renditions
+  packaging?: Packaging;                    // New packaging of the renditions
+}
+
+/**
+ * Processes a video again from its stored original (e.g. after a failure, or when the encoding settings changed).
+ * The video keeps serving its current files while the job runs: the new renditions replace the previous ones once
+ * they are complete, and the new ladder or packaging is stored with them.
+ * Artifacts missing from the video are always rebuilt, and a new ladder or packaging implies the HLS renditions.
+ * @param {any} fileObj - The File document to process.
+ * @param {ReprocessOptions} options - What to rebuild and how.
+ * @returns {Promise<{ job: IJob, artifacts: VideoArtifact[] } | null>} The created job and the rebuilt artifacts,
+ * or null if a job of the video is already queued or running.
+ */
+export const reprocessVideo = async (fileObj, options: ReprocessOptions = {}) => {
+  const requested = new Set(options.artifacts && options.artifacts.length > 0 ? options.artifacts : videoUtils.VIDEO_ARTIFACTS);
+  if (!fileObj.hls || options.ladder || options.packaging) requested.add("hls");
+  if (!fileObj.static_thumbnail) requested.add("static_thumbnail");
+  if (!fileObj.animated_thumbnail) requested.add("animated_thumbnail");
+  if (!fileObj.sprite_thumbnails) requested.add("sprite");
+  const artifacts = videoUtils.VIDEO_ARTIFACTS.filter((artifact) => requested.has(artifact));
+
+  const payload: any = { artifacts };
+  if (options.ladder) payload.ladder = options.ladder;
+  if (options.packaging) payload.packaging = options.packaging;
+
+  // The unique index on the pending jobs of a video refuses a second one, even when requested concurrently
+  let job: IJob;
+  try {
+    job = await enqueueVideoJob(fileObj, payload);
+  } catch (err: any) {
+    if (err?.code === 11000) return null;
+    throw err;
+  }
+
+  // Only videos without renditions are shown as being processed
+  const update: any = { $unset: { interruptedAt: 1 } };
+  if (!fileObj.hls) update.videoStatus = "inProgress";
+  await File.findByIdAndUpdate(fileObj._id, update);
+
+  return { job, artifacts };
+};
+
+/**
+ * Enqueues a job for the videos waiting to be processed without a queued or running job
+ * (e.g. the process stopped between the creation of the video and of its job).
+ * @returns {Promise<number>} The number of enqueued jobs.
+ */
+const enqueueOrphanVideos = async () => {
+  const pending = await Job.distinct("videoId", { status: { $in: ["queued", "running"] } });
+  const orphans = await File.find({ videoStatus: "inProgress", _id: { $nin: pending } });
+  let enqueued = 0;
+
+  for (const fileObj of orphans) {
+    try {
+      await enqueueVideoJob(fileObj);
+      enqueued++;
+    } catch (err: any) {
+      // A job was created meanwhile
+      if (err?.code !== 11000) throw err;
+    }
+  }
+
+  return enqueued;
+};
+
+/**
+ * Starts the job queue.
+ * Jobs left in "running" state by a previous process (crash or restart) are put back in the queue,
+ * videos left without a job are enqueued, then the queue is polled periodically to pick up delayed retries.
+ */
+export const startJobQueue = async () => {
+  const recovered = await Job.updateMany(
+    { status: "running" },
+    { $set: { status: "queued", runAt: new Date() } }
+  );
+
+  if (recovered.modifiedCount > 0) {
+    console.log(`[jobQueue] Recovered ${recovered.modifiedCount} interrupted job(s)`);
+  }
+
+  const orphans = await enqueueOrphanVideos();
+  if (orphans > 0) {
+    console.log(`[jobQueue] Enqueued ${orphans} video(s) left without a job`);
+  }
+
+  stopped = false;
+  videoUtils.resumeProcessing();
+
+  if (!pollTimer) {
+    pollTimer = setInterval(tick, getServerSettings().jobQueue.pollIntervalMs);
+  }
+
+  tick();
+};
+
+/**
+ * Stops picking up new jobs and waits for the running ones.
+ * Jobs still running after the timeout are interrupted: their ffmpeg processes are killed
+ * and they are queued again (see runJob), so that they resume at next start.
+ * @param {number} timeoutMs - How long running jobs may take to finish.
+ * @returns {Promise<void>} Resolves when no job is running anymore.
+ */
+export const stopJobQueue = async (timeoutMs = 0) => {
+  stopped = true;
+
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = undefined;
+  }
+
+  if (runningJobs.size === 0) return;
+
+  let timer: NodeJS.Timeout | undefined;
+  const finished = await Promise.race([
+    Promise.all(runningJobs).then(() => true),
+    new Promise<boolean>((resolve) => { timer = setTimeout(() => resolve(false), timeoutMs); }),
+  ]);
+  clearTimeout(timer);
+
+  if (!finished) {
+    console.warn(`[jobQueue] Interrupting ${runningJobs.size} running job(s) after ${timeoutMs}ms`);
+    videoUtils.interruptProcessing();
+    await Promise.all(runningJobs);
+  }
+};
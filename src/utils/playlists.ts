@@ -0,0 +1,123 @@
+import config from "config";
+import { File, IFile } from "../models/data.model";
+import { Playlist, IPlaylist } from "../models/playlist.model";
+import { getStorage, videoKey } from "../storage";
+
+/**
+ * Returns the maximum number of videos of a playlist, `playlists.maxVideos` in config/default.json.
+ * @returns {number} The maximum number of videos.
+ */
+export const getMaxPlaylistVideos = (): number => config.get<number>("playlists.maxVideos");
+
+/**
+ * Builds the storage key of the uploaded cover of a playlist.
+ * @param {string} playlistId - The id of the playlist.
+ * @returns {string} The storage key.
+ */
+export const playlistCoverKey = (playlistId: string): string => `playlists/${playlistId}_cover.webp`;
+
+/**
+ * Formats a playlist for its owner, without its items.
+ * @param {IPlaylist} playlist - The playlist.
+ * @returns {object} The playlist as returned by the API.
+ */
+export const serializePlaylist = (playlist: IPlaylist) => ({
+  _id: playlist._id,
+  title: playlist.title,
+  description: playlist.description || "",
+  videoCount: playlist.videos.length,
+  coverVideoId: playlist.coverVideoId || null,
+  cover: `/playlists/${playlist._id}/cover`,
+  createdAt: playlist.createdAt,
+  updatedAt: playlist.updatedAt,
+});
+
+/**
+ * Formats a video as an item of a playlist.
+ * @param {IFile} file - The video.
+ * @param {number} position - The position of the video in the playlist, from 0.
+ * @returns {object} The item as returned by the API.
+ */
+const serializePlaylistItem = (file: IFile, position: number) => ({
+  position,
+  _id: file._id,
+  title: file.title || file.originalname,
+  thumbnail: `/videos/thumb/static/${file._id}`,
+  duration: file.duration,
+  videoStatus: file.videoStatus,
+});
+
+/**
+ * Loads the videos of a playlist, in playlist order.
+ * @param {IPlaylist} playlist - The playlist.
+ * @returns {Promise<IFile[]>} The videos (deleted ones are skipped).
+ */
+export const getPlaylistVideos = async (playlist: IPlaylist): Promise<IFile[]> => {
+  const files = await File.find({ _id: { $in: playlist.videos } });
+  const byId = new Map(files.map((file) => [file._id.toString(), file]));
+
+  return playlist.videos.flatMap((id) => byId.get(id.toString()) || []);
+};
+
+/**
+ * Formats a playlist with its items, in order.
+ * @param {IPlaylist} playlist - The playlist.
+ * @returns {Promise<object>} The playlist as returned by the API, with its `videos`.
+ */
+export const serializePlaylistWithItems = async (playlist: IPlaylist) => {
+  const videos = await getPlaylistVideos(playlist);
+  return {
+    ...serializePlaylist(playlist),
+    videos: videos.map((file, position) => serializePlaylistItem(file, position)),
+  };
+};
+
+/**
+ * Checks that a new order contains exactly the videos of the playlist, each once.
+ * @param {string[]} current - The ids of the videos, in the current order.
+ * @param {string[]} requested - The ids of the videos, in the new order.
+ * @returns {boolean} True if the new order is a permutation of the current one.
+ */
+export const isSamePlaylistContent = (current: string[], requested: string[]): boolean => {
+  if (current.length !== requested.length) return false;
+  if (new Set(requested).size !== requested.length) return false;
+
+  const ids = new Set(current);
+  return requested.every((id) => ids.has(id));
+};
+
+/**
+ * Finds the image shown as cover of a playlist: the uploaded cover, else the thumbnail of the cover video
+ * (the first video when none was chosen), custom thumbnail first.
+ * @param {IPlaylist} playlist - The playlist.
+ * @returns {Promise<string | null>} The storage key of the image, or null if the playlist has no cover.
+ */
+export const findPlaylistCoverKey = async (playlist: IPlaylist): Promise<string | null> => {
+  const storage = getStorage();
+
+  if (playlist.cover && (await storage.exists(playlist.cover))) return playlist.cover;
+
+  const coverVideoId = playlist.coverVideoId || playlist.videos[0];
+  if (!coverVideoId) return null;
+
+  const file = await File.findById(coverVideoId);
+  if (!file || file.videoStatus !== "uploaded") return null;
+
+  const id = file._id.toString();
+  const candidates = [videoKey(id, `${id}_custom.webp`)];
+  if (file.static_thumbnail) candidates.push(videoKey(id, file.static_thumbnail));
+
+  for (const key of candidates) {
+    if (await storage.exists(key)) return key;
+  }
+  return null;
+};
+
+/**
+ * Removes a video from every playlist, e.g. when it is deleted.
+ * @param {string} videoId - The id of the video.
+ */
+export const removeVideoFromPlaylists = async (videoId: string) => {
+  await Playlist.updateMany({ coverVideoId: videoId }, { $unset: { coverVideoId: 1 } });
+  await Playlist.updateMany({ videos: videoId }, { $pull: { videos: videoId }, $set: { updatedAt: new Date() } });
+};
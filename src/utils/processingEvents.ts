@@ -0,0 +1,135 @@
+import { EventEmitter } from "events";
+
+export type ProcessingStage =
+  | "queued"
+  | "probe"
+  | "thumbnail"
+  | "hls"
+  | "animated_thumbnail"
+  | "sprite"
+  | "done"
+  | "error";
+
+export interface ProcessingEvent {
+  videoId: string;
+  stage: ProcessingStage;
+  percent: number;
+  message?: string;
+  timestamp: string;
+}
+
+// Share of the overall progress (start, end) taken by each stage
+const STAGE_RANGES: { [stage in ProcessingStage]: [number, number] } = {
+  queued: [0, 0],
+  probe: [0, 5],
+  thumbnail: [5, 10],
+  hls: [10, 90],
+  animated_thumbnail: [90, 95],
+  sprite: [95, 99],
+  done: [100, 100],
+  error: [0, 0],
+};
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+// Emitted once on shutdown, so that open progress streams end instead of holding the server
+const SHUTDOWN = Symbol("shutdown");
+
+const lastEvents = new Map<string, ProcessingEvent>();
+
+/**
+ * Publishes a processing progress event for a video.
+ * The stage percentage is mapped to an overall percentage using STAGE_RANGES.
+ * Events with the same stage and percentage as the previous one are dropped, to avoid flooding subscribers with ffmpeg progress ticks.
+ * @param {string} videoId - The id of the video.
+ * @param {ProcessingStage} stage - The current processing stage.
+ * @param {number} stagePercent - Progress within the stage (0-100).
+ * @param {string} message - Optional human readable message.
+ */
+export const emitProgress = (
+  videoId: string,
+  stage: ProcessingStage,
+  stagePercent = 0,
+  message?: string
+) => {
+  const previous = lastEvents.get(videoId);
+  const [start, end] = STAGE_RANGES[stage];
+  const clamped = Math.min(Math.max(stagePercent, 0), 100);
+
+  const percent = stage === "error"
+    ? previous?.percent ?? 0
+    : Math.round(start + ((end - start) * clamped) / 100);
+
+  if (previous && previous.stage === stage && previous.percent === percent && !message) {
+    return;
+  }
+
+  const event: ProcessingEvent = {
+    videoId,
+    stage,
+    percent,
+    message,
+    timestamp: new Date().toISOString(),
+  };
+
+  // Late subscribers of a finished video get its state from the database
+  if (stage === "done" || stage === "error") {
+    lastEvents.delete(videoId);
+  } else {
+    lastEvents.set(videoId, event);
+  }
+  emitter.emit(videoId, event);
+};
+
+/**
+ * Forgets the last processing event of a video, e.g. once it is deleted.
+ * @param {string} videoId - The id of the video.
+ */
+export const clearProgress = (videoId: string) => {
+  lastEvents.delete(videoId);
+};
+
+/**
+ * Returns the last known processing event of a video, if any.
+ * @param {string} videoId - The id of the video.
+ * @returns {ProcessingEvent | undefined} The last event.
+ */
+export const getLastProgress = (videoId: string): ProcessingEvent | undefined => {
+  return lastEvents.get(videoId);
+};
+
+/**
+ * Subscribes to the processing events of a video.
+ * @param {string} videoId - The id of the video.
+ * @param {Function} listener - Called with every new event.
+ * @returns {Function} A function that removes the subscription.
+ */
+export const subscribeProgress = (
+  videoId: string,
+  listener: (event: ProcessingEvent) => void
+) => {
+  emitter.on(videoId, listener);
+  return () => {
+    emitter.off(videoId, listener);
+  };
+};
+
+/**
+ * Tells the open progress streams that the server is shutting down.
+ */
+export const notifyShutdown = () => {
+  emitter.emit(SHUTDOWN);
+};
+
+/**
+ * Subscribes to the shutdown of the server.
+ * @param {Function} listener - Called when the server shuts down.
+ * @returns {Function} A function that removes the subscription.
+ */
+export const onShutdown = (listener: () => void) => {
+  emitter.once(SHUTDOWN, listener);
+  return () => {
+    emitter.off(SHUTDOWN, listener);
+  };
+};
@@ -0,0 +1,172 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import config from "config";
+import { Request } from "express";
+import { UploadSession, IUploadSession } from "../models/upload.model";
+import { getVideoPath } from "../server.settings";
+import { ENABLE_LOGS } from "../config/env";
+
+interface ResumableUploadSettings {
+  expirationMinutes: number;
+  cleanupIntervalMinutes: number;
+}
+
+export const resumableUploadSettings: ResumableUploadSettings = config.get("resumableUpload");
+
+const VIDEO_MIME_TYPES: { [key: string]: string } = {
+  mp4: "video/mp4",
+  mov: "video/quicktime",
+  avi: "video/x-msvideo",
+};
+
+let cleanupTimer: NodeJS.Timeout | undefined;
+
+/**
+ * Returns the MIME type of a video from its file name.
+ * @param {string} filename - The original file name.
+ * @returns {string} The MIME type (defaults to a generic video type).
+ */
+export const getVideoMimeType = (filename: string): string => {
+  const ext = filename.split(".").pop()?.toLowerCase() || "";
+  return VIDEO_MIME_TYPES[ext] || "video/octet-stream";
+};
+
+/**
+ * Generates a random file name for a partial upload (same format used by multer).
+ * @returns {string} The file name, relative to the video folder.
+ */
+export const generateUploadFilename = (): string => {
+  return crypto.randomBytes(16).toString("hex");
+};
+
+/**
+ * Computes a new expiration date for an upload session, starting from now.
+ * @returns {Date} The expiration date.
+ */
+export const getUploadExpiration = (): Date => {
+  return new Date(Date.now() + resumableUploadSettings.expirationMinutes * 60 * 1000);
+};
+
+/**
+ * Appends the body of a request to the partial file of an upload session.
+ * The write is aborted if the chunk would exceed the declared upload size.
+ * Whatever reached the disk is kept, so the resulting offset is always read back from the file.
+ * @param {IUploadSession} session - The upload session.
+ * @param {Request} req - The request carrying the chunk as raw body.
+ * @returns {Promise<{ offset: number, overflow: boolean }>} The new offset, and whether the chunk exceeded the upload size.
+ */
+export const appendChunk = (session: IUploadSession, req: Request): Promise<{ offset: number; overflow: boolean }> => {
+  const filePath = path.join(getVideoPath(), session.filename);
+  const remaining = session.size - session.offset;
+
+  return new Promise((resolve, reject) => {
+    const out = fs.createWriteStream(filePath, { flags: "a" });
+    let received = 0;
+    let overflow = false;
+    let ended = false;
+    let settled = false;
+
+    const endOutput = () => {
+      if (ended) return;
+      ended = true;
+      out.end();
+    };
+
+    req.on("data", (chunk: Buffer) => {
+      if (ended) return;
+
+      const take = Math.min(chunk.length, remaining - received);
+      received += take;
+
+      const ok = out.write(take === chunk.length ? chunk : chunk.subarray(0, take));
+
+      if (take < chunk.length) {
+        overflow = true;
+        req.pause();
+        endOutput();
+        return;
+      }
+
+      if (!ok) {
+        req.pause();
+        out.once("drain", () => req.resume());
+      }
+    });
+
+    req.on("end", endOutput);
+    // A dropped connection still keeps the bytes already written
+    req.on("close", endOutput);
+    req.on("error", endOutput);
+
+    out.on("close", async () => {
+      if (settled) return;
+      settled = true;
+      try {
+        const stat = await fs.promises.stat(filePath);
+        resolve({ offset: Math.min(stat.size, session.size), overflow });
+      } catch (err) {
+        reject(err);
+      }
+    });
+    out.on("error", (err) => {
+      if (settled) return;
+      settled = true;
+      reject(err);
+    });
+  });
+};
+
+/**
+ * Deletes an upload session and its partial file.
+ * @param {IUploadSession} session - The upload session.
+ * @param {boolean} keepFile - If true, only the session document is removed (e.g. after finalization).
+ */
+export const deleteUploadSession = async (session: IUploadSession, keepFile = false) => {
+  if (!keepFile) {
+    await fs.promises.rm(path.join(getVideoPath(), session.filename), { force: true });
+  }
+  await UploadSession.findByIdAndDelete(session._id);
+};
+
+/**
+ * Removes expired upload sessions and their partial files.
+ * Uploads being finalized are skipped: their file becomes the original of the video.
+ */
+export const cleanupExpiredUploads = async () => {
+  try {
+    const expired = await UploadSession.find({ expiresAt: { $lte: new Date() }, finalizing: { $ne: true } });
+
+    for (const session of expired) {
+      await deleteUploadSession(session);
+      if (ENABLE_LOGS) {
+        console.log(`[resumableUpload] Removed expired upload ${session._id}`);
+      }
+    }
+  } catch (err) {
+    console.error("[resumableUpload] Error cleaning up expired uploads:", err);
+  }
+};
+
+/**
+ * Starts the periodic cleanup of abandoned uploads.
+ */
+export const startUploadCleanup = () => {
+  if (cleanupTimer) return;
+
+  cleanupExpiredUploads();
+  cleanupTimer = setInterval(
+    cleanupExpiredUploads,
+    resumableUploadSettings.cleanupIntervalMinutes * 60 * 1000
+  );
+};
+
+/**
+ * Stops the periodic cleanup of abandoned uploads.
+ */
+export const stopUploadCleanup = () => {
+  if (cleanupTimer) {
+    clearInterval(cleanupTimer);
+    cleanupTimer = undefined;
+  }
+};
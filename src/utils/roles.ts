@@ -0,0 +1,36 @@
+import config from "config";
+
+export type Role = "admin" | "moderator";
+
+interface RoleSettings {
+  adminRoles: string[];      // Claim values granting the admin role
+  moderatorRoles: string[];  // Claim values granting the moderator role (read-only admin access)
+}
+
+/**
+ * Splits a claim that can be an array or a space separated string (OAuth 2 `scope`).
+ * @param {any} claim - The claim value.
+ * @returns {string[]} The values of the claim.
+ */
+const claimValues = (claim: any): string[] => {
+  if (Array.isArray(claim)) return claim.filter((value) => typeof value === "string");
+  if (typeof claim === "string") return claim.split(" ").filter(Boolean);
+  return [];
+};
+
+/**
+ * Extracts the roles of a user from the `roles` and `scope` claims of the JWT issued by the IdP.
+ * Claim values are mapped to roles with `auth.adminRoles` and `auth.moderatorRoles` (config/default.json).
+ * @param {any} claims - The decoded JWT.
+ * @returns {Role[]} The roles of the user (empty for regular users).
+ */
+export const getRolesFromClaims = (claims: any): Role[] => {
+  const settings: RoleSettings = config.get("auth");
+  const values = [...claimValues(claims?.roles), ...claimValues(claims?.scope)];
+  const roles: Role[] = [];
+
+  if (values.some((value) => settings.adminRoles.includes(value))) roles.push("admin");
+  if (values.some((value) => settings.moderatorRoles.includes(value))) roles.push("moderator");
+
+  return roles;
+};
@@ -0,0 +1,115 @@
+import crypto from "crypto";
+import bcrypt from "bcrypt";
+import { IFile } from "../models/data.model";
+import { IShareLink, ShareLink } from "../models/share.model";
+
+export type ShareStatus = "active" | "revoked" | "expired" | "exhausted";
+
+// Signed URLs issued to share viewers carry `uid=share-<shareId>` instead of the owner's user id
+const SHARE_PRINCIPAL_PREFIX = "share-";
+const PASSWORD_SALT_ROUNDS = 10;
+const VIEWER_URL_MINUTES = 15;
+
+/**
+ * Generates the random token identifying a share link in its public URL.
+ * @returns {string} A 32-byte url-safe token.
+ */
+export const generateShareToken = (): string => {
+  return crypto.randomBytes(32).toString("base64url");
+};
+
+/**
+ * Hashes the password protecting a share link.
+ * @param {string} password - The plain password.
+ * @returns {Promise<string>} The bcrypt hash.
+ */
+export const hashSharePassword = (password: string): Promise<string> => {
+  return bcrypt.hash(password, PASSWORD_SALT_ROUNDS);
+};
+
+/**
+ * Checks the password given by a viewer against the share link.
+ * Links without password accept any value.
+ * @param {IShareLink} share - The share link.
+ * @param {string | undefined} password - The password given by the viewer.
+ * @returns {Promise<boolean>} Whether the viewer may use the link.
+ */
+export const checkSharePassword = async (share: IShareLink, password?: string): Promise<boolean> => {
+  if (!share.passwordHash) return true;
+  if (!password) return false;
+  return bcrypt.compare(password, share.passwordHash);
+};
+
+/**
+ * Returns the status of a share link.
+ * A link whose views are exhausted can no longer be opened, but viewers already watching keep their access until it expires.
+ * @param {IShareLink} share - The share link.
+ * @returns {ShareStatus} The status.
+ */
+export const getShareStatus = (share: IShareLink): ShareStatus => {
+  if (share.revokedAt) return "revoked";
+  if (share.expiresAt && share.expiresAt.getTime() <= Date.now()) return "expired";
+  if (share.maxViews !== undefined && share.maxViews !== null && share.views >= share.maxViews) return "exhausted";
+  return "active";
+};
+
+/**
+ * Returns the principal put in the signed URLs of a share viewer.
+ * @param {string} shareId - The id of the share link.
+ * @returns {string} The principal (used as `uid` of the signed URL).
+ */
+export const sharePrincipal = (shareId: string): string => `${SHARE_PRINCIPAL_PREFIX}${shareId}`;
+
+/**
+ * Returns the lifetime of the signed URLs issued to a share viewer,
+ * capped so that they never outlive the share link.
+ * @param {IShareLink} share - The share link.
+ * @returns {number} The lifetime in minutes.
+ */
+export const getViewerUrlMinutes = (share: IShareLink): number => {
+  if (!share.expiresAt) return VIEWER_URL_MINUTES;
+  const remaining = (share.expiresAt.getTime() - Date.now()) / 60000;
+  return Math.max(0, Math.min(VIEWER_URL_MINUTES, remaining));
+};
+
+/**
+ * Checks whether the principal of a signed URL may view a video:
+ * either the owner, or the viewer of a share link of the video that is neither revoked nor expired.
+ * @param {IFile} file - The video.
+ * @param {string | undefined} principal - The `uid` of the signed URL.
+ * @returns {Promise<boolean>} Whether access is allowed.
+ */
+export const canViewVideo = async (file: IFile, principal?: string): Promise<boolean> => {
+  if (!principal) return false;
+  if (file.userId.toString() === principal) return true;
+  if (!principal.startsWith(SHARE_PRINCIPAL_PREFIX)) return false;
+
+  const shareId = principal.substring(SHARE_PRINCIPAL_PREFIX.length);
+  const share = await ShareLink.findById(shareId).catch(() => null);
+
+  if (!share || share.videoId.toString() !== file._id.toString()) return false;
+
+  const status = getShareStatus(share);
+  return status === "active" || status === "exhausted";
+};
+
+/**
+ * Formats a share link for its owner (the password hash is never exposed).
+ * @param {IShareLink} share - The share link.
+ * @param {string} baseUrl - The base URL of the server.
+ * @returns {object} The share link as returned by the API.
+ */
+export const serializeShareLink = (share: IShareLink, baseUrl: string) => ({
+  _id: share._id,
+  videoId: share.videoId,
+  label: share.label || "",
+  url: `${baseUrl}/share/${share.token}`,
+  token: share.token,
+  hasPassword: !!share.passwordHash,
+  expiresAt: share.expiresAt || null,
+  maxViews: share.maxViews ?? null,
+  views: share.views,
+  status: getShareStatus(share),
+  lastViewedAt: share.lastViewedAt || null,
+  createdAt: share.createdAt,
+});
@@ -1,52 +1,252 @@
 import crypto from 'crypto';
-import { STREAM_SECRET } from '../config/env';
+import { getServerSettings } from '../server.settings';
+import { IFile } from '../models/data.model';
 
 export interface SignedUrlParams {
   videoId: string;
   userId: string;
   expiresInMinutes?: number;
+  path?: string;       // Path prefix the URL is limited to, relative to the video server (e.g. "/videos/thumb/signed/{id}")
+  rendition?: number | number[];  // Variants the URL is limited to (indexes of the representations): their playlists and segments
+  ip?: string;         // Client IP address the URL is bound to
+}
+
+// Query parameters of a signed URL
+export interface SignedUrlQuery {
+  expires: string;
+  signature: string;
+  uid: string;
+  kid: string;         // Id of the key of the signature
+  path?: string;
+  rendition?: string;
+  ip?: string;
+}
+
+// Request checked against the scope of a signed URL
+export interface SignedRequest {
+  path?: string;       // Path of the request, relative to the video server
+  file?: string;       // Requested file of the video
+  ip?: string;         // Address of the client
+}
+
+/**
+ * Computes the signature of a signed URL: HMAC-SHA256 of the video ID and of every signed parameter.
+ * @param secret - The secret of the key.
+ * @param videoId - The video ID.
+ * @param query - The parameters of the URL (the signature is ignored).
+ * @returns The hexadecimal signature.
+ */
+const computeSignature = (secret: string, videoId: string, query: Omit<SignedUrlQuery, 'signature'>): string =>
+  crypto
+    .createHmac('sha256', secret)
+    .update([videoId, query.uid, query.expires, query.kid, query.path || '', query.rendition || '', query.ip || ''].join('\n'))
+    .digest('hex');
+
+/**
+ * Compares two signatures in constant time.
+ * @param signature - The signature of the URL.
+ * @param expected - The expected signature.
+ * @returns True if they are equal.
+ */
+const isSameSignature = (signature: string, expected: string): boolean => {
+  const a = Buffer.from(signature);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+/**
+ * Tells whether a file of a video belongs to a variant: its HLS playlist (`{id}_stream_{n}.m3u8`, `media_{n}.m3u8` for CMAF)
+ * or its segments (`{id}_v{n}_NNN.ts`, `{id}_init_{n}.m4s`, `{id}_chunk_{n}_NNNNN.m4s`).
+ * @param videoId - The video ID.
+ * @param file - The file name.
+ * @param variant - The index of the variant.
+ * @returns True if the file belongs to the variant.
+ */
+const isVariantFile = (videoId: string, file: string, variant: number): boolean =>
+  new RegExp(`^(?:${videoId}_(?:stream_${variant}\\.m3u8|v${variant}_\\d+\\.ts|init_${variant}\\.m4s|chunk_${variant}_\\d+\\.m4s)|media_${variant}\\.m3u8)$`).test(file);
+
+/**
+ * Returns the variants of the rendition scope of a signed URL.
+ * @param rendition - The signed `rendition` parameter: comma-separated variant indexes.
+ * @returns The variant indexes.
+ */
+export const getScopedVariants = (rendition: string): number[] => rendition.split(',').map(Number);
+
+/**
+ * Returns the HLS playlist of a variant of a video.
+ * @param file - The video.
+ * @param variant - The index of the variant.
+ * @returns The file name of the playlist.
+ */
+export const variantPlaylistFile = (file: IFile, variant: number): string =>
+  file.packaging === 'cmaf' ? `media_${variant}.m3u8` : `${file._id}_stream_${variant}.m3u8`;
+
+/**
+ * Formats the parameters of a signed URL as a query string.
+ * @param query - The parameters.
+ * @returns The query string, starting with "?".
+ */
+export const formatSignedQuery = (query: SignedUrlQuery): string => {
+  const params = new URLSearchParams({ expires: query.expires, signature: query.signature, uid: query.uid, kid: query.kid });
+  if (query.path) params.set('path', query.path);
+  if (query.rendition) params.set('rendition', query.rendition);
+  if (query.ip) params.set('ip', query.ip);
+  return `?${params}`;
+};
+
+/**
+ * Appends the parameters of a signed URL to every relative URI of an HLS playlist: the variant playlists of a master
+ * playlist, the segments of a media playlist, and the `URI` attributes of tags (subtitles, audio, init segments).
+ * Players then fetch every file of the stream with a signature, starting from the master URL only.
+ * Absolute URIs are kept as is.
+ * @param playlist - The content of the playlist.
+ * @param signedParams - The signed URL query string, starting with "?".
+ * @returns The playlist with signed URIs.
+ */
+export function signPlaylistUris(playlist: string, signedParams: string): string {
+  const sign = (uri: string) => {
+    if (/^[a-z][a-z\d+.-]*:/i.test(uri) || uri.startsWith('/')) return uri;
+    return uri.includes('?') ? `${uri}&${signedParams.substring(1)}` : `${uri}${signedParams}`;
+  };
+
+  return playlist
+    .split('\n')
+    .map((line) => {
+      const uri = line.trim();
+      if (!uri) return line;
+      if (uri.startsWith('#')) return line.replace(/URI="([^"]*)"/g, (_match, value) => `URI="${sign(value)}"`);
+      return line.replace(uri, sign(uri));
+    })
+    .join('\n');
+}
+
+/**
+ * Reduces a master playlist to the variants of a rendition scope: the other variant streams are removed,
+ * as well as the renditions (`#EXT-X-MEDIA`) out of the scope, e.g. the subtitles, and the references to their groups.
+ * @param playlist - The content of the master playlist.
+ * @param videoId - The video ID.
+ * @param variants - The variants of the scope.
+ * @returns The reduced master playlist.
+ */
+export function restrictMasterPlaylist(playlist: string, videoId: string, variants: number[]): string {
+  const inScope = (uri: string) => variants.some((variant) => isVariantFile(videoId, uri.split('?')[0], variant));
+  const lines = playlist.split('\n');
+  const kept: string[] = [];
+  const groups = new Set<string>();
+
+  for (let i = 0; i < lines.length; i++) {
+    const tag = lines[i].trim();
+
+    if (tag.startsWith('#EXT-X-MEDIA:') || tag.startsWith('#EXT-X-I-FRAME-STREAM-INF:')) {
+      const uri = tag.match(/URI="([^"]*)"/)?.[1];
+      if (uri !== undefined && !inScope(uri)) continue;
+      groups.add(`${tag.match(/TYPE=([A-Z-]+)/)?.[1]}:${tag.match(/GROUP-ID="([^"]*)"/)?.[1]}`);
+    } else if (tag.startsWith('#EXT-X-STREAM-INF:')) {
+      // The URI of the variant stream is on the next line
+      i++;
+      if (!inScope((lines[i] || '').trim())) continue;
+      kept.push(lines[i - 1], lines[i]);
+      continue;
+    }
+
+    kept.push(lines[i]);
+  }
+
+  return kept
+    .map((line) => line.trim().startsWith('#EXT-X-STREAM-INF:')
+      ? line.replace(/,(AUDIO|VIDEO|SUBTITLES)="([^"]*)"/g, (match, type, group) => groups.has(`${type}:${group}`) ? match : '')
+      : line)
+    .join('\n');
 }
 
 /**
  * Generates a signed URL using HMAC-SHA256 algorithm.
- * The signed URL is a query string containing the video ID, user ID, expiration timestamp, and signature.
- * The expiration timestamp is in milliseconds since epoch.
- * The signature is a hexadecimal string generated using the HMAC-SHA256 algorithm with the video ID, user ID, and expiration timestamp as the input.
- * The generated signed URL can be used to securely access video streaming and thumbnail URLs.
- * @param params - An object containing the video ID, user ID, and optional expiration time in minutes.
+ * The signed URL is a query string containing the expiration timestamp (milliseconds since epoch), the signature,
+ * the user ID and the id of the signing key (`kid`), the first of the `streamKeys` of the server.
+ * The signature covers the video ID and every parameter, including the optional scope: a path prefix, a rendition
+ * and the IP address of the client. Without scope, the URL gives access to every signed route of the video.
+ * @param params - The video ID, user ID, expiration time in minutes and scope.
  * @returns A signed URL query string.
  */
 export function generateSignedUrl(params: SignedUrlParams): string {
   const { videoId, userId, expiresInMinutes = 10 } = params;
-  const expires = Date.now() + (expiresInMinutes * 60 * 1000);
-  
-  const signature = crypto
-    .createHmac('sha256', STREAM_SECRET)
-    .update(`${videoId}:${userId}:${expires}`)
-    .digest('hex');
-  
-  return `?expires=${expires}&signature=${signature}&uid=${userId}`;
+  const key = getServerSettings().streamKeys[0];
+
+  const query = {
+    expires: String(Date.now() + (expiresInMinutes * 60 * 1000)),
+    uid: userId,
+    kid: key.kid,
+    path: params.path,
+    rendition: params.rendition !== undefined ? [params.rendition].flat().join(',') : undefined,
+    ip: params.ip,
+  };
+
+  return formatSignedQuery({ ...query, signature: computeSignature(key.secret, videoId, query) });
+}
+
+// Scope of the playback URLs of a video
+export interface PlaybackUrlOptions {
+  ip?: string;         // Client IP address the URLs are bound to
+  rendition?: number;  // Variant the stream is limited to: `streamUrl` then only plays it, and there is no `dashUrl`
+}
+
+/**
+ * Builds the signed playback URLs of a processed video: stream, DASH manifest, thumbnail and thumbnails track.
+ * @param baseUrl - The base URL of the video server.
+ * @param file - The video.
+ * @param userId - The principal of the URLs: the owner, or `share-<shareId>` for share link viewers.
+ * @param expiresInMinutes - The validity of the URLs.
+ * @param options - The optional scope of the URLs.
+ * @returns The signed URLs with their expiration (milliseconds since epoch).
+ */
+export function buildPlaybackUrls(
+  baseUrl: string,
+  file: IFile,
+  userId: string,
+  expiresInMinutes: number,
+  options: PlaybackUrlOptions = {}
+) {
+  const videoId = file._id.toString();
+  const signedParams = generateSignedUrl({ videoId, userId, expiresInMinutes, ip: options.ip });
+  // CMAF variants carry no audio: their scope includes the shared audio representation, numbered after the video ones,
+  // and the stream starts from the master playlist, served reduced to the scope
+  const cmaf = file.packaging === 'cmaf';
+  const scope = options.rendition !== undefined && cmaf
+    ? [options.rendition, (file.renditions || []).length]
+    : options.rendition;
+  const streamParams = scope !== undefined
+    ? generateSignedUrl({ videoId, userId, expiresInMinutes, ip: options.ip, rendition: scope })
+    : signedParams;
+  const streamFile = options.rendition !== undefined && !cmaf ? variantPlaylistFile(file, options.rendition) : file.hls;
+
+  return {
+    streamUrl: `${baseUrl}/videos/stream/${videoId}/${streamFile}${streamParams}`,
+    dashUrl: file.dash && options.rendition === undefined ? `${baseUrl}/videos/stream/${videoId}/${file.dash}${signedParams}` : undefined,
+    packaging: file.packaging || "hls",
+    thumbnailUrl: `${baseUrl}/videos/thumb/signed/${videoId}${signedParams}`,
+    thumbnailsVttUrl: file.sprite_thumbnails ? `${baseUrl}/videos/thumb/sprite/${videoId}/${file.sprite_thumbnails}${signedParams}` : undefined,
+    expiresAt: Number(new URLSearchParams(signedParams.substring(1)).get('expires'))
+  };
 }
 
 /**
  * Verifies a signed URL using the HMAC-SHA256 algorithm.
- * Checks the expiration timestamp and verifies the signature.
- * Returns an object with a valid boolean property and an optional reason string property.
- * If valid is false, the reason property will contain a string describing the reason for the invalid signature.
+ * Checks the expiration timestamp, the signature (with the key of `kid`, in constant time), then the scope of the URL:
+ * the path of the request must start with the signed `path`, the requested file must belong to the signed `rendition`
+ * or be the master playlist,
+ * and the client must have the signed `ip` address.
  * @param videoId - The video ID.
- * @param userId - The user ID.
- * @param expires - The expiration timestamp in milliseconds since epoch.
- * @param signature - The signature generated using the HMAC-SHA256 algorithm.
- * @returns An object with a valid boolean property and an optional reason string property.
+ * @param query - The parameters of the signed URL.
+ * @param request - The request, for the URLs limited to a path, rendition or address.
+ * @returns An object with a valid boolean property and, if not valid, the reason.
  */
 export function verifySignature(
   videoId: string,
-  userId: string,
-  expires: string,
-  signature: string
+  query: SignedUrlQuery,
+  request: SignedRequest = {}
 ): { valid: boolean; reason?: string } {
   // Check expiration
-  const expiryTime = Number(expires);
+  const expiryTime = Number(query.expires);
   if (isNaN(expiryTime)) {
     return { valid: false, reason: 'Invalid expiration format' };
   }
@@ -55,15 +255,31 @@ export function verifySignature(
     return { valid: false, reason: 'Signed URL expired' };
   }
   
-  // Verify signature
-  const expectedSignature = crypto
-    .createHmac('sha256', STREAM_SECRET)
-    .update(`${videoId}:${userId}:${expires}`)
-    .digest('hex');
-  
-  if (signature !== expectedSignature) {
+  // Verify signature, with the key it was signed with
+  const key = getServerSettings().streamKeys.find((candidate) => candidate.kid === query.kid);
+  if (!key) {
+    return { valid: false, reason: 'Unknown signing key' };
+  }
+
+  if (!isSameSignature(query.signature, computeSignature(key.secret, videoId, query))) {
     return { valid: false, reason: 'Invalid signature' };
   }
+
+  // Check scope
+  if (query.path && !(request.path || '').startsWith(query.path)) {
+    return { valid: false, reason: 'Signed URL not valid for this path' };
+  }
+
+  // The master playlist is served reduced to the variants of the scope
+  const inRendition = (file: string) =>
+    file === `${videoId}_master.m3u8` || getScopedVariants(query.rendition!).some((variant) => isVariantFile(videoId, file, variant));
+  if (query.rendition && !(request.file && inRendition(request.file))) {
+    return { valid: false, reason: 'Signed URL not valid for this rendition' };
+  }
+
+  if (query.ip && query.ip !== request.ip) {
+    return { valid: false, reason: 'Signed URL not valid for this address' };
+  }
   
   return { valid: true };
 }
@@ -0,0 +1,114 @@
+import mongoose from "mongoose";
+import { File } from "../models/data.model";
+import { UploadSession } from "../models/upload.model";
+import { getStorage } from "../storage";
+import { getServerSettings } from "../server.settings";
+
+export interface StorageUsage {
+  usedBytes: number;       // Stored videos: originals and derived files once processed, original size before
+  reservedBytes: number;   // Declared size of the resumable uploads still in progress
+  quotaBytes: number | null;
+  remainingBytes: number | null;
+  videoCount: number;
+}
+
+// Bytes counted for a video: every stored file once processed, the uploaded original before
+const STORED_BYTES = {
+  $ifNull: ["$storageBytes", { $convert: { input: "$size", to: "long", onError: 0, onNull: 0 } }],
+};
+
+/**
+ * Returns the storage quota of a user, set by the `storageQuotaBytes` limit of createVideoServer
+ * (defaults to `storageQuota.defaultQuotaBytes` in config/default.json).
+ * @param {string} userId - The id of the user.
+ * @returns {number | null} The quota in bytes, or null if storage is unlimited (quota set to 0).
+ */
+export const getQuotaBytes = (userId: string): number | null => {
+  const quota = getServerSettings().limits.storageQuotaBytes;
+  return quota > 0 ? quota : null;
+};
+
+/**
+ * Computes the storage used by a user.
+ * Processed videos count the size of every stored file (original, renditions, thumbnails, subtitles),
+ * videos still being processed count the size of the uploaded original.
+ * @param {string} userId - The id of the user.
+ * @returns {Promise<StorageUsage>} The usage of the user.
+ */
+export const getStorageUsage = async (userId: string): Promise<StorageUsage> => {
+  const owner = new mongoose.Types.ObjectId(userId);
+
+  const [videos] = await File.aggregate([
+    { $match: { userId: owner } },
+    {
+      $group: {
+        _id: null,
+        usedBytes: { $sum: STORED_BYTES },
+        videoCount: { $sum: 1 },
+      },
+    },
+  ]);
+
+  const [uploads] = await UploadSession.aggregate([
+    { $match: { userId: owner, expiresAt: { $gt: new Date() } } },
+    { $group: { _id: null, reservedBytes: { $sum: "$size" } } },
+  ]);
+
+  const usedBytes = videos?.usedBytes || 0;
+  const reservedBytes = uploads?.reservedBytes || 0;
+  const quotaBytes = getQuotaBytes(userId);
+
+  return {
+    usedBytes,
+    reservedBytes,
+    quotaBytes,
+    remainingBytes: quotaBytes === null ? null : Math.max(0, quotaBytes - usedBytes - reservedBytes),
+    videoCount: videos?.videoCount || 0,
+  };
+};
+
+/**
+ * Computes the storage used by each user, largest first (admin report).
+ * @param {number} limit - The maximum number of users.
+ * @returns {Promise<object[]>} For each user: userId, usedBytes, videoCount, quotaBytes.
+ */
+export const getStorageUsageByUser = async (limit: number) => {
+  const users = await File.aggregate([
+    { $group: { _id: "$userId", usedBytes: { $sum: STORED_BYTES }, videoCount: { $sum: 1 } } },
+    { $sort: { usedBytes: -1, _id: 1 } },
+    { $limit: limit },
+  ]);
+
+  return users.map((user) => ({
+    userId: user._id,
+    usedBytes: user.usedBytes,
+    videoCount: user.videoCount,
+    quotaBytes: getQuotaBytes(user._id.toString()),
+  }));
+};
+
+/**
+ * Checks whether a user can store more bytes without exceeding the quota.
+ * @param {string} userId - The id of the user.
+ * @param {number} incomingBytes - The size of the new upload.
+ * @returns {Promise<{ allowed: boolean, usage: StorageUsage }>} The result and the current usage.
+ */
+export const checkStorageQuota = async (userId: string, incomingBytes: number) => {
+  const usage = await getStorageUsage(userId);
+  const allowed = usage.remainingBytes === null || incomingBytes <= usage.remainingBytes;
+  return { allowed, usage };
+};
+
+/**
+ * Measures the files stored for a video and saves the total in `storageBytes`.
+ * Called whenever files of the video are added or replaced.
+ * @param {string} videoId - The id of the video.
+ */
+export const refreshStorageBytes = async (videoId: string) => {
+  try {
+    const storageBytes = await getStorage().prefixSize(videoId);
+    await File.findByIdAndUpdate(videoId, { storageBytes });
+  } catch (err) {
+    console.error(`[storageQuota] Could not measure storage of video ${videoId}:`, err);
+  }
+};
@@ -0,0 +1,172 @@
+import { getStorage, videoKey } from "../storage";
+
+export interface SubtitleTrack {
+  language: string;
+  label: string;
+  isDefault: boolean;
+  file: string;       // WebVTT file in the video folder
+  playlist: string;   // HLS media playlist wrapping the WebVTT file
+  createdAt: Date;
+}
+
+const SUBTITLE_GROUP_ID = "subs";
+
+/**
+ * Converts SRT subtitles to WebVTT.
+ * Cue numbers are kept as cue identifiers and the comma decimal separator of timestamps is replaced by a dot.
+ * @param {string} srt - The SRT content.
+ * @returns {string} The WebVTT content.
+ */
+export const srtToVtt = (srt: string): string => {
+  const body = srt
+    .replace(/\r\n?/g, "\n")
+    .replace(/(\d{2}:\d{2}:\d{2}),(\d{3})/g, "$1.$2")
+    .trim();
+
+  return `WEBVTT\n\n${body}\n`;
+};
+
+/**
+ * Normalizes an uploaded subtitle file to WebVTT.
+ * @param {Buffer} content - The uploaded file content.
+ * @param {string} originalname - The uploaded file name (used to detect SRT).
+ * @returns {string} The WebVTT content.
+ * @throws {Error} If the file is not valid WebVTT or SRT.
+ */
+export const toWebVtt = (content: Buffer, originalname: string): string => {
+  // Strip the UTF-8 BOM, common in files exported by subtitle editors
+  const text = content.toString("utf8").replace(/^\uFEFF/, "");
+  const ext = originalname.split(".").pop()?.toLowerCase();
+
+  if (ext === "srt") {
+    if (!/\d{2}:\d{2}:\d{2},\d{3}\s*-->\s*\d{2}:\d{2}:\d{2},\d{3}/.test(text)) {
+      throw new Error("Invalid SRT file");
+    }
+    return srtToVtt(text);
+  }
+
+  if (!text.startsWith("WEBVTT")) {
+    throw new Error("Invalid WebVTT file: missing WEBVTT header");
+  }
+  return text.replace(/\r\n?/g, "\n");
+};
+
+/**
+ * Builds the HLS media playlist of a subtitle track: a single WebVTT segment spanning the whole video.
+ * @param {string} vttFile - The WebVTT file name (relative to the playlist).
+ * @param {number} duration - The video duration in seconds.
+ * @returns {string} The media playlist.
+ */
+export const buildSubtitlePlaylist = (vttFile: string, duration: number): string => {
+  const segmentDuration = Math.max(duration, 1);
+
+  return [
+    "#EXTM3U",
+    "#EXT-X-VERSION:3",
+    `#EXT-X-TARGETDURATION:${Math.ceil(segmentDuration)}`,
+    "#EXT-X-MEDIA-SEQUENCE:0",
+    "#EXT-X-PLAYLIST-TYPE:VOD",
+    `#EXTINF:${segmentDuration.toFixed(3)},`,
+    vttFile,
+    "#EXT-X-ENDLIST",
+    "",
+  ].join("\n");
+};
+
+/**
+ * Rewrites an HLS master playlist so that it lists the given subtitle tracks.
+ * Existing subtitle renditions are removed first, so the function can be called after every change.
+ * @param {string} master - The master playlist content.
+ * @param {SubtitleTrack[]} tracks - The subtitle tracks of the video.
+ * @returns {string} The updated master playlist.
+ */
+export const applySubtitlesToMaster = (master: string, tracks: SubtitleTrack[]): string => {
+  const lines = master
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .filter((line) => !line.startsWith("#EXT-X-MEDIA:TYPE=SUBTITLES"))
+    .map((line) =>
+      line.startsWith("#EXT-X-STREAM-INF:")
+        ? line.replace(new RegExp(`,SUBTITLES="${SUBTITLE_GROUP_ID}"`, "g"), "")
+        : line
+    );
+
+  if (tracks.length === 0) {
+    return lines.join("\n");
+  }
+
+  const mediaLines = tracks.map((track) =>
+    `#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="${SUBTITLE_GROUP_ID}",NAME="${track.label.replace(/"/g, "'")}",` +
+    `LANGUAGE="${track.language}",DEFAULT=${track.isDefault ? "YES" : "NO"},` +
+    `AUTOSELECT=YES,FORCED=NO,URI="${track.playlist}"`
+  );
+
+  const result: string[] = [];
+  let inserted = false;
+
+  for (const line of lines) {
+    // Renditions must be declared before the variant streams that reference them
+    if (!inserted && line.startsWith("#EXT-X-STREAM-INF:")) {
+      result.push(...mediaLines);
+      inserted = true;
+    }
+
+    result.push(
+      line.startsWith("#EXT-X-STREAM-INF:")
+        ? `${line},SUBTITLES="${SUBTITLE_GROUP_ID}"`
+        : line
+    );
+  }
+
+  return result.join("\n");
+};
+
+/**
+ * Updates the stored master playlist of a video with its subtitle tracks.
+ * Does nothing if the video has no master playlist yet (it is applied at the end of processing).
+ * @param {string} videoId - The id of the video.
+ * @param {string | undefined} masterFile - The master playlist file name (File.hls).
+ * @param {SubtitleTrack[]} tracks - The subtitle tracks of the video.
+ */
+export const updateMasterPlaylistSubtitles = async (
+  videoId: string,
+  masterFile: string | undefined,
+  tracks: SubtitleTrack[]
+) => {
+  if (!masterFile) return;
+
+  const storage = getStorage();
+  const key = videoKey(videoId, masterFile);
+
+  if (!(await storage.exists(key))) return;
+
+  const master = (await storage.readFile(key)).toString("utf8");
+  await storage.writeFile(key, applySubtitlesToMaster(master, tracks), "application/vnd.apple.mpegurl");
+};
+
+/**
+ * Writes the HLS media playlists of the subtitle tracks and lists them in the master playlist.
+ * Called after every subtitle change and at the end of processing, once the duration is known.
+ * @param {string} videoId - The id of the video.
+ * @param {string | undefined} masterFile - The master playlist file name (File.hls).
+ * @param {SubtitleTrack[]} tracks - The subtitle tracks of the video.
+ * @param {number} duration - The video duration in seconds.
+ */
+export const publishSubtitles = async (
+  videoId: string,
+  masterFile: string | undefined,
+  tracks: SubtitleTrack[],
+  duration: number
+) => {
+  const storage = getStorage();
+
+  for (const track of tracks) {
+    await storage.writeFile(
+      videoKey(videoId, track.playlist),
+      buildSubtitlePlaylist(track.file, duration),
+      "application/vnd.apple.mpegurl"
+    );
+  }
+
+  await updateMasterPlaylistSubtitles(videoId, masterFile, tracks);
+};
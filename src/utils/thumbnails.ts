@@ -0,0 +1,230 @@
+import sharp from "sharp";
+import config from "config";
+
+export interface SpriteSettings {
+  intervalSeconds: number;   // Time between two frames of the sprite sheets
+  width: number;             // Width of a tile, the height follows the aspect ratio of the video
+  columns: number;
+  rows: number;              // A new sheet is started when a sheet is full
+}
+
+export type AnimatedPreviewFormat = "webp" | "mp4";
+export const ANIMATED_PREVIEW_FORMATS: AnimatedPreviewFormat[] = ["webp", "mp4"];
+
+export interface AnimatedPreviewSettings {
+  format: AnimatedPreviewFormat;
+  width: number;
+  fps: number;
+  startSeconds: number;          // Start of the single clip of short videos
+  durationSeconds: number;       // Length of the single clip of short videos
+  highlightMinDuration: number;  // Videos at least this long get a highlight of several snippets
+  snippets: number;
+  snippetSeconds: number;
+}
+
+export interface PreviewClip {
+  start: number;
+  length: number;
+}
+
+export interface SpriteLayout {
+  interval: number;
+  tileWidth: number;
+  tileHeight: number;
+  columns: number;
+  rows: number;
+  tiles: number;             // Number of frames
+  sheets: number;            // Number of sprite sheets
+}
+
+// Historical position of the automatic thumbnail, kept when the video is long enough
+const DEFAULT_THUMBNAIL_TIME = 4;
+// Seeking this close to the end may return no frame at all
+const END_MARGIN = 0.1;
+// Frames darker than this (mean luma, 0-255) are considered black, e.g. a fade-in
+const MIN_BRIGHTNESS = 20;
+// Frames with less contrast than this (luma standard deviation) are considered blank, e.g. a title card color
+const MIN_CONTRAST = 10;
+
+export const MAX_THUMBNAIL_CANDIDATES = 12;
+export const MAX_PREVIEW_SNIPPETS = 10;
+export const DEFAULT_THUMBNAIL_CANDIDATES = 6;
+// Width of the previews returned with the candidates
+export const THUMBNAIL_CANDIDATE_WIDTH = 320;
+
+/**
+ * Clamps a timestamp to the seekable range of a video.
+ * @param {number} time - The timestamp in seconds.
+ * @param {number} duration - The video duration in seconds (0 if unknown).
+ * @returns {number} The timestamp, rounded to the millisecond.
+ */
+const clampTime = (time: number, duration: number): number => {
+  const max = duration > 0 ? Math.max(duration - END_MARGIN, 0) : time;
+  return Math.round(Math.min(Math.max(time, 0), max) * 1000) / 1000;
+};
+
+/**
+ * Returns the timestamps tried, in order, for the automatic thumbnail.
+ * The first one is the historical 4s position (or a third of a shorter video), then the quarters of the video,
+ * so that a black or blank frame can be skipped.
+ * @param {number} duration - The video duration in seconds (0 if unknown).
+ * @returns {number[]} The timestamps in seconds, without duplicates.
+ */
+export const getDefaultThumbnailTimes = (duration: number): number[] => {
+  if (!duration || duration <= 0) return [0];
+
+  const times = [
+    Math.min(DEFAULT_THUMBNAIL_TIME, duration / 3),
+    duration * 0.25,
+    duration * 0.5,
+    duration * 0.75,
+  ].map((time) => clampTime(time, duration));
+
+  return [...new Set(times)];
+};
+
+/**
+ * Returns evenly spaced timestamps to offer as thumbnail candidates, excluding the very start and end.
+ * @param {number} duration - The video duration in seconds.
+ * @param {number} count - The number of candidates.
+ * @returns {number[]} The timestamps in seconds, without duplicates.
+ */
+export const getThumbnailCandidateTimes = (duration: number, count: number): number[] => {
+  if (!duration || duration <= 0) return [0];
+
+  const times = Array.from({ length: count }, (_, i) => clampTime((duration * (i + 1)) / (count + 1), duration));
+  return [...new Set(times)];
+};
+
+/**
+ * Measures the mean luma and the contrast of a frame.
+ * @param {Buffer} image - The frame (any format supported by sharp).
+ * @returns {Promise<{ brightness: number, contrast: number }>} The mean and standard deviation of the luma (0-255).
+ */
+export const getFrameStats = async (image: Buffer): Promise<{ brightness: number; contrast: number }> => {
+  const { channels } = await sharp(image).greyscale().stats();
+  return { brightness: channels[0].mean, contrast: channels[0].stdev };
+};
+
+/**
+ * Tells whether a frame would make a poor thumbnail: black (fade-in) or a plain color.
+ * @param {Buffer} image - The frame.
+ * @returns {Promise<boolean>} True if the frame is black or blank.
+ */
+export const isBlankFrame = async (image: Buffer): Promise<boolean> => {
+  const { brightness, contrast } = await getFrameStats(image);
+  return brightness < MIN_BRIGHTNESS || contrast < MIN_CONTRAST;
+};
+
+/**
+ * Returns the sprite sheet settings defined in `thumbnails.sprite` (config/default.json).
+ * @returns {SpriteSettings} The sprite settings.
+ */
+export const getSpriteSettings = (): SpriteSettings => {
+  return config.get<SpriteSettings>("thumbnails.sprite");
+};
+
+/**
+ * Computes the layout of the sprite sheets of a video.
+ * @param {number} duration - The video duration in seconds.
+ * @param {{ width: number, height: number }} displaySize - The display size of the video.
+ * @param {SpriteSettings} settings - The sprite settings.
+ * @returns {SpriteLayout} The layout, with even tile dimensions as required by the encoders.
+ */
+export const getSpriteLayout = (
+  duration: number,
+  displaySize: { width: number; height: number },
+  settings: SpriteSettings = getSpriteSettings()
+): SpriteLayout => {
+  const tileWidth = Math.round(settings.width / 2) * 2;
+  const tileHeight = Math.max(Math.round((tileWidth * displaySize.height) / displaySize.width / 2) * 2, 2);
+  const tiles = Math.max(Math.ceil(duration / settings.intervalSeconds), 1);
+
+  return {
+    interval: settings.intervalSeconds,
+    tileWidth,
+    tileHeight,
+    columns: settings.columns,
+    rows: settings.rows,
+    tiles,
+    sheets: Math.ceil(tiles / (settings.columns * settings.rows)),
+  };
+};
+
+/**
+ * Formats a time for WebVTT (hh:mm:ss.ttt).
+ * @param {number} seconds - The time in seconds.
+ * @returns {string} The WebVTT timestamp.
+ */
+const formatVttTime = (seconds: number): string => {
+  const ms = Math.round(seconds * 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+};
+
+/**
+ * Builds the WebVTT thumbnails track of the sprite sheets: one cue per frame,
+ * pointing to the frame with a media fragment (`sheet.jpg#xywh=x,y,w,h`).
+ * @param {number} duration - The video duration in seconds.
+ * @param {SpriteLayout} layout - The layout of the sprite sheets.
+ * @param {Function} sheetName - Returns the file name of a sheet from its index.
+ * @returns {string} The WebVTT content.
+ */
+export const buildSpriteVtt = (duration: number, layout: SpriteLayout, sheetName: (sheet: number) => string): string => {
+  const perSheet = layout.columns * layout.rows;
+  const cues: string[] = [];
+
+  for (let i = 0; i < layout.tiles; i++) {
+    const start = i * layout.interval;
+    const end = Math.min((i + 1) * layout.interval, Math.max(duration, start + 0.001));
+    const position = i % perSheet;
+    const x = (position % layout.columns) * layout.tileWidth;
+    const y = Math.floor(position / layout.columns) * layout.tileHeight;
+
+    cues.push(
+      `${formatVttTime(start)} --> ${formatVttTime(end)}\n` +
+      `${sheetName(Math.floor(i / perSheet))}#xywh=${x},${y},${layout.tileWidth},${layout.tileHeight}`
+    );
+  }
+
+  return `WEBVTT\n\n${cues.join("\n\n")}\n`;
+};
+
+/**
+ * Returns the animated preview settings defined in `thumbnails.animated` (config/default.json).
+ * @returns {AnimatedPreviewSettings} The animated preview settings.
+ */
+export const getAnimatedPreviewSettings = (): AnimatedPreviewSettings => {
+  return config.get<AnimatedPreviewSettings>("thumbnails.animated");
+};
+
+/**
+ * Returns the clips stitched into the animated preview of a video.
+ * A single start gives one clip of `durationSeconds`; several starts give snippets of `snippetSeconds` each.
+ * Without chosen starts, short videos get a single clip at `startSeconds`,
+ * and videos of at least `highlightMinDuration` get `snippets` snippets spread across the duration.
+ * @param {number} duration - The video duration in seconds (0 if unknown).
+ * @param {AnimatedPreviewSettings} settings - The animated preview settings.
+ * @param {number[]} starts - The start times chosen by the owner (optional).
+ * @returns {PreviewClip[]} The clips, in the given order, kept within the video.
+ */
+export const getAnimatedPreviewClips = (
+  duration: number,
+  settings: AnimatedPreviewSettings = getAnimatedPreviewSettings(),
+  starts?: number[]
+): PreviewClip[] => {
+  if (!starts || starts.length === 0) {
+    starts = duration >= settings.highlightMinDuration
+      ? Array.from({ length: settings.snippets }, (_, i) => (duration * (i + 0.5)) / settings.snippets - settings.snippetSeconds / 2)
+      : [settings.startSeconds];
+  }
+
+  const length = starts.length > 1 ? settings.snippetSeconds : settings.durationSeconds;
+
+  return starts.map((start) => {
+    if (!duration || duration <= 0) return { start: Math.max(start, 0), length };
+
+    const clipStart = clampTime(Math.min(start, duration - length), duration);
+    return { start: clipStart, length: Math.round(Math.min(length, duration - clipStart) * 1000) / 1000 };
+  });
+};
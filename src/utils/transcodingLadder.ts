@@ -0,0 +1,195 @@
+import config from "config";
+
+export interface RenditionProfile {
+  name: string;
+  height: number;        // Target size of the short side (e.g. 720 for 1280x720 or 720x1280)
+  videoBitrate: number;  // kbps
+  maxrate?: number;      // kbps, defaults to 107% of videoBitrate
+  bufsize?: number;      // kbps, defaults to 200% of videoBitrate
+}
+
+export interface Rendition {
+  name: string;
+  width: number;
+  height: number;
+  videoBitrate: number;
+  maxrate: number;
+  bufsize: number;
+}
+
+export type Packaging = "hls" | "cmaf";
+
+export const PACKAGING_TYPES: Packaging[] = ["hls", "cmaf"];
+
+const MAX_RENDITIONS = 8;
+
+/**
+ * Returns the default ladder defined in `transcoding.ladder` (config/default.json).
+ * @returns {RenditionProfile[]} The configured rendition profiles.
+ */
+export const getDefaultLadder = (): RenditionProfile[] => {
+  return config.get<RenditionProfile[]>("transcoding.ladder");
+};
+
+/**
+ * Returns the default packaging defined in `transcoding.packaging` (config/default.json).
+ * "hls" produces MPEG-TS segments, "cmaf" produces fMP4 segments with both HLS and DASH manifests.
+ * @returns {Packaging} The default packaging.
+ */
+export const getDefaultPackaging = (): Packaging => {
+  return config.get<Packaging>("transcoding.packaging");
+};
+
+/**
+ * Returns the audio bitrate (kbps) used for every rendition.
+ * @returns {number} The audio bitrate.
+ */
+export const getAudioBitrate = (): number => {
+  return config.get<number>("transcoding.audioBitrate");
+};
+
+/**
+ * Parses a ladder requested with an upload.
+ * Accepts an array (or its JSON string) whose items are either the name of a configured profile (e.g. "720p")
+ * or a custom profile object ({ name?, height, videoBitrate, maxrate?, bufsize? }).
+ * A comma-separated string of profile names is accepted too (multipart forms).
+ * @param {any} value - The raw value of the request.
+ * @returns {RenditionProfile[]} The parsed profiles.
+ * @throws {Error} If the value is not a valid ladder.
+ */
+export const parseLadder = (value: any): RenditionProfile[] => {
+  let items = value;
+
+  if (typeof items === "string") {
+    try {
+      items = JSON.parse(items);
+    } catch {
+      items = items.split(",").map((t: string) => t.trim()).filter(Boolean);
+    }
+  }
+
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new Error("Renditions must be a non-empty array");
+  }
+
+  if (items.length > MAX_RENDITIONS) {
+    throw new Error(`At most ${MAX_RENDITIONS} renditions are allowed`);
+  }
+
+  const defaults = getDefaultLadder();
+
+  return items.map((item: any) => {
+    if (typeof item === "string") {
+      const profile = defaults.find((p) => p.name === item);
+      if (!profile) {
+        throw new Error(`Unknown rendition profile: ${item}`);
+      }
+      return { ...profile };
+    }
+
+    const height = Number(item?.height);
+    const videoBitrate = Number(item?.videoBitrate);
+
+    if (!Number.isInteger(height) || height < 144 || height > 4320) {
+      throw new Error("Rendition height must be an integer between 144 and 4320");
+    }
+    if (!Number.isInteger(videoBitrate) || videoBitrate < 100 || videoBitrate > 50000) {
+      throw new Error("Rendition videoBitrate must be an integer between 100 and 50000 (kbps)");
+    }
+
+    const profile: RenditionProfile = {
+      name: typeof item.name === "string" && item.name ? item.name.slice(0, 20) : `${height}p`,
+      height,
+      videoBitrate,
+    };
+    if (item.maxrate !== undefined) {
+      const maxrate = Number(item.maxrate);
+      if (!Number.isInteger(maxrate) || maxrate < videoBitrate || maxrate > 100000) {
+        throw new Error("Rendition maxrate must be an integer between videoBitrate and 100000 (kbps)");
+      }
+      profile.maxrate = maxrate;
+    }
+    if (item.bufsize !== undefined) {
+      const bufsize = Number(item.bufsize);
+      if (!Number.isInteger(bufsize) || bufsize < 100 || bufsize > 100000) {
+        throw new Error("Rendition bufsize must be an integer between 100 and 100000 (kbps)");
+      }
+      profile.bufsize = bufsize;
+    }
+    return profile;
+  });
+};
+
+// Rounds down to the closest even number (libx264 requires even dimensions)
+const toEven = (value: number) => Math.max(2, Math.floor(value / 2) * 2);
+
+/**
+ * Returns the display size of the video stream found in ffprobe metadata,
+ * swapping width and height for videos rotated by 90 or 270 degrees.
+ * @param {any} metadata - The ffprobe metadata.
+ * @returns {{ width: number, height: number }} The display size.
+ * @throws {Error} If the file has no video stream.
+ */
+export const getDisplaySize = (metadata: any): { width: number; height: number } => {
+  const stream = metadata.streams.find((s: any) => s.codec_type === "video");
+
+  if (!stream || !stream.width || !stream.height) {
+    throw new Error("No video stream found");
+  }
+
+  const sideRotation = (stream.side_data_list || []).find((d: any) => d.rotation !== undefined)?.rotation;
+  const rotation = Math.abs(Number(stream.tags?.rotate ?? sideRotation ?? 0)) % 180;
+
+  return rotation === 90
+    ? { width: stream.height, height: stream.width }
+    : { width: stream.width, height: stream.height };
+};
+
+/**
+ * Builds the renditions to produce for a source video.
+ * Profiles above the source resolution are skipped (no upscaling) and the aspect ratio of the source is kept:
+ * the profile height is applied to the short side, so portrait videos are not squashed.
+ * If the source is smaller than every profile, a single rendition at the source size is produced
+ * with the bitrate of the lowest profile.
+ * @param {RenditionProfile[]} profiles - The requested profiles.
+ * @param {{ width: number, height: number }} source - The display size of the source.
+ * @returns {Rendition[]} The renditions, from highest to lowest resolution.
+ */
+export const buildRenditions = (
+  profiles: RenditionProfile[],
+  source: { width: number; height: number }
+): Rendition[] => {
+  const portrait = source.height > source.width;
+  const shortSide = Math.min(source.width, source.height);
+  const longSide = Math.max(source.width, source.height);
+
+  const sorted = [...profiles].sort((a, b) => b.height - a.height);
+
+  const toRendition = (profile: RenditionProfile, targetShort: number): Rendition => {
+    const short = toEven(targetShort);
+    const long = toEven((targetShort * longSide) / shortSide);
+    return {
+      name: profile.name,
+      width: portrait ? short : long,
+      height: portrait ? long : short,
+      videoBitrate: profile.videoBitrate,
+      maxrate: profile.maxrate ?? Math.round(profile.videoBitrate * 1.07),
+      bufsize: profile.bufsize ?? profile.videoBitrate * 2,
+    };
+  };
+
+  const renditions = sorted
+    .filter((profile) => profile.height <= shortSide)
+    .map((profile) => toRendition(profile, profile.height));
+
+  // Drop duplicates (e.g. two profiles with the same height)
+  const unique = renditions.filter(
+    (r, i) => renditions.findIndex((o) => o.width === r.width && o.height === r.height) === i
+  );
+
+  if (unique.length === 0) {
+    return [toRendition(sorted[sorted.length - 1], shortSide)];
+  }
+
+  return unique;
+};
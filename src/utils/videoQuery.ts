@@ -0,0 +1,191 @@
+import mongoose from "mongoose";
+import { WatchProgress } from "../models/watchProgress.model";
+
+export type VideoSortField = "createdAt" | "title" | "duration" | "size";
+export type SortOrder = "asc" | "desc";
+
+export const VIDEO_SORT_FIELDS: VideoSortField[] = ["createdAt", "title", "duration", "size"];
+export const VIDEO_STATUSES = ["inProgress", "uploaded", "error"];
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface VideoListQuery {
+  userId?: string;       // Owner of the videos, omitted by the admin listing across users
+  q?: string;
+  category?: string;
+  tags?: string[];
+  videoStatus?: string;
+  from?: Date;
+  to?: Date;
+  minDuration?: number;
+  maxDuration?: number;
+  viewerId?: string;     // User whose watch progress the `watched` and `finished` filters refer to
+  watched?: boolean;     // Started (or finished) by the viewer
+  finished?: boolean;    // Watched to the end by the viewer
+  sort?: VideoSortField;
+  order?: SortOrder;
+  limit?: number;
+  cursor?: string;
+}
+
+interface VideoCursor {
+  v: string | number;  // Sort value of the last item of the page
+  id: string;          // _id of the last item of the page (tie-breaker)
+}
+
+// Computed sort values: missing durations sort as 0, sizes are stored as strings,
+// and titles fall back to the original file name like in the API responses
+const SORT_VALUE_EXPRESSIONS: Record<VideoSortField, any> = {
+  createdAt: "$createdAt",
+  title: {
+    $toLower: {
+      $cond: [{ $gt: [{ $strLenCP: { $ifNull: ["$title", ""] } }, 0] }, "$title", { $ifNull: ["$originalname", ""] }],
+    },
+  },
+  duration: { $ifNull: ["$duration", 0] },
+  size: { $convert: { input: "$size", to: "long", onError: 0, onNull: 0 } },
+};
+
+/**
+ * Encodes the position after the given item as an opaque cursor.
+ * @param {any} item - The last item of a page (with its `_sortValue`).
+ * @returns {string} The cursor (base64url JSON).
+ */
+export const encodeCursor = (item: any): string => {
+  const value = item._sortValue instanceof Date ? item._sortValue.getTime() : item._sortValue;
+  const cursor: VideoCursor = { v: value, id: item._id.toString() };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+};
+
+/**
+ * Decodes a cursor returned by a previous page.
+ * @param {string} cursor - The cursor.
+ * @param {VideoSortField} sort - The sort field of the listing (cursors are only valid for the same sort).
+ * @returns {{ value: any, id: mongoose.Types.ObjectId }} The sort value and id of the last item of the previous page.
+ * @throws {Error} If the cursor is malformed.
+ */
+export const decodeCursor = (cursor: string, sort: VideoSortField) => {
+  let parsed: VideoCursor;
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+
+  if (!parsed || !mongoose.isValidObjectId(parsed.id)) {
+    throw new Error("Invalid cursor");
+  }
+
+  const expectsString = sort === "title";
+  if (expectsString ? typeof parsed.v !== "string" : typeof parsed.v !== "number") {
+    throw new Error("Invalid cursor");
+  }
+
+  return {
+    value: sort === "createdAt" ? new Date(parsed.v as number) : parsed.v,
+    id: new mongoose.Types.ObjectId(parsed.id),
+  };
+};
+
+/**
+ * Builds the stages filtering videos on the watch progress of the viewer.
+ * @param {VideoListQuery} query - The filters of the listing.
+ * @returns {any[]} The stages, none if neither `watched` nor `finished` is set.
+ */
+const buildWatchProgressStages = (query: VideoListQuery): any[] => {
+  if ((query.watched === undefined && query.finished === undefined) || !query.viewerId) return [];
+
+  const progressMatch: any = {};
+  if (query.watched !== undefined) progressMatch["_progress.0"] = { $exists: query.watched };
+  if (query.finished !== undefined) progressMatch["_progress.finished"] = query.finished ? true : { $ne: true };
+
+  return [
+    {
+      $lookup: {
+        from: WatchProgress.collection.name,
+        let: { videoId: "$_id" },
+        pipeline: [
+          { $match: { userId: new mongoose.Types.ObjectId(query.viewerId), $expr: { $eq: ["$videoId", "$$videoId"] } } },
+          { $project: { finished: 1 } },
+        ],
+        as: "_progress",
+      },
+    },
+    { $match: progressMatch },
+    { $project: { _progress: 0 } },
+  ];
+};
+
+/**
+ * Builds the stages selecting the videos matching the filters of a listing, without sorting nor pagination.
+ * @param {VideoListQuery} query - The filters.
+ * @returns {any[]} The aggregation stages, the first one being a $match (required by the text search).
+ */
+export const buildVideoFilterStages = (query: VideoListQuery): any[] => {
+  const match: any = {
+    mimetype: { $regex: "video" },
+  };
+
+  if (query.userId) match.userId = new mongoose.Types.ObjectId(query.userId);
+
+  // $text must be part of the first stage of the pipeline
+  if (query.q) match.$text = { $search: query.q };
+  if (query.category) match.category = query.category;
+  if (query.tags && query.tags.length > 0) match.tags = { $all: query.tags };
+  if (query.videoStatus) match.videoStatus = query.videoStatus;
+
+  if (query.from || query.to) {
+    match.createdAt = {};
+    if (query.from) match.createdAt.$gte = query.from;
+    if (query.to) match.createdAt.$lte = query.to;
+  }
+
+  if (query.minDuration !== undefined || query.maxDuration !== undefined) {
+    match.duration = {};
+    if (query.minDuration !== undefined) match.duration.$gte = query.minDuration;
+    if (query.maxDuration !== undefined) match.duration.$lte = query.maxDuration;
+  }
+
+  return [{ $match: match }, ...buildWatchProgressStages(query)];
+};
+
+/**
+ * Builds the aggregation pipeline listing the videos of a user.
+ * One item more than the page size is fetched so the caller can tell whether there is a next page.
+ * Ties on the sort value are broken by `_id` so that cursor pagination never skips or repeats an item.
+ * @param {VideoListQuery} query - The filters, sort and pagination of the listing.
+ * @returns {any[]} The aggregation pipeline.
+ * @throws {Error} If the cursor is malformed.
+ */
+export const buildVideoListPipeline = (query: VideoListQuery): any[] => {
+  const sort = query.sort || "createdAt";
+  const order = query.order || (sort === "title" ? "asc" : "desc");
+  const limit = Math.min(query.limit || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+  const pipeline: any[] = [
+    ...buildVideoFilterStages(query),
+    { $addFields: { _sortValue: SORT_VALUE_EXPRESSIONS[sort] } },
+  ];
+
+  if (query.cursor) {
+    const { value, id } = decodeCursor(query.cursor, sort);
+    const op = order === "asc" ? "$gt" : "$lt";
+    pipeline.push({
+      $match: {
+        $or: [
+          { _sortValue: { [op]: value } },
+          { _sortValue: value, _id: { [op]: id } },
+        ],
+      },
+    });
+  }
+
+  const direction = order === "asc" ? 1 : -1;
+  pipeline.push(
+    { $sort: { _sortValue: direction, _id: direction } },
+    { $limit: limit + 1 }
+  );
+
+  return pipeline;
+};
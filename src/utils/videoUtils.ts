@@ -2,12 +2,95 @@ import fs from "fs";
 import path from "path";
 import sharp from "sharp";
 import config from "config";
-import { File } from "../models/data.model";
-import { VIDEO_PATH } from "../server.settings";
+import { File, IFile } from "../models/data.model";
+import { ShareLink } from "../models/share.model";
+import { PlaybackSession } from "../models/analytics.model";
+import { WatchProgress } from "../models/watchProgress.model";
+import { getVideoPath } from "../server.settings";
 import { ENABLE_LOGS } from "../config/env";
+import { clearProgress, emitProgress } from "./processingEvents";
+import { deleteFolderUntilGone } from "./deleteFolder";
+import { getStorage, getContentType, videoKey } from "../storage";
+import { publishSubtitles } from "./subtitles";
+import { emitWebhookEvent } from "./webhooks";
+import { removeVideoFromPlaylists } from "./playlists";
+import {
+  AnimatedPreviewFormat,
+  AnimatedPreviewSettings,
+  buildSpriteVtt,
+  getAnimatedPreviewClips,
+  getAnimatedPreviewSettings,
+  getDefaultThumbnailTimes,
+  getFrameStats,
+  getSpriteLayout,
+  getThumbnailCandidateTimes,
+  isBlankFrame,
+  PreviewClip
+} from "./thumbnails";
+import {
+  buildRenditions,
+  getAudioBitrate,
+  getDefaultLadder,
+  getDefaultPackaging,
+  getDisplaySize,
+  Packaging
+} from "./transcodingLadder";
 
 const ffmpeg = require("fluent-ffmpeg");
 
+export const PROCESSING_INTERRUPTED = "Processing interrupted by server shutdown";
+
+// Duration of the HLS and DASH segments, in seconds
+export const SEGMENT_SECONDS = 4;
+
+// Subfolder of the video folder where a reprocessing renders the new renditions
+const RENDITION_STAGING_FOLDER = ".renditions";
+
+// Files generated by createVideo that a reprocessing can rebuild
+export type VideoArtifact = "hls" | "static_thumbnail" | "animated_thumbnail" | "sprite";
+export const VIDEO_ARTIFACTS: VideoArtifact[] = ["hls", "static_thumbnail", "animated_thumbnail", "sprite"];
+
+// ffmpeg commands of the videos being processed, killed by interruptProcessing()
+const runningCommands = new Set<any>();
+let processingInterrupted = false;
+
+/**
+ * Registers an ffmpeg command until it ends, so that it can be killed on shutdown.
+ * @param {any} command - The fluent-ffmpeg command.
+ * @returns {any} The same command.
+ */
+const trackCommand = (command) => {
+  const untrack = () => runningCommands.delete(command);
+  runningCommands.add(command);
+  return command.on("end", untrack).on("error", untrack);
+};
+
+/**
+ * Interrupts the processing of every video: running ffmpeg commands are killed
+ * and createVideo rejects with PROCESSING_INTERRUPTED at its next step.
+ * Called on shutdown, once the running jobs had their time to finish.
+ */
+export const interruptProcessing = () => {
+  processingInterrupted = true;
+
+  for (const command of runningCommands) {
+    command.kill("SIGKILL");
+  }
+};
+
+/**
+ * Allows processing again after interruptProcessing() (e.g. when the job queue is restarted).
+ */
+export const resumeProcessing = () => {
+  processingInterrupted = false;
+};
+
+/**
+ * Tells whether processing was interrupted by a shutdown.
+ * @returns {boolean} True after interruptProcessing() until resumeProcessing().
+ */
+export const isProcessingInterrupted = () => processingInterrupted;
+
 
 /**
  * Checks if a file is of an allowed video type (based on the `allowedVideoTypes` config variable)
@@ -37,6 +120,28 @@ export const videoFileFilter = function (req, file, cb) {
   cb(null, true);
 };
 
+/**
+ * Checks if a file is of an allowed subtitle type (based on the `allowedSubtitleTypes` config variable)
+ * @param {express.Request} req - The Express request object
+ * @param {Express.Multer.File} file - The uploaded file
+ * @param {Function} cb - The callback function to be called after the check has been performed
+ * @returns {void} - Passes the result of the check to the callback function
+ */
+export const subtitleFileFilter = function (req, file, cb) {
+  const extensions: string = config.get("allowedSubtitleTypes");
+  const allowedExtensions = extensions.split("|");
+  const fileExtension = file.originalname.split(".").pop()?.toLowerCase();
+
+  if (!allowedExtensions.includes(fileExtension || "")) {
+    return cb(
+      new Error(`File type not allowed. Allowed types are: ${extensions}`),
+      false
+    );
+  }
+
+  cb(null, true);
+};
+
 /**
  * Checks if a file is of an allowed thumbnail type (based on the `allowedThumbTypes` config variable)
  * @param {express.Request} req - The Express request object
@@ -87,6 +192,284 @@ const getVideoMetadata = (filePath: string): Promise<any> => {
   });
 };
 
+/**
+ * Extracts a single frame of a video as a JPEG image.
+ * The seek happens before decoding, which ffmpeg makes frame-accurate when re-encoding.
+ * @param {string} inputPath - The path of the video.
+ * @param {number} time - The timestamp of the frame, in seconds.
+ * @param {string} outputPath - The path of the JPEG image.
+ * @param {number} width - The width of the image (optional, the size of the video by default).
+ */
+const extractFrame = (inputPath: string, time: number, outputPath: string, width?: number): Promise<void> => {
+  return new Promise<void>((resolve, reject) => {
+    const command = trackCommand(ffmpeg(inputPath))
+      .seekInput(time)
+      .outputOptions(["-frames:v 1", "-q:v 2"]);
+
+    if (width) command.size(`${width}x?`);
+
+    command
+      .output(outputPath)
+      .on("end", () => fs.existsSync(outputPath) ? resolve() : reject(new Error(`No frame at ${time}s`)))
+      .on("error", reject)
+      .run();
+  });
+};
+
+/**
+ * Extracts the automatic thumbnail of a video: the first frame of getDefaultThumbnailTimes that is neither black nor blank,
+ * or else the brightest one.
+ * @param {string} inputPath - The path of the video.
+ * @param {number} duration - The video duration in seconds.
+ * @param {string} outputPath - The path of the JPEG image.
+ * @returns {Promise<number>} The timestamp of the chosen frame.
+ */
+const pickThumbnailFrame = async (inputPath: string, duration: number, outputPath: string): Promise<number> => {
+  let best: { time: number; image: Buffer; score: number } | undefined;
+  let lastError: unknown;
+
+  for (const time of getDefaultThumbnailTimes(duration)) {
+    try {
+      await extractFrame(inputPath, time, outputPath);
+    } catch (err) {
+      if (processingInterrupted) throw err;
+      lastError = err;
+      continue;
+    }
+
+    const image = await fs.promises.readFile(outputPath);
+    if (!(await isBlankFrame(image))) return time;
+
+    const { brightness, contrast } = await getFrameStats(image);
+    if (!best || brightness + contrast > best.score) {
+      best = { time, image, score: brightness + contrast };
+    }
+  }
+
+  if (!best) throw lastError;
+
+  await fs.promises.writeFile(outputPath, best.image);
+  return best.time;
+};
+
+/**
+ * Runs a function on a local copy of the stored original of a video.
+ * The working copy is used when it is still on disk, otherwise the original is downloaded from the storage backend
+ * to a temporary file, removed afterwards.
+ * @param {IFile} fileObj - The processed video.
+ * @param {Function} fn - The function, receiving the path of the original.
+ * @returns The result of the function.
+ */
+const withOriginalVideo = async <T>(fileObj: IFile, fn: (inputPath: string) => Promise<T>): Promise<T> => {
+  const id = fileObj._id.toString();
+  const originalName = fileObj.original_video || `${id}_original${path.extname(fileObj.filename)}`;
+  const localPath = path.join(getVideoPath(), id, originalName);
+
+  if (fs.existsSync(localPath)) {
+    return fn(localPath);
+  }
+
+  const tempPath = path.join(getVideoPath(), `${id}_${Date.now()}_source${path.extname(originalName)}`);
+  await getStorage().downloadToFile(videoKey(id, originalName), tempPath);
+
+  try {
+    return await fn(tempPath);
+  } finally {
+    await fs.promises.rm(tempPath, { force: true });
+  }
+};
+
+/**
+ * Extracts evenly spaced frames of a video, for the owner to choose a thumbnail from.
+ * @param {IFile} fileObj - The processed video.
+ * @param {number} count - The number of candidates.
+ * @param {number} width - The width of the previews.
+ * @returns {Promise<{ time: number, image: string }[]>} The timestamps with a WebP preview as a data URL.
+ */
+export const extractThumbnailCandidates = async (fileObj: IFile, count: number, width: number) => {
+  const id = fileObj._id.toString();
+  const framePath = path.join(getVideoPath(), `${id}_${Date.now()}_candidate.jpg`);
+
+  return withOriginalVideo(fileObj, async (inputPath) => {
+    const candidates: { time: number; image: string }[] = [];
+
+    try {
+      for (const time of getThumbnailCandidateTimes(fileObj.duration || 0, count)) {
+        await extractFrame(inputPath, time, framePath, width);
+        const preview = await sharp(framePath).webp({ quality: 70 }).toBuffer();
+        candidates.push({ time, image: `data:image/webp;base64,${preview.toString("base64")}` });
+      }
+    } finally {
+      await fs.promises.rm(framePath, { force: true });
+    }
+
+    return candidates;
+  });
+};
+
+/**
+ * Replaces the static thumbnail of a video with the frame at a timestamp.
+ * The custom thumbnail, which would hide it, is removed, and the timestamp is kept for later reprocessings.
+ * @param {IFile} fileObj - The processed video.
+ * @param {number} time - The timestamp of the frame, in seconds (at most the duration of the video).
+ * @returns {Promise<number>} The timestamp of the extracted frame.
+ */
+export const setThumbnailFromFrame = async (fileObj: IFile, time: number): Promise<number> => {
+  const id = fileObj._id.toString();
+  const framePath = path.join(getVideoPath(), `${id}_${Date.now()}_frame.jpg`);
+  const frameTime = Math.min(time, Math.max((fileObj.duration || 0) - 0.1, 0));
+
+  const thumbnail = await withOriginalVideo(fileObj, async (inputPath) => {
+    try {
+      await extractFrame(inputPath, frameTime, framePath);
+      return await sharp(framePath).webp().toBuffer();
+    } finally {
+      await fs.promises.rm(framePath, { force: true });
+    }
+  });
+
+  const storage = getStorage();
+  await storage.writeFile(videoKey(id, `${id}.webp`), thumbnail, "image/webp");
+  await storage.delete(videoKey(id, `${id}_custom.webp`));
+
+  await File.findByIdAndUpdate(id, {
+    static_thumbnail: `${id}.webp`,
+    thumbnailTime: frameTime,
+    $unset: { custom_thumbnail: 1 },
+  });
+
+  return frameTime;
+};
+
+/**
+ * Renders an animated preview: the clips of a video stitched together, without audio.
+ * @param {string} inputPath - The path of the video.
+ * @param {PreviewClip[]} clips - The clips, in order.
+ * @param {AnimatedPreviewFormat} format - "webp" (looping animated image) or "mp4" (H.264, for <video> tags).
+ * @param {AnimatedPreviewSettings} settings - The animated preview settings (width and frame rate).
+ * @param {string} outputPath - The path of the preview.
+ */
+const renderAnimatedPreview = (
+  inputPath: string,
+  clips: PreviewClip[],
+  format: AnimatedPreviewFormat,
+  settings: AnimatedPreviewSettings,
+  outputPath: string
+): Promise<void> => {
+  return new Promise<void>((resolve, reject) => {
+    const command = trackCommand(ffmpeg());
+
+    // One input per clip, seeked before decoding
+    for (const clip of clips) {
+      command.input(inputPath).inputOptions(["-ss", String(clip.start), "-t", String(clip.length)]);
+    }
+
+    const scaleFilters = clips.map((_, i) => `[${i}:v]fps=${settings.fps},scale=${settings.width}:-2:flags=lanczos,setsar=1[c${i}]`);
+    const concatFilter = `${clips.map((_, i) => `[c${i}]`).join("")}concat=n=${clips.length}:v=1:a=0[preview]`;
+    const formatOptions = format === "mp4"
+      ? ["-c:v", "libx264", "-pix_fmt", "yuv420p", "-movflags", "+faststart"]
+      : ["-loop", "0"];
+
+    command
+      .outputOptions(["-filter_complex", [...scaleFilters, concatFilter].join(";"), "-map", "[preview]", "-an", ...formatOptions])
+      .output(outputPath)
+      .on("end", resolve)
+      .on("error", reject)
+      .run();
+  });
+};
+
+/**
+ * Regenerates the animated preview of a video from the start times chosen by the owner.
+ * The choice is kept on the video, so that a reprocessing produces the same preview.
+ * @param {IFile} fileObj - The processed video.
+ * @param {object} options - The start times (the previous choice if omitted, automatic if empty) and the format.
+ * @returns {Promise<{ animated_thumbnail: string, clips: PreviewClip[] }>} The file name of the preview and its clips.
+ */
+export const setAnimatedPreview = async (
+  fileObj: IFile,
+  options: { starts?: number[]; format?: AnimatedPreviewFormat }
+) => {
+  const id = fileObj._id.toString();
+  const settings = getAnimatedPreviewSettings();
+  const starts = options.starts ?? fileObj.animatedPreviewStarts;
+  const format = options.format || fileObj.animatedPreviewFormat || settings.format;
+  const clips = getAnimatedPreviewClips(fileObj.duration || 0, settings, starts);
+  const animatedName = `${id}_animated.${format}`;
+  const previewPath = path.join(getVideoPath(), `${id}_${Date.now()}_preview.${format}`);
+
+  const preview = await withOriginalVideo(fileObj, async (inputPath) => {
+    try {
+      await renderAnimatedPreview(inputPath, clips, format, settings, previewPath);
+      return await fs.promises.readFile(previewPath);
+    } finally {
+      await fs.promises.rm(previewPath, { force: true });
+    }
+  });
+
+  const storage = getStorage();
+  await storage.writeFile(videoKey(id, animatedName), preview, getContentType(animatedName));
+  if (fileObj.animated_thumbnail && fileObj.animated_thumbnail !== animatedName) {
+    await storage.delete(videoKey(id, fileObj.animated_thumbnail));
+  }
+
+  await File.findByIdAndUpdate(id, {
+    animated_thumbnail: animatedName,
+    animatedPreviewFormat: format,
+    ...(starts && starts.length > 0
+      ? { animatedPreviewStarts: starts }
+      : { $unset: { animatedPreviewStarts: 1 } }),
+  });
+
+  return { animated_thumbnail: animatedName, clips };
+};
+
+/**
+ * Tells whether a stored file belongs to the renditions (playlists, manifests and segments)
+ * rather than to the files kept across reprocessings: original, thumbnails, sprite sheets and subtitles.
+ * @param {string} id - The id of the video.
+ * @param {string} filename - The name of the file.
+ * @returns {boolean} True for the files of the renditions.
+ */
+export const isRenditionFile = (id: string, filename: string): boolean => {
+  return !new RegExp(`^${id}(_original\\..+|\\.webp|_animated\\.(webp|mp4)|_custom\\.webp|_sprite_\\d+\\.jpg|_thumbnails\\.vtt|_sub_.+)$`).test(filename);
+};
+
+/**
+ * Tells whether a stored file is a sprite sheet or the thumbnails track of a video.
+ * @param {string} id - The id of the video.
+ * @param {string} filename - The name of the file.
+ * @returns {boolean} True for the files of the scrubbing previews.
+ */
+const isSpriteFile = (id: string, filename: string): boolean => {
+  return new RegExp(`^${id}(_sprite_\\d+\\.jpg|_thumbnails\\.vtt)$`).test(filename);
+};
+
+/**
+ * Removes the files of a previous processing, from the storage backend and from the local working folder.
+ * @param {string} id - The id of the video.
+ * @param {string} videoFolderPath - The local working folder of the video.
+ * @param {Function} match - Tells whether a file name must be removed (e.g. isRenditionFile).
+ */
+const removeGeneratedFiles = async (id: string, videoFolderPath: string, match: (id: string, filename: string) => boolean) => {
+  const storage = getStorage();
+
+  for (const key of await storage.list(id)) {
+    if (match(id, path.basename(key))) {
+      await storage.delete(key);
+    }
+  }
+
+  // With the local driver the working folder is the storage itself
+  if (storage.name !== "local" && fs.existsSync(videoFolderPath)) {
+    for (const filename of await fs.promises.readdir(videoFolderPath)) {
+      if (match(id, filename)) {
+        await fs.promises.rm(path.join(videoFolderPath, filename), { force: true });
+      }
+    }
+  }
+};
+
 /**
  * Creates a video from an uploaded file.
  * This function performs the following steps:
@@ -94,24 +477,44 @@ const getVideoMetadata = (filePath: string): Promise<any> => {
  *  - Ensures the video folder exists.
  *  - Generates a static thumbnail (JPEG → WebP).
  *  - Generates an animated thumbnail (FFmpeg).
- *  - Converts the video to HLS format (ABR).
+ *  - Converts the video to HLS format (ABR), with the renditions of the requested or configured ladder.
+ *    With the "cmaf" packaging, fMP4 segments are produced with both an HLS master playlist and a DASH manifest.
+ *  - Publishes the video folder to the storage backend.
  *  - Updates the database with the generated files and video status.
+ * Processing always happens in the local folder `<video folder>/<id>`; with a remote storage backend
+ * it is only a working copy, removed once its content has been published.
+ * Errors are rethrown so that the job queue can retry the processing.
+ * On shutdown (see interruptProcessing) it rejects with PROCESSING_INTERRUPTED, keeping the files produced so far.
+ * When the uploaded file has already been moved into the video folder (e.g. on a retry),
+ * the stored original is used as input.
+ * A reprocessing passes the artifacts to rebuild: the others are left untouched. The new renditions are rendered
+ * in a staging subfolder and replace the previous ones when published, so that the video stays playable meanwhile;
+ * the previous files the new renditions don't use are then removed (the ladder may have changed).
  * @param {File} fileObj - The uploaded file.
  * @param {string} customThumbnailPath - The path to the custom thumbnail file (optional).
+ * @param {VideoArtifact[]} artifacts - The artifacts to rebuild (optional, all of them by default).
  */
-export const createVideo = async (fileObj, customThumbnailPath?: string) => {
+export const createVideo = async (fileObj, customThumbnailPath?: string, artifacts?: VideoArtifact[]) => {
   const id = fileObj._id.toString();
+  const rebuild = (artifact: VideoArtifact) => !artifacts || artifacts.includes(artifact);
 
   if (ENABLE_LOGS) {
     console.log(`[createVideo] Starting processing for video ${id}`);
   }
 
-  const inputPath = path.join(VIDEO_PATH, fileObj.filename);
-  const videoFolderPath = path.join(VIDEO_PATH, id);
+  const uploadPath = path.join(getVideoPath(), fileObj.filename);
+  const videoFolderPath = path.join(getVideoPath(), id);
   const originalVideoPath = path.join(videoFolderPath, `${id}_original${path.extname(fileObj.filename)}`);
+  const storage = getStorage();
+  let inputPath = !fs.existsSync(uploadPath) && fs.existsSync(originalVideoPath)
+    ? originalVideoPath
+    : uploadPath;
 
   // Folder controll helper 
   const folderExistsOrExit = () => {
+    if (processingInterrupted) {
+      throw new Error(PROCESSING_INTERRUPTED);
+    }
     if (!fs.existsSync(videoFolderPath)) {
       console.warn(`[createVideo] Folder ${videoFolderPath} was removed during processing. Aborting.`);
       return false;
@@ -127,81 +530,106 @@ export const createVideo = async (fileObj, customThumbnailPath?: string) => {
       return;
     }
 
+    // 2. Ensure folder exists (before probing, so a probe failure keeps the input for a retry)
+    if (!fs.existsSync(videoFolderPath)) {
+      fs.mkdirSync(videoFolderPath, { recursive: true });
+    }
+
+    // The original may only be available in the storage backend (e.g. retry on another instance)
+    if (!fs.existsSync(inputPath)) {
+      const originalKey = videoKey(id, path.basename(originalVideoPath));
+      if (await storage.exists(originalKey)) {
+        await storage.downloadToFile(originalKey, originalVideoPath);
+        inputPath = originalVideoPath;
+      }
+    }
+
+    emitProgress(id, "probe");
     const metadata = await getVideoMetadata(inputPath);
     const duration = metadata.format.duration || 0;
     const hasAudio = metadata.streams.some(
       (stream: any) => stream.codec_type === 'audio'
     );
 
-    if (ENABLE_LOGS) {
-      console.log(`[createVideo] Video ${id} - Duration: ${duration}s, Has audio: ${hasAudio}`);
-    }
+    // Renditions: requested ladder (or the configured one), without upscaling and keeping the aspect ratio
+    const profiles = fileObj.ladder && fileObj.ladder.length > 0 ? fileObj.ladder : getDefaultLadder();
+    const renditions = buildRenditions(profiles, getDisplaySize(metadata));
+    const packaging: Packaging = fileObj.packaging || getDefaultPackaging();
 
-    // 2. Ensure folder exists
-    if (!fs.existsSync(videoFolderPath)) {
-      fs.mkdirSync(videoFolderPath, { recursive: true });
+    if (ENABLE_LOGS) {
+      console.log(`[createVideo] Video ${id} - Duration: ${duration}s, Has audio: ${hasAudio}, Renditions: ${renditions.map(r => `${r.width}x${r.height}`).join(', ')}`);
     }
 
     // 3. Definition of paths
     const masterPlaylistPath = path.join(videoFolderPath, `${id}_master.m3u8`);
     const staticThumbPath = path.join(videoFolderPath, `${id}.webp`);
-    const animatedThumbPath = path.join(videoFolderPath, `${id}_animated.webp`);
+    const previewSettings = getAnimatedPreviewSettings();
+    const previewFormat: AnimatedPreviewFormat = fileObj.animatedPreviewFormat || previewSettings.format;
+    const animatedThumbPath = path.join(videoFolderPath, `${id}_animated.${previewFormat}`);
     const jpegFramePath = path.join(videoFolderPath, `thumb.jpg`);
     const customThumbPath = path.join(videoFolderPath, `${id}_custom.webp`);
+    const spriteVttPath = path.join(videoFolderPath, `${id}_thumbnails.vtt`);
+    const staged = !!artifacts && rebuild("hls");
+    const renditionFolderPath = staged ? path.join(videoFolderPath, RENDITION_STAGING_FOLDER) : videoFolderPath;
 
     // === STATIC THUMBNAIL ===
+    emitProgress(id, "thumbnail");
     if (customThumbnailPath && fs.existsSync(customThumbnailPath)) {
       await sharp(customThumbnailPath).webp().toFile(customThumbPath);
       fs.unlinkSync(customThumbnailPath); // Rimuovi il file temporaneo
     }
 
-    if (!customThumbnailPath) {
+    if (!customThumbnailPath && rebuild("static_thumbnail")) {
       if (!folderExistsOrExit()) return;
-      // Generate static thumbnail (JPEG → WebP)
-      await new Promise<void>((resolve, reject) => {
-        ffmpeg(inputPath)
-          .outputOptions(["-frames:v 1"])
-          .seekInput(4) // <- Seek to the X second
-          .output(jpegFramePath)
-          .on("end", resolve)
-          .on("error", reject)
-          .run();
-      });
+      // Generate static thumbnail (JPEG → WebP), at the frame picked by the owner or else at the first non-black frame
+      if (fileObj.thumbnailTime !== undefined && fileObj.thumbnailTime !== null) {
+        await extractFrame(inputPath, Math.min(fileObj.thumbnailTime, Math.max(duration - 0.1, 0)), jpegFramePath);
+      } else {
+        await pickThumbnailFrame(inputPath, duration, jpegFramePath);
+      }
       if (!folderExistsOrExit()) return;
       const jpegBuffer = await fs.promises.readFile(jpegFramePath);
       await sharp(jpegBuffer).webp().toFile(staticThumbPath);
       await fs.promises.unlink(jpegFramePath);
     }
 
-    // === HLS CONVERSION  with ABR ===
+    // === HLS CONVERSION  with ABR (TS segments, or CMAF segments with HLS + DASH manifests) ===
 
     if (!folderExistsOrExit()) return;
-        if (!fs.existsSync(masterPlaylistPath)) {
+    emitProgress(id, "hls");
+        // A reprocessing renders the new renditions aside: the current ones are served until the new ones are published
+        if (staged) {
+          await fs.promises.rm(renditionFolderPath, { recursive: true, force: true });
+          await fs.promises.mkdir(renditionFolderPath, { recursive: true });
+        }
+        // A playlist without the DB field is a leftover of an interrupted run
+        if (rebuild("hls") && (staged || !fileObj.hls || !fs.existsSync(masterPlaylistPath))) {
           await new Promise<void>((resolve, reject) => {
-            const command = ffmpeg(inputPath);
+            const command = trackCommand(ffmpeg(inputPath));
             
-            // Video Options (4 streams)
+            // Video Options (one stream per rendition, scaled with the source aspect ratio)
+            const splitLabels = renditions.map((_, i) => `[v${i + 1}]`).join('');
+            const scaleFilters = renditions
+              .map((r, i) => `[v${i + 1}]scale=w=${r.width}:h=${r.height}[v${i + 1}out]`)
+              .join(';');
+
             const videoOptions = [
               '-filter_complex',
-              '[0:v]split=4[v1][v2][v3][v4];' +
-              '[v1]copy[v1out];' +
-              '[v2]scale=w=1280:h=720[v2out];' +
-              '[v3]scale=w=854:h=480[v3out];' +
-              '[v4]scale=w=640:h=360[v4out]',
-              
-              '-map', '[v1out]', '-c:v:0', 'libx264', '-b:v:0', '5000k', '-maxrate:v:0', '5350k', '-bufsize:v:0', '10000k',
-              '-map', '[v2out]', '-c:v:1', 'libx264', '-b:v:1', '2800k', '-maxrate:v:1', '2996k', '-bufsize:v:1', '5600k',
-              '-map', '[v3out]', '-c:v:2', 'libx264', '-b:v:2', '1400k', '-maxrate:v:2', '1498k', '-bufsize:v:2', '2800k',
-              '-map', '[v4out]', '-c:v:3', 'libx264', '-b:v:3', '800k', '-maxrate:v:3', '856k', '-bufsize:v:3', '1600k',
+              `[0:v]split=${renditions.length}${splitLabels};${scaleFilters}`,
+              ...renditions.flatMap((r, i) => [
+                '-map', `[v${i + 1}out]`,
+                `-c:v:${i}`, 'libx264',
+                `-b:v:${i}`, `${r.videoBitrate}k`,
+                `-maxrate:v:${i}`, `${r.maxrate}k`,
+                `-bufsize:v:${i}`, `${r.bufsize}k`,
+              ]),
             ];
             
             // Audio Options (only if has audio)
-            const audioOptions = hasAudio ? [
-              '-map', '0:a', '-map', '0:a', '-map', '0:a', '-map', '0:a',
-              '-c:a', 'aac', '-b:a', '128k',
-              '-var_stream_map', 'v:0,a:0 v:1,a:1 v:2,a:2 v:3,a:3'
-            ] : [
-              '-var_stream_map', 'v:0 v:1 v:2 v:3'
+            // HLS/TS muxes one audio copy per variant, CMAF shares a single audio representation
+            const audioOptions = !hasAudio ? [] : [
+              ...(packaging === 'cmaf' ? ['-map', '0:a'] : renditions.flatMap(() => ['-map', '0:a'])),
+              '-c:a', 'aac', '-b:a', `${getAudioBitrate()}k`,
             ];
             
             // Common Options
@@ -210,19 +638,39 @@ export const createVideo = async (fileObj, customThumbnailPath?: string) => {
               '-g', '48',
               '-keyint_min', '48',
               '-sc_threshold', '0',
+            ];
+
+            // Packaging Options
+            const packagingOptions = packaging === 'cmaf' ? [
+              // fMP4 segments referenced by both the DASH manifest and the HLS playlists
+              '-f', 'dash',
+              '-seg_duration', String(SEGMENT_SECONDS),
+              '-use_template', '1',
+              '-use_timeline', '1',
+              '-adaptation_sets', hasAudio ? 'id=0,streams=v id=1,streams=a' : 'id=0,streams=v',
+              '-init_seg_name', `${id}_init_$RepresentationID$.m4s`,
+              '-media_seg_name', `${id}_chunk_$RepresentationID$_$Number%05d$.m4s`,
+              '-hls_playlist', '1',
+              '-hls_master_name', `${id}_master.m3u8`,
+            ] : [
+              '-var_stream_map', renditions.map((_, i) => hasAudio ? `v:${i},a:${i}` : `v:${i}`).join(' '),
               '-f', 'hls',
-              '-hls_time', '4',
+              '-hls_time', String(SEGMENT_SECONDS),
               '-hls_playlist_type', 'vod',
               '-hls_flags', 'independent_segments',
               '-master_pl_name', `${id}_master.m3u8`,
-              '-hls_segment_filename', path.join(videoFolderPath, `${id}_v%v_%03d.ts`)
+              '-hls_segment_filename', path.join(renditionFolderPath, `${id}_v%v_%03d.ts`)
             ];
+
+            const outputPath = packaging === 'cmaf'
+              ? path.join(renditionFolderPath, `${id}.mpd`)
+              : path.join(renditionFolderPath, `${id}_stream_%v.m3u8`);
             
             let killCheckInterval: NodeJS.Timeout;
 
             command
-              .outputOptions([...videoOptions, ...audioOptions, ...commonOptions])
-              .output(path.join(videoFolderPath, `${id}_stream_%v.m3u8`))
+              .outputOptions([...videoOptions, ...audioOptions, ...commonOptions, ...packagingOptions])
+              .output(outputPath)
               .on("start", () => {
                 // Check if the folder has been deleted
                 killCheckInterval = setInterval(() => {
@@ -242,6 +690,9 @@ export const createVideo = async (fileObj, customThumbnailPath?: string) => {
               })
               .on("error", (err) => {
                 clearInterval(killCheckInterval);
+                if (processingInterrupted) {
+                  return reject(new Error(PROCESSING_INTERRUPTED));
+                }
                 if (err.message.includes("SIGKILL") || !fs.existsSync(videoFolderPath)) {
                   console.warn(`[createVideo] Process aborted gracefully for ${id}`);
                   return resolve();
@@ -250,6 +701,9 @@ export const createVideo = async (fileObj, customThumbnailPath?: string) => {
                 reject(err);
               })
               .on("progress", (progress) => {
+                if (progress.percent) {
+                  emitProgress(id, "hls", progress.percent);
+                }
                 if (ENABLE_LOGS && progress.percent) {
                   console.log(`[createVideo] ${id} - Processing: ${Math.round(progress.percent)}%`);
                 }
@@ -260,28 +714,105 @@ export const createVideo = async (fileObj, customThumbnailPath?: string) => {
     // === ANIMATED THUMBNAIL ===
     // Generate animated thumbnail
     if (!folderExistsOrExit()) return;
-    if (!fs.existsSync(animatedThumbPath)) {
+    emitProgress(id, "animated_thumbnail");
+    if (rebuild("animated_thumbnail") && (artifacts || !fileObj.animated_thumbnail || !fs.existsSync(animatedThumbPath))) {
+      // A single clip for short videos, a highlight of several snippets for long ones (or the start times chosen by the owner)
+      const clips = getAnimatedPreviewClips(duration, previewSettings, fileObj.animatedPreviewStarts);
+      await renderAnimatedPreview(inputPath, clips, previewFormat, previewSettings, animatedThumbPath);
+
+      // The configured format may have changed since the previous processing
+      if (fileObj.animated_thumbnail && fileObj.animated_thumbnail !== path.basename(animatedThumbPath)) {
+        await storage.delete(videoKey(id, fileObj.animated_thumbnail));
+        await fs.promises.rm(path.join(videoFolderPath, fileObj.animated_thumbnail), { force: true });
+      }
+    }
+
+    // === SPRITE SHEETS (scrubbing previews) ===
+    if (!folderExistsOrExit()) return;
+    emitProgress(id, "sprite");
+    if (rebuild("sprite") && (artifacts || !fileObj.sprite_thumbnails || !fs.existsSync(spriteVttPath))) {
+      // The number of sheets depends on the duration and the settings, which may have changed
+      await removeGeneratedFiles(id, videoFolderPath, isSpriteFile);
+
+      const layout = getSpriteLayout(duration, getDisplaySize(metadata));
       await new Promise<void>((resolve, reject) => {
-        ffmpeg(inputPath)
-          .inputOptions(["-ss 00:00:01"])
-          .outputOptions(["-vf fps=10,scale=320:-1:flags=lanczos", "-t 3"])
-          .output(animatedThumbPath)
+        trackCommand(ffmpeg(inputPath))
+          .outputOptions([
+            "-vf", `fps=1/${layout.interval},scale=${layout.tileWidth}:${layout.tileHeight},tile=${layout.columns}x${layout.rows}`,
+            "-q:v", "4",
+            "-start_number", "0",
+          ])
+          .output(path.join(videoFolderPath, `${id}_sprite_%d.jpg`))
           .on("end", resolve)
           .on("error", reject)
           .run();
       });
+      if (!folderExistsOrExit()) return;
+
+      // ffmpeg may output one frame less than expected at the very end: only reference the sheets produced
+      const sheets = (await fs.promises.readdir(videoFolderPath)).filter((name) => /_sprite_\d+\.jpg$/.test(name)).length;
+      const tiles = Math.min(layout.tiles, sheets * layout.columns * layout.rows);
+      const vtt = buildSpriteVtt(duration, { ...layout, tiles, sheets }, (sheet) => `${id}_sprite_${sheet}.jpg`);
+      await fs.promises.writeFile(spriteVttPath, vtt);
     }
 
+    // === PUBLISH TO STORAGE ===
+    if (!folderExistsOrExit()) return;
+    if (inputPath === uploadPath) {
+      await fs.promises.rename(uploadPath, originalVideoPath);
+      inputPath = originalVideoPath;
+    }
+
+    // The new renditions overwrite the previous ones, then the files they no longer use are removed
+    let produced: Set<string> | undefined;
+    if (staged) {
+      produced = new Set(await fs.promises.readdir(renditionFolderPath));
+      for (const filename of produced) {
+        await fs.promises.rename(path.join(renditionFolderPath, filename), path.join(videoFolderPath, filename));
+      }
+      await fs.promises.rm(renditionFolderPath, { recursive: true, force: true });
+    }
+
+    await storage.importDirectory(videoFolderPath, id);
+
+    if (produced) {
+      await removeGeneratedFiles(id, videoFolderPath, (videoId, filename) => isRenditionFile(videoId, filename) && !produced!.has(filename));
+    }
+
+    // A new master playlist has no subtitle renditions yet
+    if (fileObj.subtitles && fileObj.subtitles.length > 0) {
+      await publishSubtitles(id, `${id}_master.m3u8`, fileObj.subtitles, duration);
+    }
+
+    // Everything is stored now: measure it for the storage quota
+    const storageBytes = await storage.prefixSize(id);
+
     // Update the database if the video still exists
-    if (folderExistsOrExit() && await File.exists({ _id: id })) {
+    // Everything is published: an interruption at this point no longer matters
+    if (fs.existsSync(videoFolderPath) && await File.exists({ _id: id })) {
       const updateData: any = {
-        hls: `${id}_master.m3u8`,
-        static_thumbnail: `${id}.webp`,
-        animated_thumbnail: `${id}_animated.webp`,
          original_video: `${id}_original${path.extname(fileObj.filename)}`,
         duration: duration,
+        storageBytes: storageBytes,
         videoStatus: "uploaded",
       };
+
+      if (rebuild("hls")) {
+        updateData.hls = `${id}_master.m3u8`;
+        updateData.renditions = renditions;
+        updateData.packaging = packaging;
+        if (fileObj.ladder) updateData.ladder = fileObj.ladder;
+        updateData.dash = packaging === 'cmaf' ? `${id}.mpd` : undefined;
+      }
+      if (rebuild("static_thumbnail")) {
+        updateData.static_thumbnail = `${id}.webp`;
+      }
+      if (rebuild("animated_thumbnail")) {
+        updateData.animated_thumbnail = path.basename(animatedThumbPath);
+      }
+      if (rebuild("sprite")) {
+        updateData.sprite_thumbnails = `${id}_thumbnails.vtt`;
+      }
       
       // Add custom thumbnail if it exists
       if (customThumbnailPath) {
@@ -289,7 +820,21 @@ export const createVideo = async (fileObj, customThumbnailPath?: string) => {
       }
       
       await File.findByIdAndUpdate(id, updateData);
+      emitProgress(id, "done");
+      emitWebhookEvent("video.processed", fileObj.userId.toString(), {
+        videoId: id,
+        title: fileObj.title,
+        videoStatus: "uploaded",
+        duration: duration,
+      });
       if (ENABLE_LOGS) console.log(`[createVideo] Video ${id} successfully processed.`);
+    } else if (storage.name !== "local") {
+      // Deleted while publishing: remove the objects uploaded in the meantime
+      await storage.deletePrefix(id);
+    }
+
+    if (storage.name !== "local") {
+      await deleteFolderUntilGone(videoFolderPath);
     }
 
   } catch (err) {
@@ -298,10 +843,15 @@ export const createVideo = async (fileObj, customThumbnailPath?: string) => {
        return; 
     }
 
+    if (processingInterrupted) {
+      console.warn(`[createVideo] Processing of video ${id} interrupted by shutdown, it will resume at next start.`);
+      throw new Error(PROCESSING_INTERRUPTED);
+    }
+
     console.error(`[createVideo] Error processing video ${id}:`, err);
-    await File.findByIdAndUpdate(id, { videoStatus: "error" });
+    throw err;
   } finally {
-    if (fs.existsSync(inputPath)) {
+    if (inputPath === uploadPath && fs.existsSync(inputPath)) {
         if (fs.existsSync(videoFolderPath)) {
              await fs.promises.rename(inputPath, originalVideoPath).catch((e) => {
                  console.error(`[createVideo] Error moving file to folder:`, e);
@@ -326,7 +876,7 @@ export const createVideo = async (fileObj, customThumbnailPath?: string) => {
 /**
  * Creates a custom thumbnail for a video using sharp.
  * It takes a thumbnail image path and a video id as input,
- * creates a custom thumbnail in the video folder with the same id,
+ * stores a custom thumbnail in the video folder with the same id,
  * removes the temporary thumbnail file, and updates the custom thumbnail path in the database.
  * If an error occurs, it logs the error and throws it.
  * @param {string} thumbnailPath - The path of the thumbnail image.
@@ -338,11 +888,9 @@ export const createCustomThumbnail = async (
   id: string
 ) => {
   try {
-    const videoFolderPath = path.join(VIDEO_PATH, id);
-    const customThumbPath = path.join(videoFolderPath, `${id}_custom.webp`);
-
     // Create custom thumbnail with sharp
-    await sharp(thumbnailPath).webp().toFile(customThumbPath);
+    const customThumb = await sharp(thumbnailPath).webp().toBuffer();
+    await getStorage().writeFile(videoKey(id, `${id}_custom.webp`), customThumb, "image/webp");
 
     // Remove the temporary thumbnail file after creating the custom thumbnail
     fs.unlinkSync(thumbnailPath);
@@ -356,4 +904,47 @@ export const createCustomThumbnail = async (
     console.error("Error creating custom thumbnail:", err);
     throw err; 
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Deletes a video: its local folder (which also stops a running transcode), its stored files,
+ * its document, share links, playback sessions and watch progress, removes it from every playlist,
+ * then notifies the `video.deleted` webhooks.
+ * Files are removed in the background; the document is deleted before this function resolves.
+ * @param {IFile} fileData - The video to delete.
+ * @returns {Promise<{ filesDeleted: Promise<boolean> }>} Resolves once the document is deleted, with a promise telling,
+ * once the background deletion is over, whether every file was deleted.
+ */
+export const deleteVideo = async (fileData: IFile): Promise<{ filesDeleted: Promise<boolean> }> => {
+  const id = fileData._id.toString();
+
+  // Start deleting the local folder in the background (this also stops a running transcode)
+  const folderDeleted = deleteFolderUntilGone(path.join(getVideoPath(), id));
+
+  // Stored files live in a separate backend unless the storage is the local folder itself
+  const storage = getStorage();
+  const storedFilesDeleted = storage.name !== "local"
+    ? storage.deletePrefix(id).then((ok) => {
+        if (!ok) console.error(`Could not delete all stored files of video ${id}`);
+        return ok;
+      })
+    : Promise.resolve(true);
+
+  const filesDeleted = Promise.all([folderDeleted, storedFilesDeleted])
+    .then((results) => results.every(Boolean))
+    .catch((err) => {
+      console.error(`Error deleting the files of video ${id}:`, err);
+      return false;
+    });
+
+  // Delete from database 
+  await File.findByIdAndDelete(id);
+  await ShareLink.deleteMany({ videoId: id });
+  await PlaybackSession.deleteMany({ videoId: id });
+  await WatchProgress.deleteMany({ videoId: id });
+  await removeVideoFromPlaylists(id);
+  clearProgress(id);
+  emitWebhookEvent("video.deleted", fileData.userId.toString(), { videoId: id, title: fileData.title });
+
+  return { filesDeleted };
+};
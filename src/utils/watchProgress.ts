@@ -0,0 +1,89 @@
+import config from "config";
+import mongoose from "mongoose";
+import { File, IFile } from "../models/data.model";
+import { WatchProgress, IWatchProgress } from "../models/watchProgress.model";
+
+export const DEFAULT_CONTINUE_WATCHING_LIMIT = 20;
+
+/**
+ * Tells whether a playback position means the video was watched to the end.
+ * @param {number} position - The playback position in seconds.
+ * @param {number} duration - The video duration in seconds (0 if unknown).
+ * @param {number} threshold - Share of the video to reach (`watchProgress.finishedThreshold` by default).
+ * @returns {boolean} True once the position reaches the threshold.
+ */
+export const isFinishedPosition = (
+  position: number,
+  duration: number,
+  threshold: number = config.get<number>("watchProgress.finishedThreshold")
+): boolean => {
+  if (!duration || duration <= 0) return false;
+  return position >= duration * threshold;
+};
+
+/**
+ * Formats the progress of a user on a video for the API.
+ * @param {string} videoId - The id of the video.
+ * @param {IWatchProgress | null} progress - The saved progress, or null if the user never played the video.
+ * @returns {object} The position (0 if never played), whether the video was finished and when it was last played.
+ */
+export const serializeWatchProgress = (videoId: string, progress: IWatchProgress | null) => ({
+  videoId,
+  position: progress?.position || 0,
+  duration: progress?.duration || 0,
+  finished: progress?.finished || false,
+  updatedAt: progress?.updatedAt || null,
+});
+
+/**
+ * Saves the playback position of a user on a video.
+ * The video is marked finished when the position reaches `watchProgress.finishedThreshold` of its duration,
+ * or when the player says so; seeking back afterwards marks it unfinished again.
+ * @param {string} userId - The id of the user.
+ * @param {IFile} fileData - The video.
+ * @param {object} update - The position in seconds, and optionally whether the video was finished.
+ * @returns {Promise<IWatchProgress>} The saved progress.
+ */
+export const saveWatchProgress = async (
+  userId: string,
+  fileData: IFile,
+  update: { position: number; finished?: boolean }
+): Promise<IWatchProgress> => {
+  const duration = fileData.duration || 0;
+  const position = duration > 0 ? Math.min(update.position, duration) : update.position;
+  const finished = update.finished ?? isFinishedPosition(position, duration);
+
+  return (await WatchProgress.findOneAndUpdate(
+    { userId, videoId: fileData._id },
+    { $set: { position, duration, finished, updatedAt: new Date() } },
+    { upsert: true, new: true }
+  ))!;
+};
+
+/**
+ * Lists the videos a user started without finishing them, last played first.
+ * Videos deleted or not playable anymore (e.g. being reprocessed) are left out.
+ * @param {string} userId - The id of the user.
+ * @param {number} limit - The maximum number of videos.
+ * @returns {Promise<object[]>} The videos with their progress.
+ */
+export const getContinueWatching = async (userId: string, limit: number = DEFAULT_CONTINUE_WATCHING_LIMIT) => {
+  const items = await WatchProgress.aggregate([
+    { $match: { userId: new mongoose.Types.ObjectId(userId), finished: false, position: { $gt: 0 } } },
+    { $sort: { updatedAt: -1 } },
+    { $lookup: { from: File.collection.name, localField: "videoId", foreignField: "_id", as: "video" } },
+    { $unwind: "$video" },
+    { $match: { "video.videoStatus": "uploaded" } },
+    { $limit: limit },
+  ]);
+
+  return items.map((item) => ({
+    _id: item.video._id,
+    title: item.video.title || item.video.originalname,
+    thumbnail: `/videos/thumb/static/${item.video._id}`,
+    duration: item.video.duration,
+    position: item.position,
+    percentWatched: item.video.duration > 0 ? Math.round((item.position / item.video.duration) * 1000) / 10 : null,
+    lastWatchedAt: item.updatedAt,
+  }));
+};
@@ -0,0 +1,453 @@
+import crypto from "crypto";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import config from "config";
+import mongoose from "mongoose";
+import { ENABLE_LOGS } from "../config/env";
+import {
+  IWebhook,
+  IWebhookAttempt,
+  IWebhookDelivery,
+  Webhook,
+  WebhookDelivery,
+} from "../models/webhook.model";
+
+export const WEBHOOK_EVENTS = [
+  "video.created",
+  "video.processed",
+  "video.failed",
+  "video.deleted",
+  "thumbnail.updated",
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+interface GlobalWebhook {
+  url: string;
+  secret: string;
+  events?: string[];
+}
+
+interface WebhookSettings {
+  global: GlobalWebhook[];   // Receive the events of every user
+  maxAttempts: number;
+  retryDelayMs: number;
+  timeoutMs: number;
+  pollIntervalMs: number;
+  concurrency: number;            // Deliveries sent at the same time
+  allowPrivateNetworks: boolean;  // Let the webhooks of users target loopback and private addresses
+}
+
+// Receivers should refuse signatures older than this (replayed deliveries)
+const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+// Attempts kept in the delivery log of each delivery
+const MAX_HISTORY = 10;
+
+// Networks the webhooks of users may not reach: the server itself, the internal network and the cloud metadata endpoints
+const PRIVATE_NETWORKS = new net.BlockList();
+PRIVATE_NETWORKS.addSubnet("0.0.0.0", 8, "ipv4");
+PRIVATE_NETWORKS.addSubnet("10.0.0.0", 8, "ipv4");
+PRIVATE_NETWORKS.addSubnet("100.64.0.0", 10, "ipv4");
+PRIVATE_NETWORKS.addSubnet("127.0.0.0", 8, "ipv4");
+PRIVATE_NETWORKS.addSubnet("169.254.0.0", 16, "ipv4");
+PRIVATE_NETWORKS.addSubnet("172.16.0.0", 12, "ipv4");
+PRIVATE_NETWORKS.addSubnet("192.168.0.0", 16, "ipv4");
+PRIVATE_NETWORKS.addAddress("::", "ipv6");
+PRIVATE_NETWORKS.addAddress("::1", "ipv6");
+PRIVATE_NETWORKS.addSubnet("fc00::", 7, "ipv6");
+PRIVATE_NETWORKS.addSubnet("fe80::", 10, "ipv6");
+
+let pollTimer: NodeJS.Timeout | undefined;
+const activeWorkers = new Set<Promise<void>>();
+// URLs with a delivery being sent: a slow endpoint holds a single worker, the other endpoints keep receiving theirs
+const sendingUrls = new Set<string>();
+let stopped = false;
+
+const getWebhookSettings = (): WebhookSettings => config.get("webhooks");
+
+/**
+ * Generates the secret signing the payloads of a webhook.
+ * @returns {string} The secret.
+ */
+export const generateWebhookSecret = (): string => {
+  return `whsec_${crypto.randomBytes(24).toString("hex")}`;
+};
+
+/**
+ * Signs a webhook payload using the HMAC-SHA256 algorithm.
+ * The timestamp is signed with the body so that a captured delivery cannot be replayed later.
+ * @param {string} secret - The secret of the webhook.
+ * @param {number} timestamp - The time of the attempt, in milliseconds since epoch (`X-Webhook-Timestamp`).
+ * @param {string} body - The raw JSON body.
+ * @returns {string} The hexadecimal signature (`X-Webhook-Signature`).
+ */
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string => {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+};
+
+/**
+ * Verifies the signature of a webhook delivery, as a receiver would.
+ * @param {string} secret - The secret of the webhook.
+ * @param {string} timestamp - The `X-Webhook-Timestamp` header.
+ * @param {string} body - The raw JSON body.
+ * @param {string} signature - The `X-Webhook-Signature` header.
+ * @returns An object with a valid boolean property and an optional reason string property.
+ */
+export const verifyWebhookSignature = (
+  secret: string,
+  timestamp: string,
+  body: string,
+  signature: string
+): { valid: boolean; reason?: string } => {
+  const sentAt = Number(timestamp);
+  if (isNaN(sentAt)) {
+    return { valid: false, reason: "Invalid timestamp format" };
+  }
+
+  if (Math.abs(Date.now() - sentAt) > SIGNATURE_TOLERANCE_MS) {
+    return { valid: false, reason: "Timestamp outside of the tolerance" };
+  }
+
+  // Compared in constant time, so that the expected signature can't be guessed from response times
+  const received = Buffer.from(String(signature));
+  const expected = Buffer.from(signWebhookPayload(secret, sentAt, body));
+  if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+    return { valid: false, reason: "Invalid signature" };
+  }
+
+  return { valid: true };
+};
+
+/**
+ * Tells whether an IP address belongs to a loopback, private or link-local network.
+ * @param {string} address - The IPv4 or IPv6 address.
+ * @returns {boolean} True if webhooks of users may not target it.
+ */
+const isPrivateAddress = (address: string): boolean => {
+  // IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) reach the IPv4 host
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return PRIVATE_NETWORKS.check(mapped[1], "ipv4");
+  return PRIVATE_NETWORKS.check(address, net.isIPv6(address) ? "ipv6" : "ipv4");
+};
+
+/**
+ * Checks that the host of a webhook URL resolves to public addresses only, unless `webhooks.allowPrivateNetworks` is set.
+ * Done when a webhook is registered and again before each delivery, as the DNS records may change in between.
+ * @param {string} url - The URL of the webhook.
+ * @returns {Promise<string | null>} The reason the URL is refused, or null if it can be used.
+ */
+export const checkWebhookHost = async (url: string): Promise<string | null> => {
+  if (getWebhookSettings().allowPrivateNetworks) return null;
+
+  let hostname: string;
+  try {
+    // IPv6 literals are bracketed in URLs
+    hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+  } catch {
+    return "Invalid URL";
+  }
+
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    return `Host ${hostname} could not be resolved`;
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    return `Host ${hostname} resolves to a private address`;
+  }
+
+  return null;
+};
+
+/**
+ * Resolves a host like dns.lookup, failing if any of its addresses is private.
+ * Used to open the connections of the deliveries, so that a host checked with a public address
+ * can't be connected to on a private one once its DNS records changed (DNS rebinding).
+ */
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true, verbatim: true }, (err, addresses) => {
+    if (err) return callback(err, []);
+
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(new Error(`Host ${hostname} resolves to a private address`), []);
+    }
+
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * Posts a delivery to a webhook URL. Redirects are not followed.
+ * @param {string} url - The URL of the webhook.
+ * @param {object} headers - The request headers.
+ * @param {string} body - The JSON body.
+ * @param {object} options - The timeout of the request, and whether the host must resolve to public addresses only.
+ * @returns {Promise<number>} The status code of the response.
+ */
+const postWebhook = (
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  options: { timeoutMs: number; publicOnly: boolean }
+): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const request = (target.protocol === "https:" ? https : http).request(target, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+      lookup: options.publicOnly ? publicLookup : undefined,
+      // A pooled connection may have been opened without the check
+      agent: options.publicOnly ? false : undefined,
+      signal: AbortSignal.timeout(options.timeoutMs),
+    }, (response) => {
+      // The response body is not used
+      response.resume();
+      resolve(response.statusCode || 0);
+    });
+
+    request.on("error", reject);
+    request.end(body);
+  });
+};
+
+const subscribesTo = (events: string[] | undefined, event: WebhookEvent) => {
+  return !events || events.length === 0 || events.includes(event);
+};
+
+/**
+ * Records an event for the webhooks of the user and the global webhooks, then starts delivering it.
+ * Never throws: a failure to notify must not fail the operation that triggered the event.
+ * @param {WebhookEvent} event - The event.
+ * @param {string} userId - The owner of the video the event is about.
+ * @param {object} data - The data of the event (e.g. videoId, title).
+ */
+export const emitWebhookEvent = async (event: WebhookEvent, userId: string, data: object) => {
+  try {
+    const settings = getWebhookSettings();
+    const webhooks = await Webhook.find({ userId, active: true }).select("url events");
+
+    const targets = [
+      ...webhooks
+        .filter((webhook) => subscribesTo(webhook.events, event))
+        .map((webhook) => ({ webhookId: webhook._id, url: webhook.url })),
+      ...settings.global
+        .filter((webhook) => subscribesTo(webhook.events, event))
+        .map((webhook) => ({ url: webhook.url })),
+    ];
+
+    if (targets.length === 0) return;
+
+    const createdAt = new Date();
+    await WebhookDelivery.insertMany(targets.map((target) => {
+      const _id = new mongoose.Types.ObjectId();
+      return {
+        _id,
+        ...target,
+        userId,
+        event,
+        maxAttempts: settings.maxAttempts,
+        createdAt,
+        payload: { id: _id.toString(), event, createdAt: createdAt.toISOString(), data: { userId, ...data } },
+      };
+    }));
+
+    deliverDueWebhooks();
+  } catch (err) {
+    console.error(`[webhooks] Could not record ${event} event for user ${userId}:`, err);
+  }
+};
+
+/**
+ * Returns the secret of the webhook of a delivery.
+ * @param {IWebhookDelivery} delivery - The delivery.
+ * @returns {Promise<string | null>} The secret, or null if the webhook was deleted or disabled.
+ */
+const getDeliverySecret = async (delivery: IWebhookDelivery): Promise<string | null> => {
+  if (delivery.webhookId) {
+    const webhook = await Webhook.findById(delivery.webhookId).select("secret active");
+    return webhook && webhook.active ? webhook.secret : null;
+  }
+
+  return getWebhookSettings().global.find((webhook) => webhook.url === delivery.url)?.secret || null;
+};
+
+/**
+ * Sends a delivery once and stores the outcome.
+ * Failed attempts are retried with exponential backoff until maxAttempts is reached.
+ * @param {IWebhookDelivery} delivery - The claimed delivery.
+ */
+const sendDelivery = async (delivery: IWebhookDelivery) => {
+  const settings = getWebhookSettings();
+  const secret = await getDeliverySecret(delivery);
+  const startedAt = Date.now();
+  let statusCode: number | undefined;
+  let error: string | undefined;
+
+  // Global webhooks are set by the administrator and may target the internal network
+  const publicOnly = !!delivery.webhookId && !settings.allowPrivateNetworks;
+  const refused = secret && publicOnly ? await checkWebhookHost(delivery.url) : null;
+
+  if (!secret) {
+    error = "Webhook deleted or disabled";
+  } else if (refused) {
+    error = refused;
+  } else {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Date.now();
+
+    try {
+      statusCode = await postWebhook(delivery.url, {
+        "Content-Type": "application/json",
+        "User-Agent": "Video-Server-Webhooks",
+        "X-Webhook-Id": delivery._id.toString(),
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": signWebhookPayload(secret, timestamp, body),
+      }, body, { timeoutMs: settings.timeoutMs, publicOnly });
+
+      if (statusCode < 200 || statusCode >= 300) {
+        error = `Unexpected response status ${statusCode}`;
+      }
+    } catch (err: any) {
+      error = err?.message || String(err);
+    }
+  }
+
+  const attempt: IWebhookAttempt = { at: new Date(startedAt), statusCode, error, durationMs: Date.now() - startedAt };
+  const attempts = delivery.attempts + 1;
+  const update: any = {
+    attempts,
+    $push: { history: { $each: [attempt], $slice: -MAX_HISTORY } },
+  };
+
+  if (!error) {
+    update.status = "delivered";
+    update.deliveredAt = new Date();
+  } else if (secret && attempts < delivery.maxAttempts) {
+    update.status = "pending";
+    update.nextAttemptAt = new Date(Date.now() + settings.retryDelayMs * Math.pow(2, attempts - 1));
+  } else {
+    update.status = "failed";
+  }
+
+  await WebhookDelivery.findByIdAndUpdate(delivery._id, update);
+
+  if (error) {
+    console.warn(`[webhooks] Delivery ${delivery._id} of ${delivery.event} to ${delivery.url} failed (attempt ${attempts}/${delivery.maxAttempts}): ${error}`);
+  } else if (ENABLE_LOGS) {
+    console.log(`[webhooks] Delivered ${delivery.event} to ${delivery.url}`);
+  }
+};
+
+/**
+ * Sends the due deliveries one after the other, skipping the URLs other workers are sending to.
+ * Claiming through findOneAndUpdate guarantees that a delivery is never sent twice at the same time.
+ */
+const runWorker = async () => {
+  try {
+    while (!stopped) {
+      const delivery = await WebhookDelivery.findOneAndUpdate(
+        { status: "pending", nextAttemptAt: { $lte: new Date() }, url: { $nin: [...sendingUrls] } },
+        { $set: { status: "sending" } },
+        { sort: { nextAttemptAt: 1 }, new: true }
+      );
+
+      if (!delivery) return;
+
+      sendingUrls.add(delivery.url);
+      try {
+        await sendDelivery(delivery);
+      } finally {
+        sendingUrls.delete(delivery.url);
+      }
+    }
+  } catch (err) {
+    console.error("[webhooks] Error delivering webhooks:", err);
+  }
+};
+
+/**
+ * Starts sending the due deliveries, with up to `webhooks.concurrency` workers.
+ * @returns {Promise<void>} Resolves when the workers end.
+ */
+export const deliverDueWebhooks = (): Promise<void> => {
+  while (!stopped && activeWorkers.size < getWebhookSettings().concurrency) {
+    const worker: Promise<void> = runWorker().finally(() => {
+      activeWorkers.delete(worker);
+    });
+    activeWorkers.add(worker);
+  }
+  return Promise.all(activeWorkers).then(() => undefined);
+};
+
+/**
+ * Starts the webhook deliveries.
+ * Deliveries left in "sending" state by a previous process are sent again,
+ * then the deliveries are polled periodically to pick up the retries.
+ */
+export const startWebhookDelivery = async () => {
+  stopped = false;
+
+  await WebhookDelivery.updateMany({ status: "sending" }, { $set: { status: "pending" } });
+
+  if (!pollTimer) {
+    pollTimer = setInterval(deliverDueWebhooks, getWebhookSettings().pollIntervalMs);
+  }
+
+  deliverDueWebhooks();
+};
+
+/**
+ * Stops the webhook deliveries, letting the ones in progress finish.
+ * Pending deliveries are sent at next start.
+ */
+export const stopWebhookDelivery = async () => {
+  stopped = true;
+
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = undefined;
+  }
+
+  await Promise.all(activeWorkers);
+};
+
+/**
+ * Serializes a webhook for the API. The secret is only returned when the webhook is created.
+ * @param {IWebhook} webhook - The webhook.
+ * @returns {object} The public representation of the webhook.
+ */
+export const serializeWebhook = (webhook: IWebhook) => ({
+  _id: webhook._id,
+  url: webhook.url,
+  events: webhook.events,
+  description: webhook.description || "",
+  active: webhook.active,
+  createdAt: webhook.createdAt,
+});
+
+/**
+ * Serializes a delivery for the delivery log.
+ * @param {IWebhookDelivery} delivery - The delivery.
+ * @returns {object} The public representation of the delivery.
+ */
+export const serializeWebhookDelivery = (delivery: IWebhookDelivery) => ({
+  _id: delivery._id,
+  event: delivery.event,
+  status: delivery.status,
+  attempts: delivery.attempts,
+  maxAttempts: delivery.maxAttempts,
+  nextAttemptAt: delivery.status === "pending" ? delivery.nextAttemptAt : null,
+  deliveredAt: delivery.deliveredAt || null,
+  history: delivery.history,
+  payload: delivery.payload,
+  createdAt: delivery.createdAt,
+});
@@ -0,0 +1,29 @@
+import { param, query } from 'express-validator';
+import { listVideosValidator } from './video.validators';
+
+const limitValidator = () =>
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 }).withMessage('limit must be between 1 and 100')
+    .toInt();
+
+export const adminListVideosValidator = [
+  ...listVideosValidator,
+  query('userId')
+    .optional()
+    .isMongoId().withMessage('Invalid user id')
+];
+
+export const adminListFailuresValidator = [
+  limitValidator()
+];
+
+export const adminStorageValidator = [
+  limitValidator()
+];
+
+export const userIdParamValidator = [
+  param('userId')
+    .isMongoId()
+    .withMessage('Invalid user id')
+];
@@ -0,0 +1,38 @@
+import { body, query } from 'express-validator';
+import { videoIdParamValidator } from './video.validators';
+
+const rangeValidator = [
+  query('from')
+    .optional()
+    .isISO8601().withMessage('from must be an ISO 8601 date')
+    .toDate(),
+  query('to')
+    .optional()
+    .isISO8601().withMessage('to must be an ISO 8601 date')
+    .toDate()
+];
+
+export const heartbeatValidator = [
+  ...videoIdParamValidator,
+  body('sessionId')
+    .isString().withMessage('sessionId is required')
+    .bail()
+    .trim()
+    .isLength({ min: 1, max: 64 }).withMessage('sessionId must be 1-64 chars'),
+  body('position')
+    .isFloat({ min: 0 }).withMessage('position must be a number of seconds')
+    .toFloat(),
+  body('playedSeconds')
+    .optional()
+    .isFloat({ min: 0 }).withMessage('playedSeconds must be a positive number of seconds')
+    .toFloat()
+];
+
+export const videoAnalyticsValidator = [
+  ...videoIdParamValidator,
+  ...rangeValidator
+];
+
+export const userAnalyticsValidator = [
+  ...rangeValidator
+];
@@ -0,0 +1,69 @@
+import { body, param } from 'express-validator';
+import { getMaxPlaylistVideos } from '../utils/playlists';
+
+export const playlistIdParamValidator = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid playlist id')
+];
+
+const videoIdsValidator = (field: string) =>
+  body(field)
+    .isArray().withMessage(`${field} must be an array of video ids`)
+    .bail()
+    .custom((ids: unknown[]) => ids.length <= getMaxPlaylistVideos())
+    .withMessage(() => `A playlist holds at most ${getMaxPlaylistVideos()} videos`)
+    .bail()
+    .custom((ids: unknown[]) => ids.every(id => typeof id === 'string' && /^[a-f\d]{24}$/i.test(id)))
+    .withMessage(`${field} must be an array of video ids`);
+
+export const createPlaylistValidator = [
+  body('title')
+    .isString().withMessage('Title is required')
+    .bail()
+    .trim()
+    .isLength({ min: 1, max: 150 }).withMessage('Title must be 1-150 chars'),
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 2000 }),
+  videoIdsValidator('videos')
+    .optional()
+];
+
+export const updatePlaylistValidator = [
+  ...playlistIdParamValidator,
+  body('title')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 150 }).withMessage('Title must be 1-150 chars'),
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 2000 }),
+  body('coverVideoId')
+    .optional({ values: 'null' })
+    .isMongoId().withMessage('Invalid video id')
+];
+
+export const addPlaylistVideoValidator = [
+  ...playlistIdParamValidator,
+  body('videoId')
+    .isMongoId().withMessage('Invalid video id'),
+  body('position')
+    .optional()
+    .isInt({ min: 0 }).withMessage('position must be a positive integer')
+    .toInt()
+];
+
+export const playlistVideoParamValidator = [
+  ...playlistIdParamValidator,
+  param('videoId')
+    .isMongoId()
+    .withMessage('Invalid video id')
+];
+
+export const reorderPlaylistValidator = [
+  ...playlistIdParamValidator,
+  videoIdsValidator('videos')
+];
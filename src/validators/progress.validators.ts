@@ -0,0 +1,21 @@
+import { body, query } from 'express-validator';
+import { videoIdParamValidator } from './video.validators';
+import { MAX_PAGE_SIZE } from '../utils/videoQuery';
+
+export const saveProgressValidator = [
+  ...videoIdParamValidator,
+  body('position')
+    .isFloat({ min: 0 }).withMessage('position must be a number of seconds')
+    .toFloat(),
+  body('finished')
+    .optional()
+    .isBoolean().withMessage('finished must be a boolean')
+    .toBoolean()
+];
+
+export const continueWatchingValidator = [
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: MAX_PAGE_SIZE }).withMessage(`limit must be between 1 and ${MAX_PAGE_SIZE}`)
+    .toInt()
+];
@@ -0,0 +1,53 @@
+import { body, param } from 'express-validator';
+import { videoIdParamValidator } from './video.validators';
+
+export const createShareValidator = [
+  ...videoIdParamValidator,
+  body('label')
+    .optional({ values: 'falsy' })
+    .trim()
+    .isLength({ max: 100 }).withMessage('Label must be at most 100 chars'),
+  body('password')
+    .optional({ values: 'falsy' })
+    .isString()
+    .isLength({ min: 4, max: 128 }).withMessage('Password must be 4-128 chars'),
+  body('expiresAt')
+    .optional({ values: 'falsy' })
+    .isISO8601().withMessage('expiresAt must be an ISO 8601 date')
+    .bail()
+    .toDate()
+    .custom((date: Date) => date.getTime() > Date.now()).withMessage('expiresAt must be in the future'),
+  body('maxViews')
+    .optional({ values: 'null' })
+    .isInt({ min: 1, max: 1000000 }).withMessage('maxViews must be a positive integer')
+    .toInt()
+];
+
+export const shareIdParamValidator = [
+  ...videoIdParamValidator,
+  param('shareId')
+    .isMongoId()
+    .withMessage('Invalid share id')
+];
+
+export const shareTokenParamValidator = [
+  param('token')
+    .matches(/^[A-Za-z0-9_-]{43}$/)
+    .withMessage('Invalid share token')
+];
+
+export const accessShareValidator = [
+  ...shareTokenParamValidator,
+  body('password')
+    .optional({ values: 'falsy' })
+    .isString()
+    .isLength({ max: 128 })
+];
+
+export const refreshShareValidator = [
+  ...shareTokenParamValidator,
+  body('expires').notEmpty().withMessage('expires is required'),
+  body('signature').isString().notEmpty().withMessage('signature is required'),
+  body('uid').isString().notEmpty().withMessage('uid is required'),
+  body('kid').isString().notEmpty().withMessage('kid is required')
+];
@@ -0,0 +1,21 @@
+import { body, param } from 'express-validator';
+import { videoIdParamValidator } from './video.validators';
+
+export const subtitleLanguageParamValidator = [
+  ...videoIdParamValidator,
+  param('lang')
+    .matches(/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/)
+    .withMessage('Language must be a BCP 47 code (e.g. "en", "pt-BR")')
+];
+
+export const uploadSubtitleValidator = [
+  ...subtitleLanguageParamValidator,
+  body('label')
+    .optional({ values: 'falsy' })
+    .trim()
+    .isLength({ min: 1, max: 50 }).withMessage('Label must be 1-50 chars'),
+  body('isDefault')
+    .optional()
+    .isBoolean().withMessage('isDefault must be a boolean')
+    .toBoolean()
+];
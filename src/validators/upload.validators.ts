@@ -0,0 +1,39 @@
+import { body, param, header } from 'express-validator';
+import config from 'config';
+import { uploadVideoValidator } from './video.validators';
+
+export const createUploadValidator = [
+  body('filename')
+    .isString().withMessage('Filename is required')
+    .bail()
+    .trim()
+    .isLength({ min: 1, max: 255 })
+    .custom((filename: string) => {
+      const extensions: string = config.get("allowedVideoTypes");
+      const fileExtension = filename.split(".").pop()?.toLowerCase();
+      if (!extensions.split("|").includes(fileExtension || "")) {
+        throw new Error(`File type not allowed. Allowed types are: ${extensions}`);
+      }
+      return true;
+    }),
+  body('size')
+    .isInt({ min: 1 }).withMessage('Size must be a positive integer')
+    .toInt(),
+  ...uploadVideoValidator
+];
+
+export const uploadIdParamValidator = [
+  param('uploadId')
+    .isMongoId()
+    .withMessage('Invalid upload id')
+];
+
+export const patchChunkValidator = [
+  ...uploadIdParamValidator,
+  header('upload-offset')
+    .isInt({ min: 0 }).withMessage('Upload-Offset header must be a non-negative integer')
+    .toInt(),
+  header('content-type')
+    .equals('application/offset+octet-stream')
+    .withMessage('Content-Type must be application/offset+octet-stream')
+];
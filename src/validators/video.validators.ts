@@ -1,4 +1,37 @@
-import { body, param } from 'express-validator';
+import { body, param, query, ValidationChain } from 'express-validator';
+import { parseLadder, PACKAGING_TYPES } from '../utils/transcodingLadder';
+import { VIDEO_ARTIFACTS } from '../utils/videoUtils';
+import { ANIMATED_PREVIEW_FORMATS, MAX_PREVIEW_SNIPPETS, MAX_THUMBNAIL_CANDIDATES } from '../utils/thumbnails';
+import { BULK_ACTIONS, MAX_BULK_VIDEOS } from '../utils/bulkOperations';
+import { MAX_PAGE_SIZE, VIDEO_SORT_FIELDS, VIDEO_STATUSES } from '../utils/videoQuery';
+
+const ladderValidator = () =>
+  body('ladder')
+    .optional({ values: 'falsy' })
+    .customSanitizer((value) => {
+      try {
+        return parseLadder(value);
+      } catch (err) {
+        return { invalid: (err as Error).message };
+      }
+    })
+    .custom((ladder) => {
+      if (!Array.isArray(ladder)) throw new Error(ladder.invalid);
+      return true;
+    });
+
+const packagingValidator = () =>
+  body('packaging')
+    .optional({ values: 'falsy' })
+    .isIn(PACKAGING_TYPES).withMessage(`Packaging must be one of: ${PACKAGING_TYPES.join(', ')}`);
+
+const artifactsValidator = () =>
+  body('artifacts')
+    .optional()
+    .isArray({ min: 1, max: VIDEO_ARTIFACTS.length }).withMessage('artifacts must be a non-empty array')
+    .bail()
+    .custom((artifacts: string[]) => artifacts.every((artifact) => (VIDEO_ARTIFACTS as string[]).includes(artifact)))
+    .withMessage(`artifacts must be among: ${VIDEO_ARTIFACTS.join(', ')}`);
 
 export const uploadVideoValidator = [
   body('title')
@@ -26,7 +59,9 @@ export const uploadVideoValidator = [
       }
       return [];
     })
-    .custom((tags: string[]) => tags.length <= 50)
+    .custom((tags: string[]) => tags.length <= 50),
+  ladderValidator(),
+  packagingValidator()
 ];
 
 export const videoIdParamValidator = [
@@ -35,6 +70,68 @@ export const videoIdParamValidator = [
     .withMessage('Invalid video id')
 ];
 
+export const reprocessVideoValidator = [
+  ...videoIdParamValidator,
+  artifactsValidator(),
+  ladderValidator(),
+  packagingValidator()
+];
+
+export const signedUrlValidator = [
+  ...videoIdParamValidator,
+  body('bindIp')
+    .optional()
+    .isBoolean().withMessage('bindIp must be true or false')
+    .toBoolean(),
+  body('rendition')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 20 }).withMessage('rendition must be the name of a rendition')
+];
+
+// Scope of the signed URL being refreshed, as found in its query
+export const refreshTokenValidator = [
+  ...videoIdParamValidator,
+  body('path')
+    .optional()
+    .isString()
+    .matches(/^\//).withMessage('path must be a path of the video server'),
+  body('rendition')
+    .optional()
+    .matches(/^\d+(,\d+)*$/).withMessage('rendition must be comma-separated variant indexes'),
+  body('ip')
+    .optional()
+    .isIP().withMessage('ip must be an IP address')
+];
+
+export const thumbnailCandidatesValidator = [
+  ...videoIdParamValidator,
+  query('count')
+    .optional()
+    .isInt({ min: 1, max: MAX_THUMBNAIL_CANDIDATES }).withMessage(`count must be between 1 and ${MAX_THUMBNAIL_CANDIDATES}`)
+    .toInt()
+];
+
+export const thumbnailFrameValidator = [
+  ...videoIdParamValidator,
+  body('time')
+    .isFloat({ min: 0 }).withMessage('time must be a number of seconds')
+    .toFloat()
+];
+
+export const animatedPreviewValidator = [
+  ...videoIdParamValidator,
+  body('starts')
+    .optional()
+    .isArray({ max: MAX_PREVIEW_SNIPPETS }).withMessage(`starts must be an array of at most ${MAX_PREVIEW_SNIPPETS} times`)
+    .bail()
+    .custom((starts: unknown[]) => starts.every((start) => typeof start === 'number' && start >= 0))
+    .withMessage('starts must be numbers of seconds'),
+  body('format')
+    .optional()
+    .isIn(ANIMATED_PREVIEW_FORMATS).withMessage(`format must be one of: ${ANIMATED_PREVIEW_FORMATS.join(', ')}`)
+];
+
 export const updateVideoValidator = [
   ...videoIdParamValidator,
   body('title')
@@ -55,3 +152,104 @@ export const updateVideoValidator = [
     .bail()
     .custom((tags: unknown[]) => tags.every(t => typeof t === 'string' && t.length <= 50))
 ];
+
+/**
+ * Builds the validators of the filters of a video listing.
+ * @param {Function} field - Returns the validation chain of a filter from its name, e.g. `query` for a query string.
+ * @returns {ValidationChain[]} The validators.
+ */
+const videoFilterValidator = (field: (name: string) => ValidationChain) => [
+  field('q')
+    .optional({ values: 'falsy' })
+    .trim()
+    .isLength({ max: 200 }).withMessage('Search text too long'),
+  field('category')
+    .optional({ values: 'falsy' })
+    .trim()
+    .isLength({ max: 50 }),
+  field('tags')
+    .optional({ values: 'falsy' })
+    .customSanitizer((value) => {
+      const list = Array.isArray(value) ? value : String(value).split(',');
+      return list.map((t: unknown) => String(t).trim()).filter(Boolean);
+    })
+    .custom((tags: string[]) => tags.length <= 20 && tags.every(t => t.length <= 50))
+    .withMessage('At most 20 tags of 50 chars'),
+  field('videoStatus')
+    .optional({ values: 'falsy' })
+    .isIn(VIDEO_STATUSES).withMessage(`videoStatus must be one of: ${VIDEO_STATUSES.join(', ')}`),
+  field('from')
+    .optional({ values: 'falsy' })
+    .isISO8601().withMessage('from must be an ISO 8601 date')
+    .toDate(),
+  field('to')
+    .optional({ values: 'falsy' })
+    .isISO8601().withMessage('to must be an ISO 8601 date')
+    .toDate(),
+  field('minDuration')
+    .optional({ values: 'falsy' })
+    .isFloat({ min: 0 }).withMessage('minDuration must be a positive number of seconds')
+    .toFloat(),
+  field('maxDuration')
+    .optional({ values: 'falsy' })
+    .isFloat({ min: 0 }).withMessage('maxDuration must be a positive number of seconds')
+    .toFloat(),
+  field('watched')
+    .optional({ values: 'null' })
+    .isBoolean().withMessage('watched must be true or false')
+    .toBoolean(),
+  field('finished')
+    .optional({ values: 'null' })
+    .isBoolean().withMessage('finished must be true or false')
+    .toBoolean()
+];
+
+export const listVideosValidator = [
+  ...videoFilterValidator(query),
+  query('sort')
+    .optional({ values: 'falsy' })
+    .isIn(VIDEO_SORT_FIELDS).withMessage(`sort must be one of: ${VIDEO_SORT_FIELDS.join(', ')}`),
+  query('order')
+    .optional({ values: 'falsy' })
+    .isIn(['asc', 'desc']).withMessage('order must be asc or desc'),
+  query('limit')
+    .optional({ values: 'falsy' })
+    .isInt({ min: 1, max: MAX_PAGE_SIZE }).withMessage(`limit must be between 1 and ${MAX_PAGE_SIZE}`)
+    .toInt(),
+  query('cursor')
+    .optional({ values: 'falsy' })
+    .isString()
+    .isLength({ max: 500 })
+];
+
+export const bulkVideosValidator = [
+  body('action')
+    .isIn(BULK_ACTIONS).withMessage(`action must be one of: ${BULK_ACTIONS.join(', ')}`),
+  body('ids')
+    .optional()
+    .isArray({ min: 1, max: MAX_BULK_VIDEOS }).withMessage(`ids must be an array of 1 to ${MAX_BULK_VIDEOS} video ids`),
+  body('ids.*')
+    .isMongoId().withMessage('Invalid video id'),
+  body('filter')
+    .optional()
+    .isObject().withMessage('filter must be an object'),
+  body()
+    .custom((value) => (value.ids === undefined) !== (value.filter === undefined))
+    .withMessage('Either ids or filter is required, not both'),
+  ...videoFilterValidator((name) => body(`filter.${name}`)),
+  body('category')
+    .if(body('action').equals('setCategory'))
+    .isString().withMessage('category is required')
+    .bail()
+    .trim()
+    .isLength({ max: 50 }),
+  body('tags')
+    .if(body('action').isIn(['addTags', 'removeTags']))
+    .isArray({ min: 1, max: 50 }).withMessage('tags must be a non-empty array')
+    .bail()
+    .custom((tags: unknown[]) => tags.every(t => typeof t === 'string' && t.length > 0 && t.length <= 50))
+    .withMessage('Tags must be strings of 1-50 chars'),
+  artifactsValidator(),
+  ladderValidator(),
+  packagingValidator()
+];
@@ -0,0 +1,66 @@
+import { body, param, query } from 'express-validator';
+import { checkWebhookHost, WEBHOOK_EVENTS } from '../utils/webhooks';
+
+const WEBHOOK_URL_OPTIONS = { protocols: ['http', 'https'], require_protocol: true };
+
+// Refuses URLs reaching the server itself or the internal network
+const publicHostValidator = async (url: string) => {
+  const reason = await checkWebhookHost(url);
+  if (reason) throw new Error(reason);
+  return true;
+};
+
+const eventsValidator = () =>
+  body('events')
+    .optional()
+    .isArray({ max: WEBHOOK_EVENTS.length }).withMessage('events must be an array')
+    .bail()
+    .custom((events: string[]) => events.every((event) => (WEBHOOK_EVENTS as readonly string[]).includes(event)))
+    .withMessage(`events must be among: ${WEBHOOK_EVENTS.join(', ')}`);
+
+export const createWebhookValidator = [
+  body('url')
+    .isURL(WEBHOOK_URL_OPTIONS).withMessage('url must be an http(s) URL')
+    .bail()
+    .custom(publicHostValidator),
+  eventsValidator(),
+  body('description')
+    .optional({ values: 'falsy' })
+    .trim()
+    .isLength({ max: 200 }).withMessage('Description must be at most 200 chars')
+];
+
+export const webhookIdParamValidator = [
+  param('webhookId')
+    .isMongoId()
+    .withMessage('Invalid webhook id')
+];
+
+export const updateWebhookValidator = [
+  ...webhookIdParamValidator,
+  body('url')
+    .optional()
+    .isURL(WEBHOOK_URL_OPTIONS).withMessage('url must be an http(s) URL')
+    .bail()
+    .custom(publicHostValidator),
+  eventsValidator(),
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 200 }).withMessage('Description must be at most 200 chars'),
+  body('active')
+    .optional()
+    .isBoolean().withMessage('active must be a boolean')
+    .toBoolean()
+];
+
+export const listDeliveriesValidator = [
+  ...webhookIdParamValidator,
+  query('status')
+    .optional()
+    .isIn(['pending', 'sending', 'delivered', 'failed']).withMessage('Invalid delivery status'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 }).withMessage('limit must be between 1 and 100')
+    .toInt()
+];
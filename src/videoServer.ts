@@ -0,0 +1,221 @@
+import express from 'express';
+import cors from 'cors';
+import config from 'config';
+import mongoose from 'mongoose';
+import { NODE_ENV } from './config/env';
+import videoRoutes from './routes/video.routes';
+import uploadRoutes from './routes/upload.routes';
+import subtitleRoutes from './routes/subtitle.routes';
+import shareRoutes from './routes/share.routes';
+import accountRoutes from './routes/account.routes';
+import webhookRoutes from './routes/webhook.routes';
+import adminRoutes from './routes/admin.routes';
+import analyticsRoutes from './routes/analytics.routes';
+import progressRoutes from './routes/progress.routes';
+import playlistRoutes from './routes/playlist.routes';
+import bulkRoutes from './routes/bulk.routes';
+import { StorageDriver } from './storage/storage.driver';
+import { startJobQueue, stopJobQueue } from './utils/jobQueue';
+import { startUploadCleanup, stopUploadCleanup } from './utils/resumableUpload';
+import { notifyShutdown } from './utils/processingEvents';
+import { startWebhookDelivery, stopWebhookDelivery } from './utils/webhooks';
+import {
+  configureServer,
+  getDefaultLimits,
+  JobQueueSettings,
+  StreamKey,
+  VideoServerLimits,
+} from './server.settings';
+import { version } from '../package.json';
+
+export interface VideoServerOptions {
+  publicKey: string;                    // PEM public key verifying the RS256 JWTs of the auth server
+  streamSecret?: string;                // HMAC secret of the signed streaming URLs, key id "default"
+  streamKeys?: StreamKey[];             // Keys for rotation: the first one signs, all of them (and streamSecret) verify
+  mongoUri?: string;                    // Connected by start(); omit to use the connection of the host application
+  storagePath?: string;                 // Local folder for uploads and processing (default "uploads/videos")
+  storage?: StorageDriver;              // Storage backend (default: selected by STORAGE_DRIVER)
+  limits?: Partial<VideoServerLimits>;
+  jobQueue?: Partial<JobQueueSettings>; // Overrides `jobQueue` of config/default.json
+  shutdownTimeoutMs?: number;           // How long stop() waits for requests and jobs (default `shutdown.timeoutMs`)
+}
+
+export interface VideoServer {
+  app: express.Express;                 // Mount it with `app.use(server.app)` or `app.use("/media", server.app)`
+  start: () => Promise<void>;
+  stop: () => Promise<void>;            // Graceful: drains requests and jobs before closing
+}
+
+// Key id of the `streamSecret` option
+const DEFAULT_STREAM_KID = 'default';
+
+/**
+ * Builds the keys of the signed URLs from the options: `streamKeys`, then `streamSecret` as the "default" key.
+ * The first key signs the new URLs; the others only verify URLs issued before a rotation.
+ * @param {VideoServerOptions} options - The options of the video server.
+ * @returns {StreamKey[]} The keys.
+ * @throws {Error} If there is no key, or a key has no id or secret, or two keys have the same id.
+ */
+const resolveStreamKeys = (options: VideoServerOptions): StreamKey[] => {
+  const keys = [...(options.streamKeys || [])];
+  if (options.streamSecret) keys.push({ kid: DEFAULT_STREAM_KID, secret: options.streamSecret });
+
+  if (keys.length === 0) {
+    throw new Error('createVideoServer: streamSecret or streamKeys is required');
+  }
+
+  if (keys.some((key) => !key.kid || !key.secret)) {
+    throw new Error('createVideoServer: every stream key needs a kid and a secret');
+  }
+
+  if (new Set(keys.map((key) => key.kid)).size !== keys.length) {
+    throw new Error('createVideoServer: stream key ids must be unique');
+  }
+
+  return keys;
+};
+
+// Requests still accepted while draining: reads, so that open streams and players keep working
+const DRAINING_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+/**
+ * Creates the video server: an Express app exposing every route of the API, plus the hooks
+ * starting and stopping its background work (MongoDB connection, job queue, upload cleanup, webhook deliveries).
+ * stop() is graceful: writes are refused, in-flight requests and running jobs get `shutdownTimeoutMs`
+ * to finish, then the remaining transcodes are killed and queued again to resume at next start.
+ * Nothing is read from the environment and nothing runs until start() is called,
+ * so the server can be embedded in another application or created in tests.
+ * The settings are shared by the whole process: create a single video server per process.
+ * @param {VideoServerOptions} options - The key, secret, connection, storage and limits of the server.
+ * @returns {VideoServer} The app and its start/stop hooks.
+ * @throws {Error} If the public key or the stream keys are missing or invalid.
+ */
+export const createVideoServer = (options: VideoServerOptions): VideoServer => {
+  if (!options.publicKey) {
+    throw new Error('createVideoServer: publicKey is required');
+  }
+
+  configureServer({
+    publicKey: options.publicKey,
+    streamKeys: resolveStreamKeys(options),
+    videoPath: options.storagePath || 'uploads/videos',
+    storage: options.storage,
+    limits: { ...getDefaultLimits(), ...options.limits },
+    jobQueue: { ...config.get<JobQueueSettings>('jobQueue'), ...options.jobQueue },
+  });
+
+  const shutdownTimeoutMs = options.shutdownTimeoutMs ?? config.get<number>('shutdown.timeoutMs');
+  let draining = false;
+  let inFlight = 0;
+
+  const app = express();
+
+  // Counts the requests in flight and, once stop() was called, refuses uploads and other writes
+  app.use((req, res, next) => {
+    if (draining) {
+      res.set('Connection', 'close');
+
+      if (!DRAINING_METHODS.includes(req.method)) {
+        res.set('Retry-After', '30');
+        return res.status(503).json({ error: 'Server is shutting down' });
+      }
+    }
+
+    inFlight++;
+    let done = false;
+    const finish = () => {
+      if (done) return;
+      done = true;
+      inFlight--;
+    };
+    res.on('finish', finish);
+    res.on('close', finish);
+
+    next();
+  });
+
+  app.use(cors());
+  app.use(express.json());
+
+  app.use(uploadRoutes);
+  app.use(subtitleRoutes);
+  app.use(shareRoutes);
+  app.use(accountRoutes);
+  app.use(webhookRoutes);
+  app.use(adminRoutes);
+  app.use(analyticsRoutes);
+  app.use(progressRoutes);
+  app.use(playlistRoutes);
+  app.use(bulkRoutes);
+  app.use(videoRoutes);
+
+  app.get('/health', (req, res) => {
+    res.json({
+      status: 'Video Server is running',
+      version: version,
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+    console.error('=== GLOBAL ERROR HANDLER ===');
+    console.error('URL:', req.method, req.url);
+    console.error('Error:', err);
+    console.error('Message:', err.message);
+    console.error('Stack:', err.stack);
+    console.error('============================');
+
+    res.status(err.status || 500).json({
+      error: err.message || 'Internal Server Error',
+      details: NODE_ENV === 'development' ? err.stack : undefined
+    });
+  });
+
+  const start = async () => {
+    draining = false;
+
+    if (options.mongoUri) {
+      await mongoose.connect(options.mongoUri);
+      console.log('Connected to MongoDB (Video Metadata)');
+    }
+
+    startUploadCleanup();
+    await startJobQueue();
+    await startWebhookDelivery();
+  };
+
+  /**
+   * Waits until no request is in flight, or until the deadline.
+   * @param {number} deadline - Timestamp after which the remaining requests are abandoned.
+   */
+  const waitForRequests = async (deadline: number) => {
+    while (inFlight > 0 && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    if (inFlight > 0) {
+      console.warn(`[videoServer] ${inFlight} request(s) still in flight after ${shutdownTimeoutMs}ms`);
+    }
+  };
+
+  const stop = async () => {
+    draining = true;
+    stopUploadCleanup();
+    notifyShutdown();
+
+    // Requests and jobs drain in parallel, MongoDB is still needed by both
+    await Promise.all([
+      waitForRequests(Date.now() + shutdownTimeoutMs),
+      stopJobQueue(shutdownTimeoutMs),
+    ]);
+    // After the jobs, so that the events they emitted are recorded (sent at next start if still pending)
+    await stopWebhookDelivery();
+
+    // A connection given by the host application is left open
+    if (options.mongoUri) {
+      await mongoose.disconnect();
+    }
+  };
+
+  return { app, start, stop };
+};